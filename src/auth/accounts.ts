@@ -0,0 +1,115 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Account, PublicAccount } from '../types/game.js';
+import { saveAccount, loadAccount, findAccountByUsername } from '../db/storage.js';
+import { AccountError } from '../game/errors.js';
+import { hashPassword, verifyPassword } from './password.js';
+import { signPayload, readSignedPayload } from './signing.js';
+
+// How long a login lasts before the client has to log in again
+const ACCOUNT_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+interface AccountTokenPayload {
+  accountId: string;
+  expiresAt: number;
+}
+
+// Usernames are unique regardless of case
+function usernameKey(username: string): string {
+  return username.toLowerCase();
+}
+
+async function assertUsernameFree(username: string): Promise<void> {
+  if (await findAccountByUsername(usernameKey(username))) {
+    throw new AccountError('USERNAME_TAKEN', 'That username is taken', { username });
+  }
+}
+
+export function toPublicAccount(account: Account): PublicAccount {
+  return {
+    id: account.id,
+    username: account.username,
+    displayName: account.displayName,
+    isGuest: account.isGuest,
+    createdAt: account.createdAt
+  };
+}
+
+export async function registerAccount(username: string, password: string, displayName: string = username): Promise<Account> {
+  await assertUsernameFree(username);
+
+  const now = new Date();
+  const account: Account = {
+    id: uuidv4(),
+    username,
+    usernameKey: usernameKey(username),
+    displayName,
+    passwordHash: await hashPassword(password),
+    isGuest: false,
+    createdAt: now,
+    updatedAt: now
+  };
+  await saveAccount(account);
+  return account;
+}
+
+export async function createGuestAccount(displayName: string): Promise<Account> {
+  const now = new Date();
+  const account: Account = {
+    id: uuidv4(),
+    username: null,
+    usernameKey: null,
+    displayName,
+    passwordHash: null,
+    isGuest: true,
+    createdAt: now,
+    updatedAt: now
+  };
+  await saveAccount(account);
+  return account;
+}
+
+// A guest keeps their account id, and with it every seat and game they already have
+export async function upgradeGuestAccount(accountId: string, username: string, password: string): Promise<Account> {
+  const account = await loadAccount(accountId);
+  if (!account) throw new AccountError('ACCOUNT_NOT_FOUND', 'Account not found');
+  if (!account.isGuest) throw new AccountError('NOT_A_GUEST', 'This account already has a username');
+  await assertUsernameFree(username);
+
+  account.username = username;
+  account.usernameKey = usernameKey(username);
+  account.passwordHash = await hashPassword(password);
+  account.isGuest = false;
+  account.updatedAt = new Date();
+  await saveAccount(account);
+  return account;
+}
+
+// Wrong usernames and wrong passwords get the same answer, so usernames can't be probed
+export async function logIn(username: string, password: string): Promise<Account> {
+  const account = await findAccountByUsername(usernameKey(username));
+  if (!account?.passwordHash || !await verifyPassword(password, account.passwordHash)) {
+    throw new AccountError('INVALID_CREDENTIALS', 'Wrong username or password');
+  }
+  return account;
+}
+
+export function issueAccountToken(account: Account, now: number = Date.now()): string {
+  const payload: AccountTokenPayload = { accountId: account.id, expiresAt: now + ACCOUNT_TOKEN_TTL_MS };
+  return signPayload(payload);
+}
+
+// The account a token was issued to, or null when it is forged or expired
+export function verifyAccountToken(token: string, now: number = Date.now()): string | null {
+  const payload = readSignedPayload(token);
+  if (!payload || typeof payload.accountId !== 'string' || typeof payload.expiresAt !== 'number') return null;
+  if (payload.expiresAt <= now) return null;
+  return payload.accountId;
+}
+
+// The account behind a token, for requests that need one
+export async function authenticate(token: string | undefined): Promise<Account> {
+  const accountId = token ? verifyAccountToken(token) : null;
+  const account = accountId ? await loadAccount(accountId) : null;
+  if (!account) throw new AccountError('AUTH_REQUIRED', 'Log in to do that');
+  return account;
+}
@@ -0,0 +1,45 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Account, FriendGroup } from '../types/game.js';
+import { saveFriendGroup, loadFriendGroup } from '../db/storage.js';
+import { NotFoundError } from '../game/errors.js';
+
+export async function createFriendGroup(creator: Account, name: string): Promise<FriendGroup> {
+  const now = new Date();
+  const group: FriendGroup = {
+    id: uuidv4(),
+    name,
+    createdBy: creator.id,
+    memberIds: [creator.id],
+    createdAt: now,
+    updatedAt: now
+  };
+  await saveFriendGroup(group);
+  return group;
+}
+
+export async function getFriendGroup(groupId: string): Promise<FriendGroup> {
+  const group = await loadFriendGroup(groupId);
+  if (!group) throw new NotFoundError('GROUP_NOT_FOUND', 'Group not found');
+  return group;
+}
+
+// The group id works as the invite: whoever has it can join
+export async function joinFriendGroup(groupId: string, accountId: string): Promise<FriendGroup> {
+  const group = await getFriendGroup(groupId);
+  if (group.memberIds.includes(accountId)) return group;
+
+  group.memberIds.push(accountId);
+  group.updatedAt = new Date();
+  await saveFriendGroup(group);
+  return group;
+}
+
+export async function leaveFriendGroup(groupId: string, accountId: string): Promise<FriendGroup> {
+  const group = await getFriendGroup(groupId);
+  if (!group.memberIds.includes(accountId)) return group;
+
+  group.memberIds = group.memberIds.filter(id => id !== accountId);
+  group.updatedAt = new Date();
+  await saveFriendGroup(group);
+  return group;
+}
@@ -0,0 +1,39 @@
+import { randomBytes } from 'crypto';
+import { Player } from '../types/game.js';
+import { signPayload, readSignedPayload } from './signing.js';
+
+export interface SessionTokenPayload {
+  roomCode: string;
+  playerId: string;
+  nonce: string;
+}
+
+// Issue a signed token for a player's seat. The nonce is stored on the player so it is
+// persisted with the game state and can be rotated to revoke every token issued so far.
+export function issueSessionToken(roomCode: string, player: Player): string {
+  if (!player.sessionNonce) {
+    player.sessionNonce = randomBytes(16).toString('hex');
+  }
+
+  const payload: SessionTokenPayload = { roomCode, playerId: player.id, nonce: player.sessionNonce };
+  return signPayload(payload);
+}
+
+export function verifySessionToken(token: string): SessionTokenPayload | null {
+  const payload = readSignedPayload(token);
+  if (!payload || typeof payload.roomCode !== 'string' || typeof payload.playerId !== 'string' || typeof payload.nonce !== 'string') {
+    return null;
+  }
+  return payload as unknown as SessionTokenPayload;
+}
+
+// Find the player a token belongs to, rejecting tokens that were revoked
+export function findPlayerForToken(players: Player[], payload: SessionTokenPayload): Player | null {
+  const player = players.find(p => p.id === payload.playerId);
+  if (!player || !player.sessionNonce || player.sessionNonce !== payload.nonce) return null;
+  return player;
+}
+
+export function revokeSessionTokens(player: Player): void {
+  player.sessionNonce = randomBytes(16).toString('hex');
+}
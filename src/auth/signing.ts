@@ -0,0 +1,44 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+let cachedSecret: string | null = null;
+
+function getSecret(): string {
+  if (cachedSecret) return cachedSecret;
+
+  const secret = process.env.SESSION_SECRET;
+  if (secret) {
+    cachedSecret = secret;
+  } else {
+    // Tokens signed with a random secret stop working after a restart
+    console.warn('SESSION_SECRET is not set - session and account tokens will not survive a server restart');
+    cachedSecret = randomBytes(32).toString('hex');
+  }
+  return cachedSecret;
+}
+
+function sign(data: string): string {
+  return createHmac('sha256', getSecret()).update(data).digest('base64url');
+}
+
+// A JSON payload and its signature, readable by the client but not forgeable
+export function signPayload(payload: object): string {
+  const data = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${data}.${sign(data)}`;
+}
+
+// The payload of a token this server signed, or null for anything else
+export function readSignedPayload(token: string): Record<string, unknown> | null {
+  const [data, signature] = token.split('.');
+  if (!data || !signature) return null;
+
+  const expected = Buffer.from(sign(data));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const payload = JSON.parse(Buffer.from(data, 'base64url').toString());
+    return typeof payload === 'object' && payload !== null ? payload : null;
+  } catch {
+    return null;
+  }
+}
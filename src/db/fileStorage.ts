@@ -0,0 +1,194 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import {
+  GameState, ChatMessage, GameEventRecord, Account, MatchRecord, PlayerRating, FriendGroup, Tournament
+} from '../types/game.js';
+import { GameStorage, matchesFilter, pageMatches, pageRatings, listTournaments } from './storage.js';
+
+const DATE_FIELDS = new Set([
+  'createdAt', 'updatedAt', 'timestamp', 'turnDeadline', 'responseDeadline', 'responseStartedAt',
+  'startedAt', 'finishedAt', 'checkInDeadline'
+]);
+
+function reviveDates(key: string, value: unknown): unknown {
+  return DATE_FIELDS.has(key) && typeof value === 'string' ? new Date(value) : value;
+}
+
+// Room codes and game ids end up in file names
+function safeName(name: string): string {
+  return name.replace(/[^A-Za-z0-9_-]/g, '_');
+}
+
+async function readJson<T>(file: string): Promise<T | null> {
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf8'), reviveDates) as T;
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+// Write through a temporary file so a crash never leaves a half-written JSON file behind
+async function writeJson(file: string, value: unknown): Promise<void> {
+  const tmp = `${file}.${randomUUID()}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(value));
+  await fs.rename(tmp, file);
+}
+
+async function readLines<T>(file: string): Promise<T[]> {
+  try {
+    const content = await fs.readFile(file, 'utf8');
+    return content.split('\n').filter(Boolean).map(line => JSON.parse(line, reviveDates) as T);
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return [];
+    throw error;
+  }
+}
+
+async function readAllJson<T>(dir: string): Promise<T[]> {
+  const files = await fs.readdir(dir);
+  const values: (T | null)[] = await Promise.all(files.filter(f => f.endsWith('.json')).map(f => readJson<T>(path.join(dir, f))));
+  return values.filter((v): v is T => v !== null);
+}
+
+// Stores each game, account, finished match, rating, friend group and tournament as a JSON file and chat / event logs as JSON lines under a data directory
+export function createFileStorage(dataDir: string): GameStorage {
+  const gamesDir = path.join(dataDir, 'games');
+  const chatsDir = path.join(dataDir, 'chats');
+  const eventsDir = path.join(dataDir, 'events');
+  const accountsDir = path.join(dataDir, 'accounts');
+  const matchesDir = path.join(dataDir, 'matches');
+  const ratingsDir = path.join(dataDir, 'ratings');
+  const groupsDir = path.join(dataDir, 'groups');
+  const tournamentsDir = path.join(dataDir, 'tournaments');
+
+  const gameFile = (roomCode: string) => path.join(gamesDir, `${safeName(roomCode)}.json`);
+  const chatFile = (roomCode: string) => path.join(chatsDir, `${safeName(roomCode)}.jsonl`);
+  const eventFile = (gameId: string) => path.join(eventsDir, `${safeName(gameId)}.jsonl`);
+  const accountFile = (accountId: string) => path.join(accountsDir, `${safeName(accountId)}.json`);
+  const matchFile = (gameId: string) => path.join(matchesDir, `${safeName(gameId)}.json`);
+  const ratingFile = (accountId: string) => path.join(ratingsDir, `${safeName(accountId)}.json`);
+  const groupFile = (groupId: string) => path.join(groupsDir, `${safeName(groupId)}.json`);
+  const tournamentFile = (tournamentId: string) => path.join(tournamentsDir, `${safeName(tournamentId)}.json`);
+
+  return {
+    name: `file (${dataDir})`,
+
+    async connect() {
+      await Promise.all([gamesDir, chatsDir, eventsDir, accountsDir, matchesDir, ratingsDir, groupsDir, tournamentsDir].map(dir => fs.mkdir(dir, { recursive: true })));
+    },
+
+    async close() {},
+
+    async saveGameState(state) {
+      await writeJson(gameFile(state.roomCode), state);
+    },
+
+    async loadGameState(roomCode) {
+      return readJson<GameState>(gameFile(roomCode));
+    },
+
+    async loadActiveGameStates() {
+      const files = await fs.readdir(gamesDir);
+      const states = await Promise.all(
+        files.filter(f => f.endsWith('.json')).map(f => readJson<GameState>(path.join(gamesDir, f)))
+      );
+      return states.filter((s): s is GameState => s !== null && s.phase === 'playing');
+    },
+
+    async deleteGameState(roomCode) {
+      await fs.rm(gameFile(roomCode), { force: true });
+    },
+
+    async saveChatMessage(roomCode, message) {
+      await fs.appendFile(chatFile(roomCode), JSON.stringify(message) + '\n');
+    },
+
+    async getChatMessages(roomCode, limit = 50) {
+      const messages = await readLines<ChatMessage>(chatFile(roomCode));
+      return messages.slice(-limit);
+    },
+
+    async appendGameEvent(record) {
+      await fs.appendFile(eventFile(record.gameId), JSON.stringify(record) + '\n');
+    },
+
+    async getGameEvents(gameId) {
+      const records = await readLines<GameEventRecord>(eventFile(gameId));
+      return records.sort((a, b) => a.sequence - b.sequence);
+    },
+
+    async countGameEvents(gameId) {
+      return (await readLines<GameEventRecord>(eventFile(gameId))).length;
+    },
+
+    async saveAccount(account) {
+      await writeJson(accountFile(account.id), account);
+    },
+
+    async loadAccount(accountId) {
+      return readJson<Account>(accountFile(accountId));
+    },
+
+    // Scans every account; fine for the small installs this backend is meant for
+    async findAccountByUsername(usernameKey) {
+      const files = await fs.readdir(accountsDir);
+      for (const file of files.filter(f => f.endsWith('.json'))) {
+        const account = await readJson<Account>(path.join(accountsDir, file));
+        if (account?.usernameKey === usernameKey) return account;
+      }
+      return null;
+    },
+
+    async saveMatch(match) {
+      await writeJson(matchFile(match.gameId), match);
+    },
+
+    async loadMatch(gameId) {
+      return readJson<MatchRecord>(matchFile(gameId));
+    },
+
+    async findMatches(filter, page) {
+      const all = await readAllJson<MatchRecord>(matchesDir);
+      return pageMatches(all.filter(m => matchesFilter(m, filter)), page);
+    },
+
+    async saveRating(rating) {
+      await writeJson(ratingFile(rating.accountId), rating);
+    },
+
+    async loadRatings(accountIds) {
+      const ratings = await Promise.all(accountIds.map(id => readJson<PlayerRating>(ratingFile(id))));
+      return ratings.filter((r): r is PlayerRating => r !== null);
+    },
+
+    async findRatings(page, accountIds) {
+      return pageRatings(await readAllJson<PlayerRating>(ratingsDir), page, accountIds);
+    },
+
+    async saveFriendGroup(group) {
+      await writeJson(groupFile(group.id), group);
+    },
+
+    async loadFriendGroup(groupId) {
+      return readJson<FriendGroup>(groupFile(groupId));
+    },
+
+    async findFriendGroups(accountId) {
+      return (await readAllJson<FriendGroup>(groupsDir)).filter(g => g.memberIds.includes(accountId));
+    },
+
+    async saveTournament(tournament) {
+      await writeJson(tournamentFile(tournament.id), tournament);
+    },
+
+    async loadTournament(tournamentId) {
+      return readJson<Tournament>(tournamentFile(tournamentId));
+    },
+
+    async findTournaments(status) {
+      return listTournaments(await readAllJson<Tournament>(tournamentsDir), status);
+    }
+  };
+}
@@ -0,0 +1,141 @@
+import {
+  GameState, ChatMessage, GameEventRecord, Account, MatchRecord, PlayerRating, FriendGroup, Tournament
+} from '../types/game.js';
+import { GameStorage, matchesFilter, pageMatches, pageRatings, listTournaments } from './storage.js';
+
+// Keeps everything in process memory. Values are cloned on the way in and out so callers
+// can't mutate what is "stored", the same as with a real database.
+export function createMemoryStorage(): GameStorage {
+  const games = new Map<string, GameState>();
+  const chats = new Map<string, ChatMessage[]>();
+  const events = new Map<string, GameEventRecord[]>();
+  const accounts = new Map<string, Account>();
+  const matches = new Map<string, MatchRecord>();
+  const ratings = new Map<string, PlayerRating>();
+  const groups = new Map<string, FriendGroup>();
+  const tournaments = new Map<string, Tournament>();
+
+  return {
+    name: 'in-memory',
+
+    async connect() {},
+
+    async close() {
+      games.clear();
+      chats.clear();
+      events.clear();
+      accounts.clear();
+      matches.clear();
+      ratings.clear();
+      groups.clear();
+      tournaments.clear();
+    },
+
+    async saveGameState(state) {
+      games.set(state.roomCode, structuredClone(state));
+    },
+
+    async loadGameState(roomCode) {
+      const state = games.get(roomCode);
+      return state ? structuredClone(state) : null;
+    },
+
+    async loadActiveGameStates() {
+      return [...games.values()].filter(s => s.phase === 'playing').map(s => structuredClone(s));
+    },
+
+    async deleteGameState(roomCode) {
+      games.delete(roomCode);
+    },
+
+    async saveChatMessage(roomCode, message) {
+      const messages = chats.get(roomCode) || [];
+      messages.push(structuredClone(message));
+      chats.set(roomCode, messages);
+    },
+
+    async getChatMessages(roomCode, limit = 50) {
+      return structuredClone((chats.get(roomCode) || []).slice(-limit));
+    },
+
+    async appendGameEvent(record) {
+      const records = events.get(record.gameId) || [];
+      records.push(structuredClone(record));
+      events.set(record.gameId, records);
+    },
+
+    async getGameEvents(gameId) {
+      return structuredClone(events.get(gameId) || []).sort((a, b) => a.sequence - b.sequence);
+    },
+
+    async countGameEvents(gameId) {
+      return (events.get(gameId) || []).length;
+    },
+
+    async saveAccount(account) {
+      accounts.set(account.id, structuredClone(account));
+    },
+
+    async loadAccount(accountId) {
+      const account = accounts.get(accountId);
+      return account ? structuredClone(account) : null;
+    },
+
+    async findAccountByUsername(usernameKey) {
+      const account = [...accounts.values()].find(a => a.usernameKey === usernameKey);
+      return account ? structuredClone(account) : null;
+    },
+
+    async saveMatch(match) {
+      matches.set(match.gameId, structuredClone(match));
+    },
+
+    async loadMatch(gameId) {
+      const match = matches.get(gameId);
+      return match ? structuredClone(match) : null;
+    },
+
+    async findMatches(filter, page) {
+      const found = [...matches.values()].filter(m => matchesFilter(m, filter));
+      return structuredClone(pageMatches(found, page));
+    },
+
+    async saveRating(rating) {
+      ratings.set(rating.accountId, structuredClone(rating));
+    },
+
+    async loadRatings(accountIds) {
+      return structuredClone(accountIds.flatMap(id => ratings.get(id) ?? []));
+    },
+
+    async findRatings(page, accountIds) {
+      return structuredClone(pageRatings([...ratings.values()], page, accountIds));
+    },
+
+    async saveFriendGroup(group) {
+      groups.set(group.id, structuredClone(group));
+    },
+
+    async loadFriendGroup(groupId) {
+      const group = groups.get(groupId);
+      return group ? structuredClone(group) : null;
+    },
+
+    async findFriendGroups(accountId) {
+      return structuredClone([...groups.values()].filter(g => g.memberIds.includes(accountId)));
+    },
+
+    async saveTournament(tournament) {
+      tournaments.set(tournament.id, structuredClone(tournament));
+    },
+
+    async loadTournament(tournamentId) {
+      const tournament = tournaments.get(tournamentId);
+      return tournament ? structuredClone(tournament) : null;
+    },
+
+    async findTournaments(status) {
+      return structuredClone(listTournaments([...tournaments.values()], status));
+    }
+  };
+}
@@ -1,5 +1,9 @@
-import { MongoClient, Db, Collection, ServerApiVersion } from 'mongodb';
-import { GameState, ChatMessage } from '../types/game.js';
+import { MongoClient, Db, Collection, ServerApiVersion, Filter } from 'mongodb';
+import {
+  GameState, ChatMessage, GameEventRecord, Account, MatchRecord, MatchFilter, Page, PlayerRating, FriendGroup,
+  Tournament, TournamentStatus
+} from '../types/game.js';
+import { GameStorage } from './storage.js';
 
 let client: MongoClient | null = null;
 let db: Db | null = null;
@@ -42,6 +46,36 @@ export async function getChatCollection(): Promise<Collection<ChatMessage & { ro
   return database.collection<ChatMessage & { roomCode: string }>('chats');
 }
 
+export async function getEventsCollection(): Promise<Collection<GameEventRecord>> {
+  const database = await connectToDatabase();
+  return database.collection<GameEventRecord>('gameEvents');
+}
+
+export async function getAccountsCollection(): Promise<Collection<Account>> {
+  const database = await connectToDatabase();
+  return database.collection<Account>('accounts');
+}
+
+export async function getMatchesCollection(): Promise<Collection<MatchRecord>> {
+  const database = await connectToDatabase();
+  return database.collection<MatchRecord>('matches');
+}
+
+export async function getRatingsCollection(): Promise<Collection<PlayerRating>> {
+  const database = await connectToDatabase();
+  return database.collection<PlayerRating>('ratings');
+}
+
+export async function getFriendGroupsCollection(): Promise<Collection<FriendGroup>> {
+  const database = await connectToDatabase();
+  return database.collection<FriendGroup>('friendGroups');
+}
+
+export async function getTournamentsCollection(): Promise<Collection<Tournament>> {
+  const database = await connectToDatabase();
+  return database.collection<Tournament>('tournaments');
+}
+
 export async function saveGameState(state: GameState): Promise<void> {
   const collection = await getGamesCollection();
   await collection.updateOne(
@@ -56,6 +90,11 @@ export async function loadGameState(roomCode: string): Promise<GameState | null>
   return collection.findOne({ roomCode });
 }
 
+export async function loadActiveGameStates(): Promise<GameState[]> {
+  const collection = await getGamesCollection();
+  return collection.find({ phase: 'playing' }).toArray();
+}
+
 export async function deleteGameState(roomCode: string): Promise<void> {
   const collection = await getGamesCollection();
   await collection.deleteOne({ roomCode });
@@ -76,6 +115,135 @@ export async function getChatMessages(roomCode: string, limit: number = 50): Pro
   return messages.reverse();
 }
 
+export async function appendGameEvent(record: GameEventRecord): Promise<void> {
+  const collection = await getEventsCollection();
+  await collection.insertOne({ ...record });
+}
+
+export async function getGameEvents(gameId: string): Promise<GameEventRecord[]> {
+  const collection = await getEventsCollection();
+  return collection
+    .find({ gameId }, { projection: { _id: 0 } })
+    .sort({ sequence: 1 })
+    .toArray();
+}
+
+export async function countGameEvents(gameId: string): Promise<number> {
+  const collection = await getEventsCollection();
+  return collection.countDocuments({ gameId });
+}
+
+export async function saveAccount(account: Account): Promise<void> {
+  const collection = await getAccountsCollection();
+  await collection.updateOne({ id: account.id }, { $set: account }, { upsert: true });
+}
+
+export async function loadAccount(accountId: string): Promise<Account | null> {
+  const collection = await getAccountsCollection();
+  return collection.findOne({ id: accountId }, { projection: { _id: 0 } });
+}
+
+export async function findAccountByUsername(usernameKey: string): Promise<Account | null> {
+  const collection = await getAccountsCollection();
+  return collection.findOne({ usernameKey }, { projection: { _id: 0 } });
+}
+
+export async function saveMatch(match: MatchRecord): Promise<void> {
+  const collection = await getMatchesCollection();
+  await collection.updateOne({ gameId: match.gameId }, { $set: match }, { upsert: true });
+}
+
+export async function loadMatch(gameId: string): Promise<MatchRecord | null> {
+  const collection = await getMatchesCollection();
+  return collection.findOne({ gameId }, { projection: { _id: 0 } });
+}
+
+function toMatchQuery(filter: MatchFilter): Filter<MatchRecord> {
+  const query: Filter<MatchRecord> = {};
+  if (filter.since || filter.until) {
+    query.finishedAt = {
+      ...(filter.since ? { $gte: filter.since } : {}),
+      ...(filter.until ? { $lt: filter.until } : {})
+    };
+  }
+  if (filter.rated !== undefined) query.rated = filter.rated;
+  if (filter.accountId) {
+    query.participants = {
+      $elemMatch: {
+        accountId: filter.accountId,
+        ...(filter.result ? { isWinner: filter.result === 'won' } : {})
+      }
+    };
+  }
+  return query;
+}
+
+export async function findMatches(filter: MatchFilter, page?: Page): Promise<{ matches: MatchRecord[]; total: number }> {
+  const collection = await getMatchesCollection();
+  const query = toMatchQuery(filter);
+  let cursor = collection.find(query, { projection: { _id: 0 } }).sort({ finishedAt: -1 });
+  if (page) cursor = cursor.skip(page.offset).limit(page.limit);
+  const [matches, total] = await Promise.all([cursor.toArray(), collection.countDocuments(query)]);
+  return { matches, total };
+}
+
+export async function saveRating(rating: PlayerRating): Promise<void> {
+  const collection = await getRatingsCollection();
+  await collection.updateOne({ accountId: rating.accountId }, { $set: rating }, { upsert: true });
+}
+
+export async function loadRatings(accountIds: string[]): Promise<PlayerRating[]> {
+  const collection = await getRatingsCollection();
+  return collection.find({ accountId: { $in: accountIds } }, { projection: { _id: 0 } }).toArray();
+}
+
+export async function findRatings(page: Page, accountIds?: string[]): Promise<{ ratings: PlayerRating[]; total: number }> {
+  const collection = await getRatingsCollection();
+  const query: Filter<PlayerRating> = accountIds ? { accountId: { $in: accountIds } } : {};
+  const [ratings, total] = await Promise.all([
+    collection.find(query, { projection: { _id: 0 } })
+      .sort({ rating: -1, gamesPlayed: -1 })
+      .skip(page.offset)
+      .limit(page.limit)
+      .toArray(),
+    collection.countDocuments(query)
+  ]);
+  return { ratings, total };
+}
+
+export async function saveFriendGroup(group: FriendGroup): Promise<void> {
+  const collection = await getFriendGroupsCollection();
+  await collection.updateOne({ id: group.id }, { $set: group }, { upsert: true });
+}
+
+export async function loadFriendGroup(groupId: string): Promise<FriendGroup | null> {
+  const collection = await getFriendGroupsCollection();
+  return collection.findOne({ id: groupId }, { projection: { _id: 0 } });
+}
+
+export async function findFriendGroups(accountId: string): Promise<FriendGroup[]> {
+  const collection = await getFriendGroupsCollection();
+  return collection.find({ memberIds: accountId }, { projection: { _id: 0 } }).toArray();
+}
+
+export async function saveTournament(tournament: Tournament): Promise<void> {
+  const collection = await getTournamentsCollection();
+  await collection.updateOne({ id: tournament.id }, { $set: tournament }, { upsert: true });
+}
+
+export async function loadTournament(tournamentId: string): Promise<Tournament | null> {
+  const collection = await getTournamentsCollection();
+  return collection.findOne({ id: tournamentId }, { projection: { _id: 0 } });
+}
+
+export async function findTournaments(status?: TournamentStatus): Promise<Tournament[]> {
+  const collection = await getTournamentsCollection();
+  return collection
+    .find(status ? { status } : {}, { projection: { _id: 0 } })
+    .sort({ createdAt: -1 })
+    .toArray();
+}
+
 export async function closeConnection(): Promise<void> {
   if (client) {
     await client.close();
@@ -83,3 +251,41 @@ export async function closeConnection(): Promise<void> {
     db = null;
   }
 }
+
+export const mongoStorage: GameStorage = {
+  name: 'MongoDB',
+  connect: async () => {
+    await connectToDatabase();
+    // Guests have no username, so only accounts with one must be unique
+    const accounts = await getAccountsCollection();
+    await accounts.createIndex({ usernameKey: 1 }, { unique: true, partialFilterExpression: { usernameKey: { $type: 'string' } } });
+    const ratings = await getRatingsCollection();
+    await ratings.createIndex({ accountId: 1 }, { unique: true });
+    await ratings.createIndex({ rating: -1 });
+  },
+  close: closeConnection,
+  saveGameState,
+  loadGameState,
+  loadActiveGameStates,
+  deleteGameState,
+  saveChatMessage,
+  getChatMessages,
+  appendGameEvent,
+  getGameEvents,
+  countGameEvents,
+  saveAccount,
+  loadAccount,
+  findAccountByUsername,
+  saveMatch,
+  loadMatch,
+  findMatches,
+  saveRating,
+  loadRatings,
+  findRatings,
+  saveFriendGroup,
+  loadFriendGroup,
+  findFriendGroups,
+  saveTournament,
+  loadTournament,
+  findTournaments
+};
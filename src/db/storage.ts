@@ -0,0 +1,229 @@
+import {
+  GameState, ChatMessage, GameEventRecord, Account, MatchRecord, MatchFilter, Page, PlayerRating, FriendGroup,
+  Tournament, TournamentStatus
+} from '../types/game.js';
+
+// Everything the server persists. Backends are chosen with STORAGE_BACKEND.
+export interface GameStorage {
+  name: string;
+  connect(): Promise<void>;
+  close(): Promise<void>;
+  saveGameState(state: GameState): Promise<void>;
+  loadGameState(roomCode: string): Promise<GameState | null>;
+  loadActiveGameStates(): Promise<GameState[]>;
+  deleteGameState(roomCode: string): Promise<void>;
+  saveChatMessage(roomCode: string, message: ChatMessage): Promise<void>;
+  getChatMessages(roomCode: string, limit?: number): Promise<ChatMessage[]>;
+  appendGameEvent(record: GameEventRecord): Promise<void>;
+  getGameEvents(gameId: string): Promise<GameEventRecord[]>;
+  countGameEvents(gameId: string): Promise<number>;
+  saveAccount(account: Account): Promise<void>;
+  loadAccount(accountId: string): Promise<Account | null>;
+  findAccountByUsername(usernameKey: string): Promise<Account | null>;
+  saveMatch(match: MatchRecord): Promise<void>;
+  loadMatch(gameId: string): Promise<MatchRecord | null>;
+  // Newest first. Without a page, every matching record is returned.
+  findMatches(filter: MatchFilter, page?: Page): Promise<{ matches: MatchRecord[]; total: number }>;
+  saveRating(rating: PlayerRating): Promise<void>;
+  // Accounts without a rating yet are left out
+  loadRatings(accountIds: string[]): Promise<PlayerRating[]>;
+  // Highest rating first, optionally only among some accounts
+  findRatings(page: Page, accountIds?: string[]): Promise<{ ratings: PlayerRating[]; total: number }>;
+  saveFriendGroup(group: FriendGroup): Promise<void>;
+  loadFriendGroup(groupId: string): Promise<FriendGroup | null>;
+  findFriendGroups(accountId: string): Promise<FriendGroup[]>;
+  saveTournament(tournament: Tournament): Promise<void>;
+  loadTournament(tournamentId: string): Promise<Tournament | null>;
+  // Newest first
+  findTournaments(status?: TournamentStatus): Promise<Tournament[]>;
+}
+
+export type StorageBackend = 'mongodb' | 'memory' | 'file';
+
+let storage: GameStorage | null = null;
+
+async function createStorage(backend: StorageBackend): Promise<GameStorage> {
+  switch (backend) {
+    case 'mongodb': {
+      const { mongoStorage } = await import('./mongodb.js');
+      return mongoStorage;
+    }
+    case 'memory': {
+      const { createMemoryStorage } = await import('./memoryStorage.js');
+      return createMemoryStorage();
+    }
+    case 'file': {
+      const { createFileStorage } = await import('./fileStorage.js');
+      return createFileStorage(process.env.DATA_DIR || './data');
+    }
+    default:
+      throw new Error(`Unknown STORAGE_BACKEND: ${backend}`);
+  }
+}
+
+// Defaults to MongoDB when MONGODB_URI is set, otherwise keeps everything in memory
+export function getConfiguredBackend(): StorageBackend {
+  const backend = process.env.STORAGE_BACKEND;
+  if (backend) return backend as StorageBackend;
+  return process.env.MONGODB_URI ? 'mongodb' : 'memory';
+}
+
+export async function initStorage(backend: StorageBackend = getConfiguredBackend()): Promise<GameStorage> {
+  if (storage) return storage;
+  const created = await createStorage(backend);
+  await created.connect();
+  storage = created;
+  console.log(`💾 Using ${storage.name} storage`);
+  return storage;
+}
+
+// Swap the active backend, mainly for tests
+export function setStorage(next: GameStorage | null): void {
+  storage = next;
+}
+
+export function getStorage(): GameStorage {
+  if (!storage) throw new Error('Storage has not been initialised');
+  return storage;
+}
+
+export async function closeStorage(): Promise<void> {
+  if (storage) {
+    await storage.close();
+    storage = null;
+  }
+}
+
+export function saveGameState(state: GameState): Promise<void> {
+  return getStorage().saveGameState(state);
+}
+
+export function loadGameState(roomCode: string): Promise<GameState | null> {
+  return getStorage().loadGameState(roomCode);
+}
+
+export function loadActiveGameStates(): Promise<GameState[]> {
+  return getStorage().loadActiveGameStates();
+}
+
+export function deleteGameState(roomCode: string): Promise<void> {
+  return getStorage().deleteGameState(roomCode);
+}
+
+export function saveChatMessage(roomCode: string, message: ChatMessage): Promise<void> {
+  return getStorage().saveChatMessage(roomCode, message);
+}
+
+export function getChatMessages(roomCode: string, limit: number = 50): Promise<ChatMessage[]> {
+  return getStorage().getChatMessages(roomCode, limit);
+}
+
+export function appendGameEvent(record: GameEventRecord): Promise<void> {
+  return getStorage().appendGameEvent(record);
+}
+
+export function getGameEvents(gameId: string): Promise<GameEventRecord[]> {
+  return getStorage().getGameEvents(gameId);
+}
+
+export function countGameEvents(gameId: string): Promise<number> {
+  return getStorage().countGameEvents(gameId);
+}
+
+export function saveAccount(account: Account): Promise<void> {
+  return getStorage().saveAccount(account);
+}
+
+export function loadAccount(accountId: string): Promise<Account | null> {
+  return getStorage().loadAccount(accountId);
+}
+
+export function findAccountByUsername(usernameKey: string): Promise<Account | null> {
+  return getStorage().findAccountByUsername(usernameKey);
+}
+
+export function saveMatch(match: MatchRecord): Promise<void> {
+  return getStorage().saveMatch(match);
+}
+
+export function loadMatch(gameId: string): Promise<MatchRecord | null> {
+  return getStorage().loadMatch(gameId);
+}
+
+export function findMatches(filter: MatchFilter, page?: Page): Promise<{ matches: MatchRecord[]; total: number }> {
+  return getStorage().findMatches(filter, page);
+}
+
+export function saveRating(rating: PlayerRating): Promise<void> {
+  return getStorage().saveRating(rating);
+}
+
+export function loadRatings(accountIds: string[]): Promise<PlayerRating[]> {
+  return getStorage().loadRatings(accountIds);
+}
+
+export function findRatings(page: Page, accountIds?: string[]): Promise<{ ratings: PlayerRating[]; total: number }> {
+  return getStorage().findRatings(page, accountIds);
+}
+
+export function saveFriendGroup(group: FriendGroup): Promise<void> {
+  return getStorage().saveFriendGroup(group);
+}
+
+export function loadFriendGroup(groupId: string): Promise<FriendGroup | null> {
+  return getStorage().loadFriendGroup(groupId);
+}
+
+export function findFriendGroups(accountId: string): Promise<FriendGroup[]> {
+  return getStorage().findFriendGroups(accountId);
+}
+
+export function saveTournament(tournament: Tournament): Promise<void> {
+  return getStorage().saveTournament(tournament);
+}
+
+export function loadTournament(tournamentId: string): Promise<Tournament | null> {
+  return getStorage().loadTournament(tournamentId);
+}
+
+export function findTournaments(status?: TournamentStatus): Promise<Tournament[]> {
+  return getStorage().findTournaments(status);
+}
+
+// Backends without a query language filter match records with this
+export function matchesFilter(match: MatchRecord, filter: MatchFilter): boolean {
+  const finishedAt = new Date(match.finishedAt).getTime();
+  if (filter.since && finishedAt < filter.since.getTime()) return false;
+  if (filter.until && finishedAt >= filter.until.getTime()) return false;
+  if (filter.rated !== undefined && match.rated !== filter.rated) return false;
+  if (filter.accountId) {
+    const participant = match.participants.find(p => p.accountId === filter.accountId);
+    if (!participant) return false;
+    if (filter.result && participant.isWinner !== (filter.result === 'won')) return false;
+  }
+  return true;
+}
+
+// Sort and page records for backends that filter in memory
+export function pageMatches(matches: MatchRecord[], page?: Page): { matches: MatchRecord[]; total: number } {
+  const sorted = [...matches].sort((a, b) => new Date(b.finishedAt).getTime() - new Date(a.finishedAt).getTime());
+  return {
+    matches: page ? sorted.slice(page.offset, page.offset + page.limit) : sorted,
+    total: sorted.length
+  };
+}
+
+// Rank and page ratings for backends that sort in memory; ties go to whoever has played more
+export function pageRatings(ratings: PlayerRating[], page: Page, accountIds?: string[]): { ratings: PlayerRating[]; total: number } {
+  const sorted = ratings
+    .filter(r => !accountIds || accountIds.includes(r.accountId))
+    .sort((a, b) => b.rating - a.rating || b.gamesPlayed - a.gamesPlayed);
+  return { ratings: sorted.slice(page.offset, page.offset + page.limit), total: sorted.length };
+}
+
+// For backends that filter tournaments in memory
+export function listTournaments(tournaments: Tournament[], status?: TournamentStatus): Tournament[] {
+  return tournaments
+    .filter(t => !status || t.status === status)
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+}
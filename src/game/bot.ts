@@ -0,0 +1,258 @@
+import {
+  GameState, Player, Card, PropertyCard, ActionCard,
+  ActionResponse, PendingAction, GameCommand, BotDifficulty
+} from '../types/game.js';
+import { tryGameCommand } from './gameEvents.js';
+import { getPendingResponders, getJustSayNoChain } from './gameLogic.js';
+import { findDealableSet } from './propertySets.js';
+import { suggestPayment } from './payment.js';
+import { getLegalMoves } from './legalMoves.js';
+import { getGameSettings } from './settings.js';
+import { PROPERTY_SET_REQUIREMENTS } from './cards.js';
+
+const WIN_SCORE = 10000;
+// How many of its best plays a lookahead bot checks the follow-ups of
+const LOOKAHEAD_BREADTH = 3;
+
+// Returns the bot that should act next, if any
+export function getNextBotToAct(state: GameState): Player | null {
+  if (state.phase !== 'playing') return null;
+
+  if (state.pendingAction) {
+    const responders = getPendingResponders(state);
+    return state.players.find(p => p.isBot && responders.includes(p.id)) || null;
+  }
+
+  const currentPlayer = state.players[state.currentPlayerIndex];
+  return currentPlayer?.isBot ? currentPlayer : null;
+}
+
+export function chooseBotCommand(state: GameState, botId: string): GameCommand | null {
+  const bot = state.players.find(p => p.id === botId);
+  if (!bot || state.phase !== 'playing') return null;
+
+  if (state.pendingAction) {
+    if (!getPendingResponders(state).includes(botId)) return null;
+    return { type: 'respond', response: chooseResponse(state, bot, state.pendingAction) };
+  }
+
+  const currentPlayer = state.players[state.currentPlayerIndex];
+  if (currentPlayer.id !== botId) return null;
+
+  switch (state.turnPhase) {
+    case 'draw':
+      return { type: 'draw' };
+    case 'discard':
+      return { type: 'discard', cardIds: chooseDiscards(bot, getGameSettings(state).handLimit) };
+    case 'action':
+      return chooseActionCommand(state, bot);
+    case 'finishing':
+      return chooseRearrangement(state, bot) || { type: 'endTurn' };
+    default:
+      return null;
+  }
+}
+
+function chooseActionCommand(state: GameState, bot: Player): GameCommand {
+  const rearrangement = bot.botDifficulty !== 'random' ? chooseRearrangement(state, bot) : null;
+  if (rearrangement) return rearrangement;
+
+  const candidates = getLegalPlays(state, bot.id);
+  if (candidates.length === 0) return { type: 'endTurn' };
+
+  if (bot.botDifficulty === 'random' || !bot.botDifficulty) {
+    return candidates[Math.floor(Math.random() * candidates.length)];
+  }
+
+  const scored: { candidate: GameCommand; next: GameState; score: number }[] = [];
+  for (const candidate of candidates) {
+    const next = simulate(state, bot.id, candidate);
+    if (next) scored.push({ candidate, next, score: evaluateState(next, bot.id) });
+  }
+
+  // Every follow-up means trying every play again, so only the most promising plays are looked past
+  if (bot.botDifficulty === 'lookahead') {
+    [...scored]
+      .sort((a, b) => b.score - a.score)
+      .slice(0, LOOKAHEAD_BREADTH)
+      .filter(({ next }) => !next.pendingAction && next.turnPhase === 'action')
+      .forEach(entry => { entry.score = Math.max(entry.score, bestFollowUpScore(entry.next, bot.id)); });
+  }
+
+  let best: GameCommand | null = null;
+  let bestScore = evaluateState(state, bot.id);
+  for (const { candidate, score } of scored) {
+    if (score > bestScore) {
+      bestScore = score;
+      best = candidate;
+    }
+  }
+
+  return best || { type: 'endTurn' };
+}
+
+function bestFollowUpScore(state: GameState, botId: string): number {
+  let best = evaluateState(state, botId);
+  for (const candidate of getLegalPlays(state, botId)) {
+    const next = simulate(state, botId, candidate);
+    if (next) best = Math.max(best, evaluateState(next, botId));
+  }
+  return best;
+}
+
+// Moves a wildcard only when doing so strictly improves the position, so bots never loop
+function chooseRearrangement(state: GameState, bot: Player): GameCommand | null {
+  const baseline = evaluateState(state, bot.id);
+  let best: GameCommand | null = null;
+  let bestScore = baseline;
+
+  const rearrangements = getLegalMoves(state, bot.id).commands.filter(command => command.type === 'rearrange');
+  for (const command of rearrangements) {
+    const next = simulate(state, bot.id, command);
+    if (!next) continue;
+    const score = evaluateState(next, bot.id);
+    if (score > bestScore) {
+      bestScore = score;
+      best = command;
+    }
+  }
+
+  return best;
+}
+
+function simulate(state: GameState, botId: string, command: GameCommand): GameState | null {
+  return tryGameCommand(state, botId, command);
+}
+
+// Card plays only; bots handle rearranging and ending the turn separately
+function getLegalPlays(state: GameState, botId: string): GameCommand[] {
+  return getLegalMoves(state, botId).commands.filter(command => command.type === 'play');
+}
+
+// Heuristic position score from one player's point of view
+export function evaluateState(state: GameState, playerId: string): number {
+  if (state.winner) return state.winner === playerId ? WIN_SCORE : -WIN_SCORE;
+
+  const player = state.players.find(p => p.id === playerId);
+  if (!player) return 0;
+
+  const opponentScores = state.players
+    .filter(p => p.id !== playerId)
+    .map(p => scorePlayer(p));
+  const strongestOpponent = opponentScores.length > 0 ? Math.max(...opponentScores) : 0;
+
+  return scorePlayer(player) - strongestOpponent * 0.5 + pendingActionValue(state, playerId);
+}
+
+function scorePlayer(player: Player): number {
+  let score = 0;
+  for (const set of player.properties) {
+    const propertyCount = set.cards.filter(c => c.type === 'property').length;
+    const required = PROPERTY_SET_REQUIREMENTS[set.color];
+    score += set.isComplete ? 30 : (propertyCount / required) * 12;
+    if (set.hasHouse) score += 3;
+    if (set.hasHotel) score += 4;
+  }
+  score += player.bank.reduce((sum, c) => sum + c.value, 0);
+  score += player.hand.length * 0.5;
+  return score;
+}
+
+// Expected gain from an action that is still waiting for responses
+function pendingActionValue(state: GameState, playerId: string): number {
+  const pending = state.pendingAction;
+  if (!pending || pending.fromPlayerId !== playerId) return 0;
+
+  const payers = getPendingResponders(state).filter(id => id !== playerId).length;
+  switch (pending.type) {
+    case 'rent':
+    case 'birthday':
+    case 'debtCollector':
+      return (pending.amount || 0) * payers * 0.8;
+    case 'slyDeal':
+      return 6;
+    case 'forcedDeal':
+      return 3;
+    case 'dealBreaker':
+      return 25;
+    default:
+      return 0;
+  }
+}
+
+function chooseResponse(state: GameState, bot: Player, pending: PendingAction): ActionResponse {
+  const hasJustSayNo = bot.hand.some(c => c.type === 'action' && (c as ActionCard).action === 'justSayNo');
+  const currentPlayer = state.players[state.currentPlayerIndex];
+
+  // The bot started this action and is being asked whether to counter a target's Just Say No
+  if (currentPlayer.id === bot.id) {
+    const targetPlayerId = Object.keys(pending.justSayNoChains || {})
+      .find(id => getJustSayNoChain(pending, id).length % 2 === 1 && !pending.respondedPlayers?.includes(id));
+    const counter = hasJustSayNo && shouldSayNo(bot, pending);
+    return { accept: false, useJustSayNo: counter || undefined, targetPlayerId };
+  }
+
+  if (hasJustSayNo && pending.canSayNo && shouldSayNo(bot, pending)) {
+    return { accept: false, useJustSayNo: true };
+  }
+
+  if (pending.amount) {
+    return { accept: true, paymentCardIds: suggestPayment(bot, pending.amount) };
+  }
+
+  if ((pending.type === 'slyDeal' || pending.type === 'forcedDeal') && pending.targetSet) {
+    const targetSet = findDealableSet(bot, pending.targetSet, pending.targetSetId);
+    const cheapest = targetSet?.cards
+      .filter(c => c.type === 'property')
+      .sort((a, b) => a.value - b.value)[0];
+    return { accept: true, selectedCardId: cheapest?.id };
+  }
+
+  return { accept: true };
+}
+
+function shouldSayNo(bot: Player, pending: PendingAction): boolean {
+  if (bot.botDifficulty === 'random' || !bot.botDifficulty) return Math.random() < 0.5;
+
+  switch (pending.type) {
+    case 'dealBreaker':
+    case 'slyDeal':
+      return true;
+    case 'forcedDeal':
+      return bot.properties.some(s => s.color === pending.targetSet && s.cards.length > 1);
+    default:
+      return (pending.amount || 0) >= 4;
+  }
+}
+
+export function chooseDiscards(
+  bot: Player,
+  handLimit: number,
+  difficulty: BotDifficulty = bot.botDifficulty || 'random'
+): string[] {
+  const excess = bot.hand.length - handLimit;
+  if (excess <= 0) return [];
+
+  if (difficulty === 'random') {
+    return [...bot.hand].sort(() => Math.random() - 0.5).slice(0, excess).map(c => c.id);
+  }
+
+  return [...bot.hand]
+    .sort((a, b) => keepValue(bot, a) - keepValue(bot, b))
+    .slice(0, excess)
+    .map(c => c.id);
+}
+
+function keepValue(bot: Player, card: Card): number {
+  if (card.type === 'property') {
+    const prop = card as PropertyCard;
+    const owned = bot.properties.some(s => s.color === prop.color);
+    return 10 + (owned ? 5 : 0) + card.value;
+  }
+  if (card.type === 'action') {
+    const action = (card as ActionCard).action;
+    if (action === 'justSayNo' || action === 'dealBreaker') return 20;
+    if (action === 'slyDeal' || action === 'forcedDeal') return 12;
+  }
+  return card.value;
+}
@@ -0,0 +1,41 @@
+import { ErrorCode, ErrorInfo, ErrorParams } from '../types/game.js';
+
+// Every error a player can cause carries a stable code and the values its message was built
+// from, so clients can show their own wording instead of parsing the English message.
+
+export class GameError extends Error {
+  constructor(readonly code: ErrorCode, message: string, readonly params: ErrorParams = {}) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+// Acting out of turn, in the wrong phase, or while something else must happen first
+export class TurnError extends GameError {}
+
+// A player, card or property set that is not where the request said it would be
+export class NotFoundError extends GameError {}
+
+// A move the cards' rules do not allow
+export class RuleError extends GameError {}
+
+export class PaymentError extends RuleError {}
+
+// Joining, starting and running rooms
+export class RoomError extends GameError {}
+
+export class SettingsError extends GameError {}
+
+// Signing up, logging in and proving who is connected
+export class AccountError extends GameError {}
+
+// Entering and running tournaments
+export class TournamentError extends GameError {}
+
+// What is sent to clients. Anything that is not a GameError is a server bug, so its details stay in the log.
+export function toErrorInfo(error: unknown, fallbackMessage = 'Something went wrong'): ErrorInfo {
+  if (error instanceof GameError) {
+    return { code: error.code, message: error.message, params: error.params };
+  }
+  return { code: 'SERVER_ERROR', message: fallbackMessage, params: {} };
+}
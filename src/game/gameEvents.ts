@@ -0,0 +1,113 @@
+import { GameState, GameCommand, GameEvent, GameEventRecord } from '../types/game.js';
+import {
+  createGameState, addPlayer, addBot, removePlayer, replaceWithBot, startGame,
+  drawCards, playCard, respondToAction, discardCards,
+  endTurnEarly, rearrangeProperty
+} from './gameLogic.js';
+
+export function applyGameCommand(state: GameState, playerId: string, command: GameCommand): void {
+  switch (command.type) {
+    case 'draw':
+      drawCards(state, playerId);
+      break;
+    case 'play':
+      playCard(state, playerId, command.cardId, command.target);
+      break;
+    case 'respond':
+      respondToAction(state, playerId, command.response);
+      break;
+    case 'discard':
+      discardCards(state, playerId, command.cardIds);
+      break;
+    case 'rearrange':
+      rearrangeProperty(state, playerId, command.cardId, command.fromColor, command.toColor, command.toSetId);
+      break;
+    case 'endTurn':
+      endTurnEarly(state, playerId);
+      break;
+  }
+}
+
+// The state a command would lead to, or null when the rules reject it. The state itself is left
+// alone. Cards never change once dealt, so the copy shares them instead of cloning the whole deck.
+export function tryGameCommand(state: GameState, playerId: string, command: GameCommand): GameState | null {
+  const copy: GameState = {
+    ...state,
+    players: state.players.map(player => ({
+      ...player,
+      hand: [...player.hand],
+      bank: [...player.bank],
+      properties: player.properties.map(set => ({ ...set, cards: [...set.cards] }))
+    })),
+    deck: [...state.deck],
+    discardPile: [...state.discardPile],
+    pendingAction: structuredClone(state.pendingAction),
+    stats: structuredClone(state.stats),
+    reshuffleLog: state.reshuffleLog?.map(order => [...order]),
+    replayReshuffles: state.replayReshuffles?.map(order => [...order])
+  };
+  try {
+    applyGameCommand(copy, playerId, command);
+    return copy;
+  } catch {
+    return null;
+  }
+}
+
+// Removes and returns the reshuffles a command caused, for storing with its event
+export function takeReshuffles(state: GameState): string[][] | undefined {
+  const reshuffles = state.reshuffleLog;
+  delete state.reshuffleLog;
+  return reshuffles && reshuffles.length > 0 ? reshuffles : undefined;
+}
+
+export function applyGameEvent(state: GameState, record: GameEventRecord): void {
+  const event: GameEvent = record.event;
+  state.replayReshuffles = record.reshuffles ? record.reshuffles.map(order => [...order]) : undefined;
+
+  switch (event.type) {
+    case 'playerJoined': {
+      const player = event.isBot
+        ? addBot(state, event.name, event.botDifficulty || 'random', event.playerId)
+        : addPlayer(state, event.name, '', event.accountId, event.playerId);
+      player.socketId = undefined;
+      break;
+    }
+    case 'playerLeft':
+      removePlayer(state, event.playerId);
+      break;
+    case 'playerReplacedByBot':
+      replaceWithBot(state, event.playerId, event.botDifficulty);
+      break;
+    case 'gameStarted':
+      if (event.settings) state.settings = { ...event.settings };
+      startGame(state, event.deck, event.startingPlayerId);
+      state.startedAt = new Date(record.timestamp);
+      break;
+    default:
+      applyGameCommand(state, event.playerId, event);
+  }
+
+  delete state.replayReshuffles;
+  delete state.reshuffleLog;
+  if (record.stateVersion !== undefined) state.version = record.stateVersion;
+  state.updatedAt = new Date(record.timestamp);
+}
+
+// Rebuild a game's state by replaying its event log, optionally stopping after a given sequence number
+export function replayGameEvents(records: GameEventRecord[], upToSequence?: number): GameState {
+  if (records.length === 0) throw new Error('No events to replay');
+
+  const first = records[0];
+  const state = createGameState(first.roomCode);
+  state.id = first.gameId;
+  state.createdAt = new Date(first.timestamp);
+
+  const ordered = [...records].sort((a, b) => a.sequence - b.sequence);
+  for (const record of ordered) {
+    if (upToSequence !== undefined && record.sequence > upToSequence) break;
+    applyGameEvent(state, record);
+  }
+
+  return state;
+}
@@ -2,31 +2,84 @@ import { v4 as uuidv4 } from 'uuid';
 import {
   GameState, Player, Card, PropertyCard, ActionCard, RentCard,
   PropertySet, PropertyColor, PendingAction, ActionResponse,
-  PlayCardTarget, TurnPhase
+  PlayCardTarget, TurnPhase, BotDifficulty, PublicGameState, PublicPlayer,
+  PublicPendingAction, GameSettings, JustSayNoPlay
 } from '../types/game.js';
-import { createDeck, shuffleDeck, PROPERTY_SET_REQUIREMENTS, RENT_VALUES } from './cards.js';
-
-export function createGameState(roomCode: string): GameState {
-  return {
+import { createDeck, shuffleDeck, RENT_VALUES } from './cards.js';
+import { RandomSource, IdSource, createSeededRandom, createSeededIds, generateSeed, hashSeed } from './random.js';
+import { DEFAULT_SETTINGS, getGameSettings } from './settings.js';
+import {
+  findPropertySet, findDealableSet, findSetToJoin, choosePropertySet, updatePropertySetCompletion
+} from './propertySets.js';
+import {
+  assertCanBuild, assertCanPlaceProperty, assertCanMoveWildcard, assertCanDoubleRent
+} from './rules.js';
+import { transferPayment, suggestPayment, getPayableValue } from './payment.js';
+import { TurnError, NotFoundError, RuleError, RoomError } from './errors.js';
+import { createPlayerStats, recordCardPlayed, recordPayment, recordJustSayNo } from './stats.js';
+
+export const MAX_PLAYERS = 10;
+const PLAYERS_PER_DECK = 5;
+
+export function createGameState(
+  roomCode: string,
+  seed: string = generateSeed(),
+  settings: GameSettings = DEFAULT_SETTINGS
+): GameState {
+  const state: GameState = {
     id: uuidv4(),
     roomCode,
     players: [],
     currentPlayerIndex: 0,
-    deck: shuffleDeck(createDeck()),
+    deck: [],
     discardPile: [],
     phase: 'waiting',
     turnPhase: 'draw',
-    actionsRemaining: 3,
+    actionsRemaining: settings.actionsPerTurn,
     pendingAction: null,
     winner: null,
+    turnNumber: 0,
+    decksUsed: 1,
+    settings: { ...settings },
+    timer: null,
     createdAt: new Date(),
-    updatedAt: new Date()
+    updatedAt: new Date(),
+    seed,
+    rngState: hashSeed(seed),
+    cardIdCount: 0
   };
+  state.deck = createShuffledDeck(state);
+  return state;
+}
+
+// Random source for a game; games saved before seeding, or with the older 32-bit generator
+// state, fall back to Math.random
+export function getGameRandom(state: GameState): RandomSource {
+  if (!Array.isArray(state.rngState)) return Math.random;
+  return createSeededRandom(state as { rngState: number[] });
+}
+
+// Card ids for a game, reproducible from its seed without giving the shuffle away
+export function getCardIds(state: GameState): IdSource {
+  if (state.seed === undefined) return () => uuidv4();
+  state.cardIdCount ??= 0;
+  return createSeededIds(state.seed, state as { cardIdCount: number });
+}
+
+// Sized for the players currently in the room
+export function createShuffledDeck(state: GameState): Card[] {
+  return shuffleDeck(createDeck(getCardIds(state), getDecksForPlayerCount(state.players.length)), getGameRandom(state));
+}
+
+// The official rules shuffle in a second deck for six or more players
+export function getDecksForPlayerCount(playerCount: number): number {
+  return Math.max(1, Math.ceil(playerCount / PLAYERS_PER_DECK));
 }
 
-export function addPlayer(state: GameState, name: string, socketId: string): Player {
+// Replays and scenarios pass the id the player already has
+export function addPlayer(state: GameState, name: string, socketId: string, accountId?: string, id: string = uuidv4()): Player {
   const player: Player = {
-    id: uuidv4(),
+    id,
     name,
     hand: [],
     properties: [],
@@ -34,6 +87,27 @@ export function addPlayer(state: GameState, name: string, socketId: string): Pla
     isConnected: true,
     socketId
   };
+  if (accountId) player.accountId = accountId;
+  state.players.push(player);
+  if (!state.hostId) state.hostId = player.id;
+  state.updatedAt = new Date();
+  return player;
+}
+
+export function addBot(state: GameState, name: string, difficulty: BotDifficulty, id: string = uuidv4()): Player {
+  if (state.phase !== 'waiting') throw new RoomError('GAME_ALREADY_STARTED', 'Bots can only be added before the game starts');
+  if (state.players.length >= MAX_PLAYERS) throw new RoomError('ROOM_FULL', 'Room is full', { maximum: MAX_PLAYERS });
+
+  const player: Player = {
+    id,
+    name,
+    hand: [],
+    properties: [],
+    bank: [],
+    isConnected: true,
+    isBot: true,
+    botDifficulty: difficulty
+  };
   state.players.push(player);
   state.updatedAt = new Date();
   return player;
@@ -42,6 +116,7 @@ export function addPlayer(state: GameState, name: string, socketId: string): Pla
 export function removePlayer(state: GameState, playerId: string): void {
   const index = state.players.findIndex(p => p.id === playerId);
   if (index !== -1) {
+    if (state.hostId === playerId) reassignHost(state);
     state.players.splice(index, 1);
     if (state.currentPlayerIndex >= state.players.length) {
       state.currentPlayerIndex = 0;
@@ -50,23 +125,87 @@ export function removePlayer(state: GameState, playerId: string): void {
   }
 }
 
-export function startGame(state: GameState): void {
-  if (state.players.length < 2) {
-    throw new Error('Need at least 2 players to start');
+// Games saved before the host was stored were hosted by their first human player
+export function getHost(state: GameState): Player | undefined {
+  return state.players.find(p => p.id === state.hostId) ?? state.players.find(p => !p.isBot);
+}
+
+export function isHost(state: GameState, playerId: string): boolean {
+  return getHost(state)?.id === playerId;
+}
+
+// Pass the host role on to another human, preferring one who is connected
+export function reassignHost(state: GameState): Player | undefined {
+  const currentId = getHost(state)?.id;
+  const candidates = state.players.filter(p => !p.isBot && p.id !== currentId);
+  const next = candidates.find(p => p.isConnected) ?? candidates[0];
+  state.hostId = next?.id;
+  state.updatedAt = new Date();
+  return next;
+}
+
+export function transferHost(state: GameState, playerId: string): Player {
+  const player = state.players.find(p => p.id === playerId);
+  if (!player) throw new NotFoundError('PLAYER_NOT_FOUND', 'Player not found');
+  if (player.isBot) throw new RoomError('INVALID_HOST', 'Only a human player can be the host');
+  state.hostId = player.id;
+  state.updatedAt = new Date();
+  return player;
+}
+
+// A player removed during a game hands their seat to a bot, so the game can go on without them
+export function replaceWithBot(state: GameState, playerId: string, difficulty: BotDifficulty): Player {
+  const player = state.players.find(p => p.id === playerId);
+  if (!player) throw new NotFoundError('PLAYER_NOT_FOUND', 'Player not found');
+  if (state.hostId === playerId) reassignHost(state);
+
+  player.name = `🤖 ${player.name}`;
+  player.isBot = true;
+  player.botDifficulty = difficulty;
+  player.isConnected = true;
+  player.socketId = undefined;
+  state.updatedAt = new Date();
+  return player;
+}
+
+// Checks for starting a game with the given players, which are the room's players unless a rematch leaves some out
+export function assertCanStart(state: GameState, players: Player[] = state.players): void {
+  if (players.length < 2) {
+    throw new RoomError('NOT_ENOUGH_PLAYERS', 'Need at least 2 players to start', { minimum: 2 });
   }
-  if (state.players.length > 5) {
-    throw new Error('Maximum 5 players allowed');
+  if (players.length > MAX_PLAYERS) {
+    throw new RoomError('TOO_MANY_PLAYERS', `Maximum ${MAX_PLAYERS} players allowed`, { maximum: MAX_PLAYERS });
   }
+  if (state.rated && state.seeded) {
+    throw new RoomError('RATED_GAME_INELIGIBLE', 'Rooms with a chosen seed cannot be rated');
+  }
+  // Ratings belong to accounts, and games against bots say nothing about a player's skill
+  if (state.rated && players.some(p => p.isBot || !p.accountId)) {
+    throw new RoomError('RATED_GAME_INELIGIBLE', 'Rated games need every player logged in and no bots');
+  }
+}
 
-  state.deck = shuffleDeck(createDeck());
+// The first seat starts unless another starting player is given
+export function startGame(state: GameState, deck?: Card[], startingPlayerId?: string): void {
+  assertCanStart(state);
+  const startingIndex = startingPlayerId ? state.players.findIndex(p => p.id === startingPlayerId) : 0;
+  if (startingIndex === -1) throw new NotFoundError('PLAYER_NOT_FOUND', 'Player not found');
+
+  state.decksUsed = getDecksForPlayerCount(state.players.length);
+  state.deck = deck ? [...deck] : createShuffledDeck(state);
   state.discardPile = [];
   state.phase = 'playing';
   state.turnPhase = 'draw';
-  state.currentPlayerIndex = 0;
-  state.actionsRemaining = 3;
+  state.currentPlayerIndex = startingIndex;
+  state.startingPlayerId = state.players[startingIndex].id;
+  state.actionsRemaining = getGameSettings(state).actionsPerTurn;
+  state.turnNumber = 1;
+  state.startedAt = new Date();
+  state.stats = {};
 
   // Deal 5 cards to each player
   for (const player of state.players) {
+    state.stats[player.id] = createPlayerStats();
     player.hand = [];
     player.properties = [];
     player.bank = [];
@@ -79,22 +218,105 @@ export function startGame(state: GameState): void {
   state.updatedAt = new Date();
 }
 
+export function voteRematch(state: GameState, playerId: string, optIn: boolean): void {
+  if (state.phase !== 'finished') throw new RoomError('GAME_NOT_FINISHED', 'The game is not over yet');
+  if (!state.players.some(p => p.id === playerId)) throw new NotFoundError('PLAYER_NOT_FOUND', 'Player not found');
+
+  const votes = (state.rematchVotes || []).filter(id => id !== playerId);
+  state.rematchVotes = optIn ? [...votes, playerId] : votes;
+  state.updatedAt = new Date();
+}
+
+// Who plays the rematch: bots always stay, and players who left don't hold up the others
+export function getRematchPlayers(state: GameState): Player[] {
+  return state.players.filter(p => p.isBot || p.isConnected);
+}
+
+export function isRematchAgreed(state: GameState): boolean {
+  const votes = state.rematchVotes || [];
+  const players = getRematchPlayers(state);
+  const humans = players.filter(p => !p.isBot);
+  return players.length >= 2 && humans.length > 0 && humans.every(p => votes.includes(p.id));
+}
+
+// The player who finished furthest from winning: fewest complete sets, then least on the table
+function findLastPlace(players: Player[]): Player | undefined {
+  const completeSets = (player: Player) => player.properties.filter(s => s.isComplete).length;
+  return [...players].sort((a, b) =>
+    completeSets(a) - completeSets(b) || getPayableValue(a) - getPayableValue(b)
+  )[0];
+}
+
+// Read from the finished game, before it is cleared for the rematch
+export function chooseRematchStarter(state: GameState, players: Player[]): string {
+  switch (state.rematchStarter) {
+    case 'rotate': {
+      const previous = state.players.findIndex(p => p.id === state.startingPlayerId);
+      for (let i = 1; i <= state.players.length; i++) {
+        const next = state.players[(previous + i) % state.players.length];
+        if (players.includes(next)) return next.id;
+      }
+      break;
+    }
+    case 'loser': {
+      const loser = findLastPlace(players.filter(p => p.id !== state.winner));
+      if (loser) return loser.id;
+      break;
+    }
+  }
+  return players[0].id;
+}
+
+// Clear a finished game so the room can play again under a new game id. Only the given players keep
+// their seats; the room's settings, host and flags stay as they are.
+export function resetForRematch(state: GameState, players: Player[]): void {
+  if (state.phase !== 'finished') throw new RoomError('GAME_NOT_FINISHED', 'The game is not over yet');
+
+  for (const player of state.players.filter(p => !players.includes(p))) {
+    removePlayer(state, player.id);
+  }
+  state.id = uuidv4();
+  state.phase = 'waiting';
+  state.turnPhase = 'draw';
+  state.currentPlayerIndex = 0;
+  state.deck = [];
+  state.discardPile = [];
+  state.pendingAction = null;
+  state.winner = null;
+  state.turnNumber = 0;
+  state.timer = null;
+  delete state.startedAt;
+  delete state.stats;
+  delete state.rematchVotes;
+  // A replay of the new game starts from a fresh state, so set ids and reshuffles start over too
+  delete state.propertySetCount;
+  delete state.reshuffleLog;
+  delete state.replayReshuffles;
+
+  for (const player of state.players) {
+    player.hand = [];
+    player.bank = [];
+    player.properties = [];
+    // A bot that took over a player's seat starts the new game as a plain bot
+    if (player.isBot) delete player.accountId;
+  }
+  state.updatedAt = new Date();
+}
+
 export function drawCards(state: GameState, playerId: string): Card[] {
   const player = state.players.find(p => p.id === playerId);
-  if (!player) throw new Error('Player not found');
+  if (!player) throw new NotFoundError('PLAYER_NOT_FOUND', 'Player not found');
   
   const currentPlayer = state.players[state.currentPlayerIndex];
-  if (currentPlayer.id !== playerId) throw new Error('Not your turn');
-  if (state.turnPhase !== 'draw') throw new Error('Cannot draw cards now');
+  if (currentPlayer.id !== playerId) throw new TurnError('NOT_YOUR_TURN', 'Not your turn');
+  if (state.turnPhase !== 'draw') throw new TurnError('WRONG_PHASE', 'Cannot draw cards now', { phase: state.turnPhase });
 
   const drawnCards: Card[] = [];
-  const cardsToDraw = player.hand.length === 0 ? 5 : 2;
+  const cardsToDraw = player.hand.length === 0 ? 5 : getGameSettings(state).cardsPerDraw;
 
   for (let i = 0; i < cardsToDraw; i++) {
     if (state.deck.length === 0) {
-      // Reshuffle discard pile
-      state.deck = shuffleDeck([...state.discardPile]);
-      state.discardPile = [];
+      reshuffleDiscardPile(state);
     }
     const card = state.deck.pop();
     if (card) {
@@ -108,6 +330,21 @@ export function drawCards(state: GameState, playerId: string): Card[] {
   return drawnCards;
 }
 
+// Turn the discard pile into a new deck. The resulting order is logged so the event log can
+// replay it, and replays reuse the logged order instead of shuffling again.
+function reshuffleDiscardPile(state: GameState): void {
+  const replayOrder = state.replayReshuffles?.shift();
+  if (replayOrder) {
+    state.deck = replayOrder
+      .map(id => state.discardPile.find(c => c.id === id))
+      .filter((c): c is Card => c !== undefined);
+  } else {
+    state.deck = shuffleDeck([...state.discardPile], getGameRandom(state));
+  }
+  state.discardPile = [];
+  state.reshuffleLog = [...(state.reshuffleLog || []), state.deck.map(c => c.id)];
+}
+
 export function playCard(
   state: GameState, 
   playerId: string, 
@@ -115,29 +352,36 @@ export function playCard(
   target?: PlayCardTarget
 ): void {
   const player = state.players.find(p => p.id === playerId);
-  if (!player) throw new Error('Player not found');
+  if (!player) throw new NotFoundError('PLAYER_NOT_FOUND', 'Player not found');
   
   const currentPlayer = state.players[state.currentPlayerIndex];
-  if (currentPlayer.id !== playerId) throw new Error('Not your turn');
-  if (state.turnPhase !== 'action') throw new Error('Cannot play cards now');
-  if (state.actionsRemaining <= 0) throw new Error('No actions remaining');
+  if (currentPlayer.id !== playerId) throw new TurnError('NOT_YOUR_TURN', 'Not your turn');
+  if (state.turnPhase !== 'action') throw new TurnError('WRONG_PHASE', 'Cannot play cards now', { phase: state.turnPhase });
+  if (state.actionsRemaining <= 0) throw new TurnError('NO_ACTIONS_REMAINING', 'No actions remaining');
 
   const cardIndex = player.hand.findIndex(c => c.id === cardId);
-  if (cardIndex === -1) throw new Error('Card not in hand');
+  if (cardIndex === -1) throw new NotFoundError('CARD_NOT_IN_HAND', 'Card not in hand');
 
   const card = player.hand[cardIndex];
   player.hand.splice(cardIndex, 1);
 
   // Handle different card types
-  if (target?.asBank || card.type === 'money') {
-    player.bank.push(card);
-  } else if (card.type === 'property') {
-    playPropertyCard(state, player, card as PropertyCard, target?.propertySetColor);
-  } else if (card.type === 'action') {
-    playActionCard(state, player, card as ActionCard, target);
-  } else if (card.type === 'rent') {
-    playRentCard(state, player, card as RentCard, target);
+  try {
+    if (target?.asBank || card.type === 'money') {
+      player.bank.push(card);
+    } else if (card.type === 'property') {
+      playPropertyCard(state, player, card as PropertyCard, target?.propertySetColor, target?.propertySetId, true);
+    } else if (card.type === 'action') {
+      playActionCard(state, player, card as ActionCard, target);
+    } else if (card.type === 'rent') {
+      playRentCard(state, player, card as RentCard, target);
+    }
+  } catch (error) {
+    // Invalid plays leave the card in the player's hand
+    player.hand.splice(cardIndex, 0, card);
+    throw error;
   }
+  recordCardPlayed(state, player.id, card, target?.asBank);
 
   state.actionsRemaining--;
   
@@ -146,7 +390,7 @@ export function playCard(
   
   // Check if turn should end - go to finishing phase to allow rearranging
   if (state.actionsRemaining <= 0 && !state.pendingAction) {
-    if (player.hand.length > 7) {
+    if (player.hand.length > getGameSettings(state).handLimit) {
       state.turnPhase = 'discard';
     } else {
       state.turnPhase = 'finishing'; // Allow player to rearrange before ending
@@ -160,28 +404,20 @@ function playPropertyCard(
   state: GameState, 
   player: Player, 
   card: PropertyCard, 
-  targetColor?: PropertyColor
+  targetColor?: PropertyColor,
+  targetSetId?: string,
+  fromHand = false
 ): void {
-  const color = targetColor || card.color;
+  const color = targetColor || findPropertySet(player, undefined, targetSetId)?.color || card.color;
   
   // Validate wildcard placement
   if (card.isWildcard && card.wildcardColors && !card.wildcardColors.includes(color)) {
-    throw new Error('Invalid color for wildcard');
-  }
-
-  let propertySet = player.properties.find(s => s.color === color);
-  
-  if (!propertySet) {
-    propertySet = {
-      color,
-      cards: [],
-      hasHouse: false,
-      hasHotel: false,
-      isComplete: false
-    };
-    player.properties.push(propertySet);
+    throw new RuleError('INVALID_WILDCARD_COLOR', 'Invalid color for wildcard', { color });
   }
+  // Cards taken in a deal or payment may arrive alone; only a play from hand is restricted
+  if (fromHand) assertCanPlaceProperty(card, findSetToJoin(player, color, targetSetId));
 
+  const propertySet = choosePropertySet(state, player, color, targetSetId);
   propertySet.cards.push(card);
   updatePropertySetCompletion(propertySet);
 }
@@ -197,8 +433,7 @@ function playActionCard(
       // Draw 2 cards
       for (let i = 0; i < 2; i++) {
         if (state.deck.length === 0) {
-          state.deck = shuffleDeck([...state.discardPile]);
-          state.discardPile = [];
+          reshuffleDiscardPile(state);
         }
         const drawnCard = state.deck.pop();
         if (drawnCard) player.hand.push(drawnCard);
@@ -211,30 +446,32 @@ function playActionCard(
       state.pendingAction = {
         type: 'birthday',
         fromPlayerId: player.id,
-        amount: 2,
+        amount: getGameSettings(state).birthdayAmount,
         card,
         canSayNo: true,
         respondedPlayers: [] // Track who has responded
       };
       state.turnPhase = 'responding';
+      state.discardPile.push(card);
       break;
 
     case 'debtCollector':
-      if (!target?.playerId) throw new Error('Must select a player');
+      if (!target?.playerId) throw new RuleError('TARGET_REQUIRED', 'Must select a player', { needs: 'player' });
       state.pendingAction = {
         type: 'debtCollector',
         fromPlayerId: player.id,
         toPlayerId: target.playerId,
-        amount: 5,
+        amount: getGameSettings(state).debtCollectorAmount,
         card,
         canSayNo: true
       };
       state.turnPhase = 'responding';
+      state.discardPile.push(card);
       break;
 
     case 'slyDeal':
       if (!target?.playerId || !target?.propertySetColor) {
-        throw new Error('Must select a player and property set');
+        throw new RuleError('TARGET_REQUIRED', 'Must select a player and property set', { needs: 'player,propertySet' });
       }
       // Target player will choose which card to give
       state.pendingAction = {
@@ -242,15 +479,19 @@ function playActionCard(
         fromPlayerId: player.id,
         toPlayerId: target.playerId,
         targetSet: target.propertySetColor,
+        targetSetId: target.propertySetId,
         card,
         canSayNo: true
       };
       state.turnPhase = 'responding';
+      state.discardPile.push(card);
       break;
 
     case 'forcedDeal':
       if (!target?.playerId || !target?.propertySetColor || !target?.giveCardId || !target?.giveFromSet) {
-        throw new Error('Must select a player, their property set, and your property to exchange');
+        throw new RuleError('TARGET_REQUIRED', 'Must select a player, their property set, and your property to exchange', {
+          needs: 'player,propertySet,giveCard'
+        });
       }
       // Target player will choose which card from their set to give
       state.pendingAction = {
@@ -258,64 +499,70 @@ function playActionCard(
         fromPlayerId: player.id,
         toPlayerId: target.playerId,
         targetSet: target.propertySetColor,
+        targetSetId: target.propertySetId,
         giveCardId: target.giveCardId,
         giveFromSet: target.giveFromSet,
+        giveFromSetId: target.giveFromSetId,
         card,
         canSayNo: true
       };
       state.turnPhase = 'responding';
+      state.discardPile.push(card);
       break;
 
     case 'dealBreaker':
       if (!target?.playerId || !target?.propertySetColor) {
-        throw new Error('Must select a player and complete set');
+        throw new RuleError('TARGET_REQUIRED', 'Must select a player and complete set', { needs: 'player,propertySet' });
       }
       const targetPlayer = state.players.find(p => p.id === target.playerId);
-      const targetSet = targetPlayer?.properties.find(s => s.color === target.propertySetColor);
+      const targetSet = target.propertySetId
+        ? targetPlayer && findPropertySet(targetPlayer, target.propertySetColor, target.propertySetId)
+        : targetPlayer?.properties.find(s => s.color === target.propertySetColor && s.isComplete);
       if (!targetSet?.isComplete) {
-        throw new Error('Can only steal complete sets');
+        throw new RuleError('SET_NOT_COMPLETE', 'Can only steal complete sets');
       }
       state.pendingAction = {
         type: 'dealBreaker',
         fromPlayerId: player.id,
         toPlayerId: target.playerId,
         targetSet: target.propertySetColor,
+        targetSetId: targetSet.id,
         card,
         canSayNo: true
       };
       state.turnPhase = 'responding';
+      state.discardPile.push(card);
       break;
 
     case 'house':
-      if (!target?.propertySetColor) throw new Error('Must select a property set');
-      const houseSet = player.properties.find(s => s.color === target.propertySetColor);
-      if (!houseSet?.isComplete) throw new Error('Set must be complete');
-      if (houseSet.hasHouse) throw new Error('Set already has a house');
+      if (!target?.propertySetColor) throw new RuleError('TARGET_REQUIRED', 'Must select a property set', { needs: 'propertySet' });
+      const houseSet = target.propertySetId
+        ? findPropertySet(player, target.propertySetColor, target.propertySetId)
+        : player.properties.find(s => s.color === target.propertySetColor && s.isComplete && !s.hasHouse)
+          || findPropertySet(player, target.propertySetColor);
+      assertCanBuild(houseSet, 'house');
       houseSet.hasHouse = true;
       houseSet.cards.push(card);
       break;
 
     case 'hotel':
-      if (!target?.propertySetColor) throw new Error('Must select a property set');
-      const hotelSet = player.properties.find(s => s.color === target.propertySetColor);
-      if (!hotelSet?.isComplete) throw new Error('Set must be complete');
-      if (!hotelSet.hasHouse) throw new Error('Must have a house first');
-      if (hotelSet.hasHotel) throw new Error('Set already has a hotel');
+      if (!target?.propertySetColor) throw new RuleError('TARGET_REQUIRED', 'Must select a property set', { needs: 'propertySet' });
+      const hotelSet = target.propertySetId
+        ? findPropertySet(player, target.propertySetColor, target.propertySetId)
+        : player.properties.find(s => s.color === target.propertySetColor && s.isComplete && s.hasHouse && !s.hasHotel)
+          || findPropertySet(player, target.propertySetColor);
+      assertCanBuild(hotelSet, 'hotel');
       hotelSet.hasHotel = true;
       hotelSet.cards.push(card);
       break;
 
     case 'doubleRent':
       // This should be played with a rent card - store for next rent
-      player.hand.push(card); // Put back in hand
-      state.actionsRemaining++; // Refund action
-      throw new Error('Double Rent must be played with a Rent card');
+      throw new RuleError('NEEDS_RENT_CARD', 'Double Rent must be played with a Rent card');
 
     case 'justSayNo':
       // Can only be played in response
-      player.hand.push(card);
-      state.actionsRemaining++;
-      throw new Error('Just Say No can only be played in response');
+      throw new RuleError('RESPONSE_ONLY', 'Just Say No can only be played in response');
   }
 }
 
@@ -325,24 +572,29 @@ function playRentCard(
   card: RentCard, 
   target?: PlayCardTarget
 ): void {
-  // Find a matching property set - use specified color if provided
+  // Find a matching property set - use the specified set or color if provided, and charge for
+  // the highest-rent set when several match
   const targetColor = target?.propertySetColor;
-  const matchingSet = targetColor 
-    ? player.properties.find(s => s.color === targetColor && card.colors.includes(s.color))
-    : player.properties.find(s => card.colors.includes(s.color));
+  const matchingSet = player.properties
+    .filter(s => card.colors.includes(s.color))
+    .filter(s => target?.propertySetId ? s.id === target.propertySetId : !targetColor || s.color === targetColor)
+    .reduce<PropertySet | undefined>((best, s) => !best || calculateRent(s) > calculateRent(best) ? s : best, undefined);
   
   if (!matchingSet) {
-    throw new Error('You need a matching property to charge rent');
+    throw new RuleError('NO_MATCHING_PROPERTY', 'You need a matching property to charge rent');
   }
+  if (card.isWildRent && !target?.playerId) throw new RuleError('TARGET_REQUIRED', 'Must select a player for wild rent', { needs: 'player' });
 
   let rentAmount = calculateRent(matchingSet);
   
-  // Apply double rent if specified
-  if (target?.useDoubleRent) {
-    const doubleRentIndex = player.hand.findIndex(
-      c => c.type === 'action' && (c as ActionCard).action === 'doubleRent'
-    );
-    if (doubleRentIndex !== -1) {
+  // Apply double rent if specified; each Double The Rent card doubles again
+  const doubleRentCount = target?.useDoubleRent ? target.doubleRentCount ?? 1 : 0;
+  if (doubleRentCount > 0) {
+    assertCanDoubleRent(player, doubleRentCount, state.actionsRemaining);
+    for (let i = 0; i < doubleRentCount; i++) {
+      const doubleRentIndex = player.hand.findIndex(
+        c => c.type === 'action' && (c as ActionCard).action === 'doubleRent'
+      );
       const doubleRentCard = player.hand.splice(doubleRentIndex, 1)[0];
       state.discardPile.push(doubleRentCard);
       rentAmount *= 2;
@@ -353,11 +605,10 @@ function playRentCard(
 
   if (card.isWildRent) {
     // Wild rent targets one player
-    if (!target?.playerId) throw new Error('Must select a player for wild rent');
     state.pendingAction = {
       type: 'rent',
       fromPlayerId: player.id,
-      toPlayerId: target.playerId,
+      toPlayerId: target!.playerId,
       amount: rentAmount,
       card,
       canSayNo: true,
@@ -399,93 +650,39 @@ export function respondToAction(
   playerId: string, 
   response: ActionResponse
 ): void {
-  if (!state.pendingAction) throw new Error('No pending action');
+  if (!state.pendingAction) throw new TurnError('NO_PENDING_ACTION', 'No pending action');
   
   const player = state.players.find(p => p.id === playerId);
-  if (!player) throw new Error('Player not found');
+  if (!player) throw new NotFoundError('PLAYER_NOT_FOUND', 'Player not found');
 
   const fromPlayer = state.players.find(p => p.id === state.pendingAction!.fromPlayerId);
-  if (!fromPlayer) throw new Error('Action initiator not found');
+  if (!fromPlayer) throw new NotFoundError('PLAYER_NOT_FOUND', 'Action initiator not found');
 
   // Check if this is a multi-player action (birthday or rent without specific target)
   const isMultiPlayerAction = state.pendingAction.respondedPlayers !== undefined;
   
   // Check if player already responded
   if (isMultiPlayerAction && state.pendingAction.respondedPlayers!.includes(playerId)) {
-    throw new Error('You have already responded to this action');
+    throw new TurnError('ALREADY_RESPONDED', 'You have already responded to this action');
+  }
+  if (!getPendingResponders(state).includes(playerId)) {
+    throw new TurnError('NOT_WAITING_FOR_RESPONSE', 'Not waiting for your response');
+  }
+
+  // The initiator answers a Just Say No played by one of the targets
+  if (playerId === fromPlayer.id) {
+    answerJustSayNo(state, fromPlayer, response);
+    state.updatedAt = new Date();
+    return;
   }
 
   // Handle Just Say No
   if (response.useJustSayNo) {
-    const justSayNoIndex = player.hand.findIndex(
-      c => c.type === 'action' && (c as ActionCard).action === 'justSayNo'
-    );
-    if (justSayNoIndex === -1) throw new Error('No Just Say No card');
-    
-    const justSayNo = player.hand.splice(justSayNoIndex, 1)[0];
-    state.discardPile.push(justSayNo);
-    
-    // For multi-player actions, Just Say No only cancels for this player
-    if (isMultiPlayerAction) {
-      state.pendingAction.respondedPlayers!.push(playerId);
-      
-      // Check if all other players have responded
-      const otherPlayers = state.players.filter(p => p.id !== state.pendingAction!.fromPlayerId);
-      const allResponded = otherPlayers.every(p => state.pendingAction!.respondedPlayers!.includes(p.id));
-      
-      if (allResponded) {
-        state.pendingAction = null;
-        
-        const currentPlayer = state.players[state.currentPlayerIndex];
-        if (state.actionsRemaining <= 0) {
-          if (currentPlayer.hand.length > 7) {
-            state.turnPhase = 'discard';
-          } else {
-            state.turnPhase = 'finishing'; // Allow rearranging before ending turn
-          }
-        } else {
-          state.turnPhase = 'action';
-        }
-      }
-      state.updatedAt = new Date();
-      return;
-    }
-    
-    // For single-target actions, check if initiator wants to counter
-    // Store original action details before potentially modifying
-    const originalFromPlayerId = state.pendingAction.fromPlayerId;
-    const originalToPlayerId = state.pendingAction.toPlayerId;
-    
-    const initiatorJustSayNo = fromPlayer.hand.find(
-      c => c.type === 'action' && (c as ActionCard).action === 'justSayNo'
-    );
-    
-    if (initiatorJustSayNo) {
-      // Ask initiator if they want to counter - create a counter-action state
-      // The pending action stays the same but we track that it's in counter mode
-      state.pendingAction = {
-        ...state.pendingAction,
-        // Swap who needs to respond - initiator now needs to decide to counter or not
-        fromPlayerId: playerId, // The person who just played Just Say No
-        toPlayerId: originalFromPlayerId, // The original initiator who can counter
-        canSayNo: true
-      };
-      state.updatedAt = new Date();
-      return;
-    }
-    
-    // Action cancelled - no counter available
-    state.pendingAction = null;
-    
-    const currentPlayer = state.players[state.currentPlayerIndex];
-    if (state.actionsRemaining <= 0) {
-      if (currentPlayer.hand.length > 7) {
-        state.turnPhase = 'discard';
-      } else {
-        state.turnPhase = 'finishing'; // Allow rearranging before ending turn
-      }
-    } else {
-      state.turnPhase = 'action';
+    playJustSayNo(state, player, playerId);
+
+    // The initiator is only asked to counter when they hold a Just Say No of their own
+    if (!hasJustSayNo(fromPlayer)) {
+      finishResponse(state, playerId);
     }
     state.updatedAt = new Date();
     return;
@@ -493,55 +690,8 @@ export function respondToAction(
 
   // Handle payment
   if (response.accept && state.pendingAction.amount) {
-    const requiredAmount = state.pendingAction.amount;
-    
-    // Calculate total assets the player has
-    const totalBankValue = player.bank.reduce((sum, c) => sum + c.value, 0);
-    const totalPropertyValue = player.properties.flatMap(s => s.cards).reduce((sum, c) => sum + c.value, 0);
-    const totalAssets = totalBankValue + totalPropertyValue;
-    
-    // Calculate what they're trying to pay
-    const paymentCardIds = response.paymentCardIds || [];
-    const paymentValue = paymentCardIds.reduce((sum, cardId) => {
-      const bankCard = player.bank.find(c => c.id === cardId);
-      const propCard = player.properties.flatMap(s => s.cards).find(c => c.id === cardId);
-      return sum + (bankCard?.value || propCard?.value || 0);
-    }, 0);
-    
-    // Validate payment - must pay at least the required amount OR all assets if they have less
-    if (totalAssets > 0) {
-      const minimumPayment = Math.min(requiredAmount, totalAssets);
-      if (paymentValue < minimumPayment) {
-        throw new Error(`You must pay at least $${minimumPayment}M (you selected $${paymentValue}M)`);
-      }
-    }
-
-    // Remove cards from player and give to initiator
-    for (const cardId of paymentCardIds) {
-      const bankIndex = player.bank.findIndex(c => c.id === cardId);
-      if (bankIndex !== -1) {
-        const card = player.bank.splice(bankIndex, 1)[0];
-        fromPlayer.bank.push(card);
-      } else {
-        // Remove from properties
-        for (const set of player.properties) {
-          const propIndex = set.cards.findIndex(c => c.id === cardId);
-          if (propIndex !== -1) {
-            const card = set.cards.splice(propIndex, 1)[0];
-            if (card.type === 'property') {
-              playPropertyCard(state, fromPlayer, card as PropertyCard);
-            } else {
-              fromPlayer.bank.push(card);
-            }
-            updatePropertySetCompletion(set);
-            break;
-          }
-        }
-      }
-    }
-
-    // Clean up empty property sets
-    player.properties = player.properties.filter(s => s.cards.length > 0);
+    const paid = transferPayment(state, player, fromPlayer, response.paymentCardIds || [], state.pendingAction.amount);
+    recordPayment(state, state.pendingAction, player.id, fromPlayer.id, paid);
   }
 
   // Handle specific action completions (only for single-target actions)
@@ -549,38 +699,102 @@ export function respondToAction(
     switch (state.pendingAction.type) {
       case 'slyDeal':
         // Target player chose which card to give via response.selectedCardId
-        executeSlyDeal(state, fromPlayer, player, state.pendingAction.targetSet!, response.selectedCardId);
+        executeSlyDeal(state, fromPlayer, player, state.pendingAction, response.selectedCardId);
         break;
       case 'forcedDeal':
         // Target player chose which card to give via response.selectedCardId
-        executeForcedDeal(state, fromPlayer, player, state.pendingAction.targetSet!, response.selectedCardId, state.pendingAction.giveCardId, state.pendingAction.giveFromSet);
+        executeForcedDeal(state, fromPlayer, player, state.pendingAction, response.selectedCardId);
         break;
       case 'dealBreaker':
-        executeDealBreaker(state, fromPlayer, player, state.pendingAction.targetSet!);
+        executeDealBreaker(state, fromPlayer, player, state.pendingAction);
         break;
     }
   }
 
-  // For multi-player actions, track response and check if all have responded
-  if (isMultiPlayerAction) {
-    state.pendingAction.respondedPlayers!.push(playerId);
-    
+  // Properties received as payment or in a deal can complete the initiator's third set
+  checkWinner(state);
+
+  finishResponse(state, playerId);
+  state.updatedAt = new Date();
+}
+
+function hasJustSayNo(player: Player): boolean {
+  return player.hand.some(c => c.type === 'action' && (c as ActionCard).action === 'justSayNo');
+}
+
+// Just Say No cards played over one target's part of the action, oldest first. Targets answer
+// at even lengths and the initiator at odd ones, so the last card played decides the outcome.
+export function getJustSayNoChain(action: PendingAction, targetId: string): JustSayNoPlay[] {
+  return action.justSayNoChains?.[targetId] || [];
+}
+
+// Players who still owe a response to the pending action. That includes the initiator while
+// a target's Just Say No is waiting to be countered.
+export function getPendingResponders(state: GameState): string[] {
+  const pending = state.pendingAction;
+  if (!pending) return [];
+
+  const targets = pending.respondedPlayers !== undefined
+    ? state.players
+      .filter(p => p.id !== pending.fromPlayerId && !pending.respondedPlayers!.includes(p.id))
+      .map(p => p.id)
+    : pending.toPlayerId ? [pending.toPlayerId] : [];
+
+  const responders = targets.filter(id => getJustSayNoChain(pending, id).length % 2 === 0);
+  return responders.length < targets.length ? [...responders, pending.fromPlayerId] : responders;
+}
+
+function playJustSayNo(state: GameState, player: Player, targetId: string): void {
+  const pending = state.pendingAction!;
+  if (!pending.canSayNo) throw new RuleError('CANNOT_REFUSE', 'This action cannot be refused');
+
+  const justSayNoIndex = player.hand.findIndex(
+    c => c.type === 'action' && (c as ActionCard).action === 'justSayNo'
+  );
+  if (justSayNoIndex === -1) throw new RuleError('NO_JUST_SAY_NO', 'No Just Say No card');
+
+  const justSayNo = player.hand.splice(justSayNoIndex, 1)[0];
+  state.discardPile.push(justSayNo);
+  recordJustSayNo(state, player.id);
+
+  pending.justSayNoChains = {
+    ...pending.justSayNoChains,
+    [targetId]: [...getJustSayNoChain(pending, targetId), { playerId: player.id, cardId: justSayNo.id }]
+  };
+}
+
+// The initiator either counters a target's Just Say No, handing the decision back to that
+// target, or passes and lets it stand, which cancels the action for that target
+function answerJustSayNo(state: GameState, initiator: Player, response: ActionResponse): void {
+  const pending = state.pendingAction!;
+  const awaiting = Object.keys(pending.justSayNoChains || {}).filter(id =>
+    getJustSayNoChain(pending, id).length % 2 === 1 && !pending.respondedPlayers?.includes(id));
+  const targetId = response.targetPlayerId || awaiting[0];
+  if (!targetId || !awaiting.includes(targetId)) throw new TurnError('NOTHING_TO_ANSWER', 'No Just Say No to answer');
+
+  if (response.useJustSayNo) {
+    playJustSayNo(state, initiator, targetId);
+  } else {
+    finishResponse(state, targetId);
+  }
+}
+
+// Record that a target is done with the action, and resume the turn once nobody is left
+function finishResponse(state: GameState, playerId: string): void {
+  const pending = state.pendingAction!;
+  if (pending.respondedPlayers !== undefined) {
+    pending.respondedPlayers.push(playerId);
+
     // Check if all other players have responded
-    const otherPlayers = state.players.filter(p => p.id !== state.pendingAction!.fromPlayerId);
-    const allResponded = otherPlayers.every(p => state.pendingAction!.respondedPlayers!.includes(p.id));
-    
-    if (!allResponded) {
-      // Still waiting for more responses
-      state.updatedAt = new Date();
-      return;
-    }
+    const otherPlayers = state.players.filter(p => p.id !== pending.fromPlayerId);
+    if (!otherPlayers.every(p => pending.respondedPlayers!.includes(p.id))) return;
   }
 
   state.pendingAction = null;
   
   const currentPlayer = state.players[state.currentPlayerIndex];
   if (state.actionsRemaining <= 0) {
-    if (currentPlayer.hand.length > 7) {
+    if (currentPlayer.hand.length > getGameSettings(state).handLimit) {
       state.turnPhase = 'discard';
     } else {
       state.turnPhase = 'finishing'; // Allow rearranging before ending turn
@@ -588,18 +802,17 @@ export function respondToAction(
   } else {
     state.turnPhase = 'action';
   }
-
-  state.updatedAt = new Date();
 }
 
 function executeSlyDeal(
   state: GameState, 
   fromPlayer: Player, 
   toPlayer: Player, 
-  targetColor: PropertyColor,
+  action: PendingAction,
   targetCardId?: string
 ): void {
-  const targetSet = toPlayer.properties.find(s => s.color === targetColor);
+  const targetColor = action.targetSet!;
+  const targetSet = findDealableSet(toPlayer, targetColor, action.targetSetId, targetCardId);
   if (!targetSet || targetSet.isComplete) return;
 
   // Find the specific card if ID provided, otherwise take the last one
@@ -621,13 +834,13 @@ function executeForcedDeal(
   state: GameState, 
   fromPlayer: Player, 
   toPlayer: Player, 
-  targetColor: PropertyColor,
-  targetCardId?: string,
-  giveCardId?: string,
-  giveFromSet?: PropertyColor
+  action: PendingAction,
+  targetCardId?: string
 ): void {
+  const { targetSet: targetColor, giveCardId, giveFromSet } = action;
+
   // Get the card from target player
-  const targetSet = toPlayer.properties.find(s => s.color === targetColor);
+  const targetSet = findDealableSet(toPlayer, targetColor!, action.targetSetId, targetCardId);
   if (!targetSet || targetSet.isComplete) return;
 
   let targetCardIndex = targetSet.cards.length - 1;
@@ -640,7 +853,7 @@ function executeForcedDeal(
   
   // Give a card from initiator to target
   if (giveCardId && giveFromSet) {
-    const giveSet = fromPlayer.properties.find(s => s.color === giveFromSet);
+    const giveSet = findDealableSet(fromPlayer, giveFromSet, action.giveFromSetId, giveCardId);
     if (giveSet && !giveSet.isComplete) {
       const giveCardIndex = giveSet.cards.findIndex(c => c.id === giveCardId);
       if (giveCardIndex !== -1) {
@@ -666,38 +879,33 @@ function executeDealBreaker(
   state: GameState, 
   fromPlayer: Player, 
   toPlayer: Player, 
-  targetColor: PropertyColor
+  action: PendingAction
 ): void {
-  const targetSetIndex = toPlayer.properties.findIndex(s => s.color === targetColor);
+  const targetSetIndex = action.targetSetId
+    ? toPlayer.properties.findIndex(s => s.id === action.targetSetId)
+    : toPlayer.properties.findIndex(s => s.color === action.targetSet && s.isComplete);
   if (targetSetIndex === -1) return;
 
   const targetSet = toPlayer.properties.splice(targetSetIndex, 1)[0];
   fromPlayer.properties.push(targetSet);
 }
 
-function updatePropertySetCompletion(set: PropertySet): void {
-  const propertyCount = set.cards.filter(c => 
-    c.type === 'property'
-  ).length;
-  set.isComplete = propertyCount >= PROPERTY_SET_REQUIREMENTS[set.color];
-}
-
 export function discardCards(state: GameState, playerId: string, cardIds: string[]): void {
   const player = state.players.find(p => p.id === playerId);
-  if (!player) throw new Error('Player not found');
+  if (!player) throw new NotFoundError('PLAYER_NOT_FOUND', 'Player not found');
   
   const currentPlayer = state.players[state.currentPlayerIndex];
-  if (currentPlayer.id !== playerId) throw new Error('Not your turn');
-  if (state.turnPhase !== 'discard') throw new Error('Not in discard phase');
+  if (currentPlayer.id !== playerId) throw new TurnError('NOT_YOUR_TURN', 'Not your turn');
+  if (state.turnPhase !== 'discard') throw new TurnError('WRONG_PHASE', 'Not in discard phase', { phase: state.turnPhase });
 
-  const cardsToDiscard = player.hand.length - 7;
+  const cardsToDiscard = player.hand.length - getGameSettings(state).handLimit;
   if (cardIds.length !== cardsToDiscard) {
-    throw new Error(`Must discard exactly ${cardsToDiscard} cards`);
+    throw new RuleError('MUST_DISCARD_EXACTLY', `Must discard exactly ${cardsToDiscard} cards`, { count: cardsToDiscard });
   }
 
   for (const cardId of cardIds) {
     const index = player.hand.findIndex(c => c.id === cardId);
-    if (index === -1) throw new Error('Card not in hand');
+    if (index === -1) throw new NotFoundError('CARD_NOT_IN_HAND', 'Card not in hand');
     const card = player.hand.splice(index, 1)[0];
     state.discardPile.push(card);
   }
@@ -709,22 +917,23 @@ export function discardCards(state: GameState, playerId: string, cardIds: string
 function endTurn(state: GameState): void {
   state.currentPlayerIndex = (state.currentPlayerIndex + 1) % state.players.length;
   state.turnPhase = 'draw';
-  state.actionsRemaining = 3;
+  state.actionsRemaining = getGameSettings(state).actionsPerTurn;
   state.pendingAction = null;
+  state.turnNumber++;
 }
 
 // Player chooses to end their turn early (0, 1, or 2 actions used) or confirm end after all actions
 export function endTurnEarly(state: GameState, playerId: string): void {
   const player = state.players.find(p => p.id === playerId);
-  if (!player) throw new Error('Player not found');
+  if (!player) throw new NotFoundError('PLAYER_NOT_FOUND', 'Player not found');
   
   const currentPlayer = state.players[state.currentPlayerIndex];
-  if (currentPlayer.id !== playerId) throw new Error('Not your turn');
-  if (state.turnPhase !== 'action' && state.turnPhase !== 'finishing') throw new Error('Cannot end turn now');
-  if (state.pendingAction) throw new Error('Must resolve pending action first');
+  if (currentPlayer.id !== playerId) throw new TurnError('NOT_YOUR_TURN', 'Not your turn');
+  if (state.turnPhase !== 'action' && state.turnPhase !== 'finishing') throw new TurnError('WRONG_PHASE', 'Cannot end turn now', { phase: state.turnPhase });
+  if (state.pendingAction) throw new TurnError('ACTION_PENDING', 'Must resolve pending action first');
 
   // Check if player needs to discard
-  if (player.hand.length > 7) {
+  if (player.hand.length > getGameSettings(state).handLimit) {
     state.turnPhase = 'discard';
   } else {
     endTurn(state);
@@ -733,10 +942,11 @@ export function endTurnEarly(state: GameState, playerId: string): void {
   state.updatedAt = new Date();
 }
 
+// Two complete sets of the same colour only count once towards winning
 function checkWinner(state: GameState): void {
   for (const player of state.players) {
-    const completeSets = player.properties.filter(s => s.isComplete).length;
-    if (completeSets >= 3) {
+    const completeColors = new Set(player.properties.filter(s => s.isComplete).map(s => s.color));
+    if (completeColors.size >= getGameSettings(state).setsToWin) {
       state.winner = player.id;
       state.phase = 'finished';
       return;
@@ -750,49 +960,44 @@ export function rearrangeProperty(
   playerId: string,
   cardId: string,
   fromColor: PropertyColor,
-  toColor: PropertyColor
+  toColor: PropertyColor,
+  toSetId?: string
 ): void {
   const player = state.players.find(p => p.id === playerId);
-  if (!player) throw new Error('Player not found');
+  if (!player) throw new NotFoundError('PLAYER_NOT_FOUND', 'Player not found');
 
   const currentPlayer = state.players[state.currentPlayerIndex];
-  if (currentPlayer.id !== playerId) throw new Error('Not your turn');
-  if (state.turnPhase !== 'action' && state.turnPhase !== 'finishing') throw new Error('Cannot rearrange now');
+  if (currentPlayer.id !== playerId) throw new TurnError('NOT_YOUR_TURN', 'Not your turn');
+  if (state.turnPhase !== 'action' && state.turnPhase !== 'finishing') throw new TurnError('WRONG_PHASE', 'Cannot rearrange now', { phase: state.turnPhase });
 
   // Find the card in the source set
-  const fromSet = player.properties.find(s => s.color === fromColor);
-  if (!fromSet) throw new Error('Source property set not found');
+  const fromSet = player.properties.find(s => s.color === fromColor && s.cards.some(c => c.id === cardId))
+    || findPropertySet(player, fromColor);
+  if (!fromSet) throw new NotFoundError('PROPERTY_SET_NOT_FOUND', 'Source property set not found');
 
   const cardIndex = fromSet.cards.findIndex(c => c.id === cardId);
-  if (cardIndex === -1) throw new Error('Card not found in source set');
+  if (cardIndex === -1) throw new NotFoundError('CARD_NOT_FOUND', 'Card not found in source set');
 
   const card = fromSet.cards[cardIndex] as PropertyCard;
   
   // Only wildcards can be rearranged
-  if (!card.isWildcard) throw new Error('Only wildcard properties can be rearranged');
+  if (!card.isWildcard) throw new RuleError('NOT_A_WILDCARD', 'Only wildcard properties can be rearranged');
   
   // Check if the wildcard can go to the target color
   if (card.wildcardColors && !card.wildcardColors.includes(toColor)) {
-    throw new Error('This wildcard cannot be placed on that color');
+    throw new RuleError('INVALID_WILDCARD_COLOR', 'This wildcard cannot be placed on that color', { color: toColor });
   }
 
+  assertCanMoveWildcard(fromSet, card);
+  assertCanPlaceProperty(card, findSetToJoin(player, toColor, toSetId));
+
+  // Pick the target set (created if needed) before the card leaves its source set
+  const toSet = choosePropertySet(state, player, toColor, toSetId);
+
   // Remove from source set
   fromSet.cards.splice(cardIndex, 1);
   updatePropertySetCompletion(fromSet);
 
-  // Add to target set (create if doesn't exist)
-  let toSet = player.properties.find(s => s.color === toColor);
-  if (!toSet) {
-    toSet = {
-      color: toColor,
-      cards: [],
-      hasHouse: false,
-      hasHotel: false,
-      isComplete: false
-    };
-    player.properties.push(toSet);
-  }
-
   toSet.cards.push(card);
   updatePropertySetCompletion(toSet);
 
@@ -805,19 +1010,83 @@ export function rearrangeProperty(
   state.updatedAt = new Date();
 }
 
-export function getPublicGameState(state: GameState, forPlayerId?: string): GameState {
-  // Hide other players' hands
+export function toPublicPlayer(player: Player, includeHand: boolean = false): PublicPlayer {
+  return {
+    id: player.id,
+    name: player.name,
+    hand: includeHand ? player.hand : undefined,
+    handCount: player.hand.length,
+    properties: player.properties,
+    bank: player.bank,
+    isConnected: player.isConnected,
+    isBot: player.isBot,
+    botDifficulty: player.botDifficulty,
+    accountId: player.accountId
+  };
+}
+
+export function toPublicPendingAction(action: PendingAction): PublicPendingAction {
+  return {
+    type: action.type,
+    fromPlayerId: action.fromPlayerId,
+    toPlayerId: action.toPlayerId,
+    amount: action.amount,
+    targetSet: action.targetSet,
+    targetSetId: action.targetSetId,
+    targetCardId: action.targetCardId,
+    giveCardId: action.giveCardId,
+    giveFromSet: action.giveFromSet,
+    giveFromSetId: action.giveFromSetId,
+    canSayNo: action.canSayNo,
+    respondedPlayers: action.respondedPlayers,
+    justSayNoChains: action.justSayNoChains,
+    isDoubleRent: action.isDoubleRent
+  };
+}
+
+// The payment a player is currently being asked for, if any
+function getOwedAmount(state: GameState, playerId: string): number {
+  const pending = state.pendingAction;
+  if (!pending?.amount || pending.fromPlayerId === playerId) return 0;
+  return getPendingResponders(state).includes(playerId) ? pending.amount : 0;
+}
+
+// Per-viewer projection: only the viewer's own hand is included, the deck is reduced to a count
+export function getPublicGameState(state: GameState, forPlayerId?: string): PublicGameState {
+  const viewer = state.players.find(p => p.id === forPlayerId);
+  const owed = viewer ? getOwedAmount(state, viewer.id) : 0;
+
   return {
-    ...state,
-    players: state.players.map(p => ({
-      ...p,
-      hand: p.id === forPlayerId ? p.hand : p.hand.map(() => ({ 
-        id: 'hidden', 
-        type: 'money' as const, 
-        name: 'Hidden', 
-        value: 0, 
-        image: 'card-back' 
-      }))
-    }))
+    id: state.id,
+    roomCode: state.roomCode,
+    players: state.players.map(p => toPublicPlayer(p, p.id === forPlayerId)),
+    currentPlayerIndex: state.currentPlayerIndex,
+    deckCount: state.deck.length,
+    decksUsed: state.decksUsed || 1,
+    discardPileCount: state.discardPile.length,
+    topDiscard: state.discardPile[state.discardPile.length - 1] || null,
+    phase: state.phase,
+    turnPhase: state.turnPhase,
+    actionsRemaining: state.actionsRemaining,
+    pendingAction: state.pendingAction ? toPublicPendingAction(state.pendingAction) : null,
+    suggestedPayment: viewer && owed > 0 ? suggestPayment(viewer, owed) : undefined,
+    winner: state.winner,
+    turnNumber: state.turnNumber,
+    settings: getGameSettings(state),
+    turnDeadline: state.timer?.turnDeadline ?? null,
+    responseDeadline: state.timer?.responseDeadline ?? null,
+    serverTime: new Date(),
+    version: state.version || 0,
+    visibility: state.visibility || 'private',
+    hostId: getHost(state)?.id ?? null,
+    locked: state.locked ?? false,
+    hasPassword: Boolean(state.passwordHash),
+    rated: state.rated ?? false,
+    seeded: state.seeded ?? false,
+    rematchVotes: state.rematchVotes || [],
+    rematchStarter: state.rematchStarter || 'firstSeat',
+    tournamentId: state.tournamentId ?? null,
+    createdAt: state.createdAt,
+    updatedAt: state.updatedAt
   };
 }
@@ -0,0 +1,71 @@
+import { LeaderboardEntry, MatchRecord, Page } from '../types/game.js';
+import { findRatings, findMatches, loadAccount } from '../db/storage.js';
+
+type UnrankedEntry = Omit<LeaderboardEntry, 'rank' | 'displayName'>;
+
+// Weeks start on Monday at midnight UTC
+export function startOfWeek(now: Date = new Date()): Date {
+  const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  start.setUTCDate(start.getUTCDate() - (start.getUTCDay() + 6) % 7);
+  return start;
+}
+
+// Rating gained over a set of rated matches, best first. Rating is where each account ended up.
+export function summarizeRatingChanges(matches: MatchRecord[], accountIds?: string[]): UnrankedEntry[] {
+  const entries = new Map<string, UnrankedEntry & { lastPlayed: number }>();
+
+  for (const match of matches) {
+    const finishedAt = new Date(match.finishedAt).getTime();
+    for (const participant of match.participants) {
+      if (!participant.accountId || !participant.rating) continue;
+      if (accountIds && !accountIds.includes(participant.accountId)) continue;
+
+      const entry = entries.get(participant.accountId) ?? {
+        accountId: participant.accountId, rating: participant.rating.after, ratingChange: 0, gamesPlayed: 0, wins: 0, lastPlayed: 0
+      };
+      entry.ratingChange! += participant.rating.after - participant.rating.before;
+      entry.gamesPlayed++;
+      if (participant.isWinner) entry.wins++;
+      if (finishedAt >= entry.lastPlayed) {
+        entry.rating = participant.rating.after;
+        entry.lastPlayed = finishedAt;
+      }
+      entries.set(participant.accountId, entry);
+    }
+  }
+
+  return [...entries.values()]
+    .sort((a, b) => b.ratingChange! - a.ratingChange! || b.wins - a.wins)
+    .map(({ lastPlayed, ...entry }) => entry);
+}
+
+async function toLeaderboard(entries: UnrankedEntry[], firstRank = 1): Promise<LeaderboardEntry[]> {
+  return Promise.all(entries.map(async (entry, index) => ({
+    rank: firstRank + index,
+    displayName: (await loadAccount(entry.accountId))?.displayName ?? '',
+    ...entry
+  })));
+}
+
+// Everyone's current rating, or only that of some accounts such as a friend group's members
+export async function getRatingLeaderboard(page: Page, accountIds?: string[]): Promise<{ entries: LeaderboardEntry[]; total: number }> {
+  const { ratings, total } = await findRatings(page, accountIds);
+  const entries = await toLeaderboard(
+    ratings.map(({ accountId, rating, gamesPlayed, wins }) => ({ accountId, rating, gamesPlayed, wins })),
+    page.offset + 1
+  );
+  return { entries, total };
+}
+
+// Rating gained in the week starting at weekStart
+export async function getWeeklyLeaderboard(
+  weekStart: Date,
+  page: Page,
+  accountIds?: string[]
+): Promise<{ entries: LeaderboardEntry[]; total: number }> {
+  const weekEnd = new Date(weekStart.getTime() + 7 * 24 * 60 * 60 * 1000);
+  const { matches } = await findMatches({ rated: true, since: weekStart, until: weekEnd });
+  const ranked = summarizeRatingChanges(matches, accountIds);
+  const entries = await toLeaderboard(ranked.slice(page.offset, page.offset + page.limit), page.offset + 1);
+  return { entries, total: ranked.length };
+}
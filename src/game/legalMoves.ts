@@ -0,0 +1,220 @@
+import {
+  GameState, Player, PropertyCard, ActionCard, RentCard, PropertyColor,
+  PlayCardTarget, ActionResponse, GameCommand, LegalMoves
+} from '../types/game.js';
+import { tryGameCommand } from './gameEvents.js';
+import { getPendingResponders, getJustSayNoChain } from './gameLogic.js';
+import { findDealableSet } from './propertySets.js';
+import { suggestPayment } from './payment.js';
+import { getGameSettings } from './settings.js';
+import { isMulticolorWild } from './rules.js';
+
+// Everything a player may do in the current turn phase. Candidates are built from the cards
+// and sets in play, then kept only when the rules engine accepts them on a copy of the state.
+export function getLegalMoves(state: GameState, playerId: string): LegalMoves {
+  const player = state.players.find(p => p.id === playerId);
+  if (!player || state.phase !== 'playing') return { commands: [] };
+
+  if (state.pendingAction) {
+    if (!getPendingResponders(state).includes(playerId)) return { commands: [] };
+    return getResponseMoves(state, player);
+  }
+
+  const currentPlayer = state.players[state.currentPlayerIndex];
+  if (currentPlayer.id !== playerId) return { commands: [] };
+
+  switch (state.turnPhase) {
+    case 'draw':
+      return { commands: [{ type: 'draw' }] };
+    case 'discard':
+      return {
+        commands: [],
+        discard: {
+          count: player.hand.length - getGameSettings(state).handLimit,
+          cardIds: player.hand.map(c => c.id)
+        }
+      };
+    case 'action':
+      return { commands: [...getPlayCommands(state, player), ...getRearrangeCommands(state, player), { type: 'endTurn' }] };
+    case 'finishing':
+      return { commands: [...getRearrangeCommands(state, player), { type: 'endTurn' }] };
+    default:
+      return { commands: [] };
+  }
+}
+
+function isAccepted(state: GameState, playerId: string, command: GameCommand): boolean {
+  return tryGameCommand(state, playerId, command) !== null;
+}
+
+// Sets a property of this colour can be placed in: each incomplete set, or a new one when there is none
+function placementSetIds(player: Player, color: PropertyColor): (string | undefined)[] {
+  const incomplete = player.properties.filter(s => s.color === color && !s.isComplete);
+  return incomplete.length > 0 ? incomplete.map(s => s.id) : [undefined];
+}
+
+function getPlayCommands(state: GameState, player: Player): GameCommand[] {
+  const opponents = state.players.filter(p => p.id !== player.id);
+  const candidates: GameCommand[] = [];
+  const add = (cardId: string, target?: PlayCardTarget) => candidates.push({ type: 'play', cardId, target });
+
+  for (const card of player.hand) {
+    if (card.type === 'money') {
+      add(card.id);
+    } else if (card.type === 'property') {
+      const prop = card as PropertyCard;
+      const colors = prop.isWildcard && prop.wildcardColors ? prop.wildcardColors : [prop.color];
+      for (const color of colors) {
+        placementSetIds(player, color).forEach(propertySetId => add(card.id, { propertySetColor: color, propertySetId }));
+      }
+    } else if (card.type === 'action') {
+      add(card.id, { asBank: true });
+      addActionCandidates(player, opponents, card as ActionCard, add);
+    } else if (card.type === 'rent') {
+      add(card.id, { asBank: true });
+      addRentCandidates(state, player, opponents, card as RentCard, add);
+    }
+  }
+
+  return candidates.filter(candidate => isAccepted(state, player.id, candidate));
+}
+
+function addActionCandidates(
+  player: Player,
+  opponents: Player[],
+  card: ActionCard,
+  add: (cardId: string, target?: PlayCardTarget) => void
+): void {
+  switch (card.action) {
+    case 'passGo':
+    case 'birthday':
+      add(card.id);
+      break;
+    case 'debtCollector':
+      opponents.forEach(o => add(card.id, { playerId: o.id }));
+      break;
+    case 'slyDeal':
+      opponents.forEach(o => o.properties
+        .filter(s => !s.isComplete)
+        .forEach(s => add(card.id, { playerId: o.id, propertySetColor: s.color, propertySetId: s.id })));
+      break;
+    case 'forcedDeal': {
+      // Any property from one of the player's incomplete sets can be offered in exchange
+      const giveOptions = player.properties
+        .filter(s => !s.isComplete)
+        .flatMap(s => s.cards.filter(c => c.type === 'property').map(c => ({ set: s, cardId: c.id })));
+      for (const { set: giveSet, cardId: giveCardId } of giveOptions) {
+        opponents.forEach(o => o.properties
+          .filter(s => !s.isComplete)
+          .forEach(s => add(card.id, {
+            playerId: o.id,
+            propertySetColor: s.color,
+            propertySetId: s.id,
+            giveCardId,
+            giveFromSet: giveSet.color,
+            giveFromSetId: giveSet.id
+          })));
+      }
+      break;
+    }
+    case 'dealBreaker':
+      opponents.forEach(o => o.properties
+        .filter(s => s.isComplete)
+        .forEach(s => add(card.id, { playerId: o.id, propertySetColor: s.color, propertySetId: s.id })));
+      break;
+    case 'house':
+    case 'hotel':
+      player.properties
+        .filter(s => s.isComplete)
+        .forEach(s => add(card.id, { propertySetColor: s.color, propertySetId: s.id }));
+      break;
+  }
+}
+
+function addRentCandidates(
+  state: GameState,
+  player: Player,
+  opponents: Player[],
+  card: RentCard,
+  add: (cardId: string, target?: PlayCardTarget) => void
+): void {
+  // Every Double The Rent held can be stacked while there are actions left to pay for it
+  const doubleRentCards = player.hand.filter(c => c.type === 'action' && (c as ActionCard).action === 'doubleRent').length;
+  const maxDoubles = Math.min(doubleRentCards, state.actionsRemaining - 1);
+  const doubleOptions: PlayCardTarget[] = [{}];
+  for (let count = 1; count <= maxDoubles; count++) {
+    doubleOptions.push({ useDoubleRent: true, doubleRentCount: count });
+  }
+
+  for (const set of player.properties.filter(s => card.colors.includes(s.color))) {
+    for (const double of doubleOptions) {
+      const target: PlayCardTarget = { propertySetColor: set.color, propertySetId: set.id, ...double };
+      if (card.isWildRent) {
+        opponents.forEach(o => add(card.id, { ...target, playerId: o.id }));
+      } else {
+        add(card.id, target);
+      }
+    }
+  }
+}
+
+function getRearrangeCommands(state: GameState, player: Player): GameCommand[] {
+  const candidates: GameCommand[] = [];
+
+  for (const set of player.properties) {
+    for (const card of set.cards) {
+      const prop = card as PropertyCard;
+      if (card.type !== 'property' || !prop.isWildcard || !prop.wildcardColors) continue;
+      for (const toColor of prop.wildcardColors) {
+        if (toColor === set.color) continue;
+        placementSetIds(player, toColor).forEach(toSetId => candidates.push({
+          type: 'rearrange', cardId: card.id, fromColor: set.color, toColor, toSetId
+        }));
+      }
+    }
+  }
+
+  return candidates.filter(candidate => isAccepted(state, player.id, candidate));
+}
+
+function getResponseMoves(state: GameState, player: Player): LegalMoves {
+  const pending = state.pendingAction!;
+  const hasJustSayNo = player.hand.some(c => c.type === 'action' && (c as ActionCard).action === 'justSayNo');
+  const respond = (response: ActionResponse): GameCommand => ({ type: 'respond', response });
+
+  // The initiator answers each target whose Just Say No is waiting: let it stand, or counter it
+  if (player.id === pending.fromPlayerId) {
+    const commands = Object.keys(pending.justSayNoChains || {})
+      .filter(id => getJustSayNoChain(pending, id).length % 2 === 1 && !pending.respondedPlayers?.includes(id))
+      .flatMap(targetPlayerId => [
+        respond({ accept: false, targetPlayerId }),
+        ...(hasJustSayNo ? [respond({ accept: false, useJustSayNo: true, targetPlayerId })] : [])
+      ]);
+    return { commands };
+  }
+
+  const commands: GameCommand[] = [];
+  if (hasJustSayNo && pending.canSayNo) commands.push(respond({ accept: false, useJustSayNo: true }));
+
+  if (pending.amount) {
+    const suggestedCardIds = suggestPayment(player, pending.amount);
+    commands.push(respond({ accept: true, paymentCardIds: suggestedCardIds }));
+    const cardIds = [...player.bank, ...player.properties.flatMap(s => s.cards)]
+      .filter(c => !isMulticolorWild(c))
+      .map(c => c.id);
+    return { commands, payment: { amount: pending.amount, cardIds, suggestedCardIds } };
+  }
+
+  // The target of a sly or forced deal chooses which card of the set to hand over
+  if ((pending.type === 'slyDeal' || pending.type === 'forcedDeal') && pending.targetSet) {
+    const targetSet = findDealableSet(player, pending.targetSet, pending.targetSetId);
+    const cards = targetSet?.cards.filter(c => c.type === 'property') || [];
+    if (cards.length > 0) {
+      cards.forEach(c => commands.push(respond({ accept: true, selectedCardId: c.id })));
+      return { commands };
+    }
+  }
+
+  commands.push(respond({ accept: true }));
+  return { commands };
+}
@@ -0,0 +1,73 @@
+import { GameState, MatchRecord, MatchParticipant, AccountStats, PropertyColor } from '../types/game.js';
+import { getGameSettings } from './settings.js';
+import { createPlayerStats, addPlayerStats } from './stats.js';
+
+// The result of a finished game, as kept in the match history
+export function buildMatchRecord(state: GameState, finishedAt: Date = new Date()): MatchRecord {
+  if (!state.winner) throw new Error('Only finished games can be recorded');
+
+  const startedAt = state.startedAt ?? state.createdAt;
+  const completedSetsByColor: Partial<Record<PropertyColor, number>> = {};
+
+  const participants: MatchParticipant[] = state.players.map(player => {
+    const completedSets = player.properties.filter(s => s.isComplete).map(s => s.color);
+    completedSets.forEach(color => {
+      completedSetsByColor[color] = (completedSetsByColor[color] || 0) + 1;
+    });
+    return {
+      playerId: player.id,
+      accountId: player.accountId ?? null,
+      name: player.name,
+      isBot: player.isBot ?? false,
+      ...(player.botDifficulty ? { botDifficulty: player.botDifficulty } : {}),
+      isWinner: player.id === state.winner,
+      completedSets,
+      stats: state.stats?.[player.id] ?? createPlayerStats()
+    };
+  });
+
+  return {
+    gameId: state.id,
+    roomCode: state.roomCode,
+    startedAt,
+    finishedAt,
+    durationSeconds: Math.max(0, Math.round((finishedAt.getTime() - new Date(startedAt).getTime()) / 1000)),
+    turnCount: state.turnNumber,
+    winnerId: state.winner,
+    winnerAccountId: state.players.find(p => p.id === state.winner)?.accountId ?? null,
+    participants,
+    completedSetsByColor,
+    settings: getGameSettings(state),
+    // Only games played to the end are recorded at all, so abandoned games never count
+    rated: Boolean(state.rated) && !state.seeded && participants.every(p => p.accountId && !p.isBot)
+  };
+}
+
+// Lifetime totals for an account from the games it played
+export function summarizeAccountStats(accountId: string, matches: MatchRecord[]): AccountStats {
+  const stats: AccountStats = {
+    accountId,
+    gamesPlayed: 0,
+    wins: 0,
+    winRate: 0,
+    totalTurns: 0,
+    setsCompletedByColor: {},
+    totals: createPlayerStats()
+  };
+
+  for (const match of matches) {
+    const participant = match.participants.find(p => p.accountId === accountId);
+    if (!participant) continue;
+
+    stats.gamesPlayed++;
+    if (participant.isWinner) stats.wins++;
+    stats.totalTurns += match.turnCount;
+    participant.completedSets.forEach(color => {
+      stats.setsCompletedByColor[color] = (stats.setsCompletedByColor[color] || 0) + 1;
+    });
+    addPlayerStats(stats.totals, participant.stats);
+  }
+
+  stats.winRate = stats.gamesPlayed > 0 ? stats.wins / stats.gamesPlayed : 0;
+  return stats;
+}
@@ -0,0 +1,164 @@
+import { GameState, Player, Card, PropertyCard, ActionCard, PropertySet, PropertyColor } from '../types/game.js';
+import { choosePropertySet, updatePropertySetCompletion } from './propertySets.js';
+import { assertCanPayWith } from './rules.js';
+import { PaymentError } from './errors.js';
+
+// Where a card offered as payment currently sits: the bank, or one of the payer's sets
+interface PaymentSource {
+  card: Card;
+  set?: PropertySet;
+}
+
+function isBuilding(card: Card, building?: 'house' | 'hotel'): boolean {
+  if (card.type !== 'action') return false;
+  const action = (card as ActionCard).action;
+  return building ? action === building : action === 'house' || action === 'hotel';
+}
+
+function findPaymentSource(player: Player, cardId: string): PaymentSource | undefined {
+  const bankCard = player.bank.find(c => c.id === cardId);
+  if (bankCard) return { card: bankCard };
+
+  for (const set of player.properties) {
+    const card = set.cards.find(c => c.id === cardId);
+    if (card) return { card, set };
+  }
+  return undefined;
+}
+
+// Everything a player could be made to pay with
+export function getPayableValue(player: Player): number {
+  const bankValue = player.bank.reduce((sum, c) => sum + c.value, 0);
+  const propertyValue = player.properties.flatMap(s => s.cards).reduce((sum, c) => sum + c.value, 0);
+  return bankValue + propertyValue;
+}
+
+// Check that every card belongs to the payer and that together they cover the debt, or
+// everything the payer has when they cannot cover it
+export function validatePayment(player: Player, cardIds: string[], amount: number): PaymentSource[] {
+  if (new Set(cardIds).size !== cardIds.length) throw new PaymentError('DUPLICATE_CARD', 'The same card was offered twice');
+
+  const sources = cardIds.map(cardId => {
+    const source = findPaymentSource(player, cardId);
+    if (!source) throw new PaymentError('CARD_NOT_OWNED', 'You can only pay with cards from your bank or properties');
+    assertCanPayWith(source.card);
+    return source;
+  });
+
+  // A hotel stands on a house, so the house can only go together with the hotel
+  for (const { card, set } of sources) {
+    if (isBuilding(card, 'house') && set?.hasHotel &&
+      !sources.some(other => other.set === set && isBuilding(other.card, 'hotel'))) {
+      throw new PaymentError('HOUSE_UNDER_HOTEL', 'A house cannot be paid while its hotel stays');
+    }
+  }
+
+  const totalAssets = getPayableValue(player);
+  const paymentValue = sources.reduce((sum, { card }) => sum + card.value, 0);
+  if (totalAssets > 0) {
+    const minimumPayment = Math.min(amount, totalAssets);
+    if (paymentValue < minimumPayment) {
+      throw new PaymentError('MUST_PAY_AT_LEAST', `You must pay at least $${minimumPayment}M (you selected $${paymentValue}M)`, {
+        minimum: minimumPayment,
+        selected: paymentValue
+      });
+    }
+  }
+  return sources;
+}
+
+// Wild properties keep the colour they were paid from when the receiver can use it
+function receivedColor(card: PropertyCard, from: PropertySet): PropertyColor {
+  if (card.isWildcard && card.wildcardColors?.includes(from.color)) return from.color;
+  return card.color;
+}
+
+// Move a payment from payer to receiver and return what the cards were worth. There is no
+// change: whatever is overpaid is lost. Properties join the receiver's sets, while houses and
+// hotels go to the receiver's bank.
+export function transferPayment(
+  state: GameState,
+  payer: Player,
+  receiver: Player,
+  cardIds: string[],
+  amount: number
+): number {
+  const sources = validatePayment(payer, cardIds, amount);
+
+  for (const { card, set } of sources) {
+    if (!set) {
+      payer.bank.splice(payer.bank.indexOf(card), 1);
+      receiver.bank.push(card);
+      continue;
+    }
+
+    set.cards.splice(set.cards.indexOf(card), 1);
+    if (card.type === 'property') {
+      const receiverSet = choosePropertySet(state, receiver, receivedColor(card as PropertyCard, set));
+      receiverSet.cards.push(card);
+      updatePropertySetCompletion(receiverSet);
+    } else {
+      if (isBuilding(card, 'house')) set.hasHouse = false;
+      if (isBuilding(card, 'hotel')) set.hasHotel = false;
+      receiver.bank.push(card);
+    }
+    updatePropertySetCompletion(set);
+  }
+
+  // Houses and hotels only stand on complete sets, so any left on a set the payment broke up
+  // fall back to their owner's bank
+  for (const set of payer.properties) {
+    if (set.isComplete) continue;
+    payer.bank.push(...set.cards.filter(c => isBuilding(c)));
+    set.cards = set.cards.filter(c => !isBuilding(c));
+    set.hasHouse = false;
+    set.hasHotel = false;
+  }
+  payer.properties = payer.properties.filter(s => s.cards.length > 0);
+  return sources.reduce((sum, { card }) => sum + card.value, 0);
+}
+
+// How much a player would rather not give a card up; only breaks ties between equal overpays
+function paymentCost(card: Card, set?: PropertySet): number {
+  if (!set) return 0;
+  if (isBuilding(card)) return 2;
+  return set.isComplete ? 3 : 1;
+}
+
+// The server's suggestion for covering a debt: the smallest overpay, then bank cards before
+// properties and buildings, and complete sets broken up last
+export function suggestPayment(player: Player, amount: number): string[] {
+  const everything: PaymentSource[] = [
+    ...player.bank.map(card => ({ card })),
+    ...player.properties.flatMap(set => set.cards.map(card => ({ card, set })))
+  ].filter(({ card }) => card.value > 0);
+  // A player who cannot cover the debt pays all they have, houses under hotels included,
+  // just as validatePayment counts them
+  if (getPayableValue(player) <= amount) return everything.map(({ card }) => card.id);
+
+  // Otherwise only offer the top building, so a house is never suggested from under a hotel
+  const options = everything.filter(({ card, set }) => !isBuilding(card, 'house') || !set?.hasHotel);
+
+  // best[sum] holds the cheapest way found to pay exactly that sum
+  const best: ({ cost: number; cards: Card[] } | undefined)[] = [{ cost: 0, cards: [] }];
+  for (const { card, set } of options) {
+    const cost = paymentCost(card, set);
+    for (let sum = best.length - 1; sum >= 0; sum--) {
+      const current = best[sum];
+      if (!current) continue;
+      const next = sum + card.value;
+      const existing = best[next];
+      if (!existing || existing.cost > current.cost + cost ||
+        (existing.cost === current.cost + cost && existing.cards.length > current.cards.length + 1)) {
+        best[next] = { cost: current.cost + cost, cards: [...current.cards, card] };
+      }
+    }
+  }
+
+  for (let sum = amount; sum < best.length; sum++) {
+    const payment = best[sum];
+    if (payment) return payment.cards.map(c => c.id);
+  }
+  // Without the house the rest falls short, so it takes everything
+  return everything.map(({ card }) => card.id);
+}
@@ -0,0 +1,59 @@
+import { GameState, Player, PropertySet, PropertyColor } from '../types/game.js';
+import { PROPERTY_SET_REQUIREMENTS } from './cards.js';
+import { NotFoundError, RuleError } from './errors.js';
+
+// Set ids come from a counter rather than the random source so replays reproduce them
+export function createPropertySet(state: GameState, color: PropertyColor): PropertySet {
+  state.propertySetCount = (state.propertySetCount || 0) + 1;
+  return {
+    id: `set-${state.propertySetCount}`,
+    color,
+    cards: [],
+    hasHouse: false,
+    hasHotel: false,
+    isComplete: false
+  };
+}
+
+// A set id picks one set exactly; without one the first set of the colour is used
+export function findPropertySet(player: Player, color?: PropertyColor, setId?: string): PropertySet | undefined {
+  if (setId) return player.properties.find(s => s.id === setId && (!color || s.color === color));
+  return player.properties.find(s => s.color === color);
+}
+
+// Finds the incomplete set a sly deal or forced deal takes from: the given set, the set holding
+// the chosen card, or the first incomplete set of the colour
+export function findDealableSet(player: Player, color: PropertyColor, setId?: string, cardId?: string): PropertySet | undefined {
+  if (setId) return findPropertySet(player, color, setId);
+  const incomplete = player.properties.filter(s => s.color === color && !s.isComplete);
+  return incomplete.find(s => s.cards.some(c => c.id === cardId)) || incomplete[0];
+}
+
+// The existing set a property card would join: the given set, or the first incomplete set of
+// the colour. Undefined means the card starts a new set.
+export function findSetToJoin(player: Player, color: PropertyColor, setId?: string): PropertySet | undefined {
+  if (setId) {
+    const chosen = findPropertySet(player, color, setId);
+    if (!chosen) throw new NotFoundError('PROPERTY_SET_NOT_FOUND', 'Property set not found');
+    if (chosen.isComplete) throw new RuleError('SET_ALREADY_COMPLETE', 'That property set is already complete');
+    return chosen;
+  }
+  return player.properties.find(s => s.color === color && !s.isComplete);
+}
+
+// Where a property card lands, creating a new set when every set of that colour is complete
+export function choosePropertySet(state: GameState, player: Player, color: PropertyColor, setId?: string): PropertySet {
+  let propertySet = findSetToJoin(player, color, setId);
+  if (!propertySet) {
+    propertySet = createPropertySet(state, color);
+    player.properties.push(propertySet);
+  }
+  return propertySet;
+}
+
+export function updatePropertySetCompletion(set: PropertySet): void {
+  const propertyCount = set.cards.filter(c => 
+    c.type === 'property'
+  ).length;
+  set.isComplete = propertyCount >= PROPERTY_SET_REQUIREMENTS[set.color];
+}
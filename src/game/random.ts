@@ -0,0 +1,47 @@
+import { randomBytes, createHash, createHmac } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+
+export type RandomSource = () => number;
+export type IdSource = () => string;
+
+export function generateSeed(): string {
+  return randomBytes(16).toString('hex');
+}
+
+// SHA-256 of the seed, cut down to the generator's four 32-bit state words
+export function hashSeed(seed: string): number[] {
+  const digest = createHash('sha256').update(seed).digest();
+  return [0, 4, 8, 12].map(offset => digest.readUInt32LE(offset));
+}
+
+function rotateLeft(x: number, bits: number): number {
+  return (x << bits) | (x >>> (32 - bits));
+}
+
+// xoshiro128** generator with 128 bits of state. The state lives on the holder so it is
+// persisted with the game and a restored game continues the same sequence.
+export function createSeededRandom(holder: { rngState: number[] }): RandomSource {
+  return () => {
+    let [a, b, c, d] = holder.rngState;
+    const result = Math.imul(rotateLeft(Math.imul(b, 5), 7), 9) >>> 0;
+    const t = b << 9;
+    c ^= a;
+    d ^= b;
+    b ^= c;
+    a ^= d;
+    c ^= t;
+    d = rotateLeft(d, 11);
+    // A new array, so copies of a game that share the old one are left alone
+    holder.rngState = [a >>> 0, b >>> 0, c >>> 0, d >>> 0];
+    return result / 4294967296;
+  };
+}
+
+// Card ids are keyed hashes of a counter rather than draws from the shuffle generator, so the
+// ids clients see cannot be used to work out the seed or the deck order
+export function createSeededIds(seed: string, holder: { cardIdCount: number }): IdSource {
+  return () => {
+    const digest = createHmac('sha256', seed).update(`card:${holder.cardIdCount++}`).digest();
+    return uuidv4({ random: digest.subarray(0, 16) });
+  };
+}
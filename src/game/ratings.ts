@@ -0,0 +1,58 @@
+import { MatchRecord, PlayerRating } from '../types/game.js';
+import { loadRatings, saveRating } from '../db/storage.js';
+
+export const DEFAULT_RATING = 1500;
+const K_FACTOR = 32;
+
+// The score a player is expected to take from one game against an opponent, from 0 to 1
+function expectedScore(rating: number, opponentRating: number): number {
+  return 1 / (1 + 10 ** ((opponentRating - rating) / 400));
+}
+
+// Elo for free-for-all games: each game counts as one duel against every opponent, where the
+// winner beats everyone and the others draw with each other. K is shared over the opponents so
+// a game moves a rating about as far as a duel would.
+export function calculateRatings(match: MatchRecord, ratings: Map<string, number>): Map<string, number> {
+  const players = match.participants.map(p => ({
+    accountId: p.accountId!,
+    isWinner: p.isWinner,
+    rating: ratings.get(p.accountId!) ?? DEFAULT_RATING
+  }));
+  const k = K_FACTOR / Math.max(1, players.length - 1);
+
+  const updated = new Map<string, number>();
+  for (const player of players) {
+    let change = 0;
+    for (const opponent of players) {
+      if (opponent === player) continue;
+      const score = player.isWinner ? 1 : opponent.isWinner ? 0 : 0.5;
+      change += k * (score - expectedScore(player.rating, opponent.rating));
+    }
+    updated.set(player.accountId, Math.round(player.rating + change));
+  }
+  return updated;
+}
+
+// Update the ratings of everyone in a rated match and note each change on the record.
+// Matches that share players must be rated one at a time.
+export async function rateMatch(match: MatchRecord, now: Date = new Date()): Promise<void> {
+  if (!match.rated) return;
+
+  const accountIds = match.participants.map(p => p.accountId!);
+  const existing = new Map((await loadRatings(accountIds)).map(r => [r.accountId, r]));
+  const updated = calculateRatings(match, new Map([...existing].map(([id, r]) => [id, r.rating])));
+
+  for (const participant of match.participants) {
+    const accountId = participant.accountId!;
+    const previous = existing.get(accountId);
+    const rating: PlayerRating = {
+      accountId,
+      rating: updated.get(accountId)!,
+      gamesPlayed: (previous?.gamesPlayed ?? 0) + 1,
+      wins: (previous?.wins ?? 0) + (participant.isWinner ? 1 : 0),
+      updatedAt: now
+    };
+    participant.rating = { before: previous?.rating ?? DEFAULT_RATING, after: rating.rating };
+    await saveRating(rating);
+  }
+}
@@ -0,0 +1,59 @@
+import { Card, PropertyCard, PropertySet, Player, ActionCard } from '../types/game.js';
+import { PROPERTY_SET_REQUIREMENTS } from './cards.js';
+import { RuleError, PaymentError } from './errors.js';
+
+// Official card restrictions beyond turn order. Each check throws with the rule that was broken.
+
+// The two ten-colour wilds have no cash value and only count alongside a real property
+export function isMulticolorWild(card: Card): boolean {
+  const prop = card as PropertyCard;
+  return card.type === 'property' && prop.isWildcard && (prop.wildcardColors?.length ?? 0) > 2;
+}
+
+export function assertCanBuild(set: PropertySet | undefined, building: 'house' | 'hotel'): asserts set is PropertySet {
+  if (set && (set.color === 'railroad' || set.color === 'utility')) {
+    throw new RuleError('CANNOT_BUILD_HERE', 'Houses and hotels cannot be built on railroads or utilities', { color: set.color });
+  }
+  if (!set?.isComplete) throw new RuleError('SET_NOT_COMPLETE', 'Set must be complete');
+
+  if (building === 'house') {
+    if (set.hasHouse) throw new RuleError('ALREADY_HAS_HOUSE', 'Set already has a house');
+  } else {
+    if (!set.hasHouse) throw new RuleError('HOUSE_REQUIRED', 'Must have a house first');
+    if (set.hasHotel) throw new RuleError('ALREADY_HAS_HOTEL', 'Set already has a hotel');
+  }
+}
+
+// `set` is the set the card would join; undefined when it would start a new one
+export function assertCanPlaceProperty(card: Card, set: PropertySet | undefined): void {
+  if (!isMulticolorWild(card)) return;
+  if (!set?.cards.some(c => c.type === 'property' && !isMulticolorWild(c))) {
+    throw new RuleError('WILD_CANNOT_START_SET', 'A multicolour wild cannot start a set on its own');
+  }
+}
+
+export function assertCanPayWith(card: Card): void {
+  if (isMulticolorWild(card)) throw new PaymentError('WILD_HAS_NO_VALUE', 'Multicolour wild properties have no cash value and cannot be used to pay');
+}
+
+// Houses and hotels stay where they are when a wildcard moves, so the set they stand on has to stay complete
+export function assertCanMoveWildcard(fromSet: PropertySet, card: Card): void {
+  if (!fromSet.hasHouse && !fromSet.hasHotel) return;
+
+  const remaining = fromSet.cards.filter(c => c.type === 'property' && c.id !== card.id).length;
+  if (remaining < PROPERTY_SET_REQUIREMENTS[fromSet.color]) {
+    throw new RuleError('WILD_BREAKS_BUILT_SET', 'Moving this wildcard would leave a house or hotel on an incomplete set');
+  }
+}
+
+// Every Double The Rent card is played as an action of its own, on top of the rent card
+export function assertCanDoubleRent(player: Player, count: number, actionsRemaining: number): void {
+  const held = player.hand.filter(c => c.type === 'action' && (c as ActionCard).action === 'doubleRent').length;
+  if (held < count) throw new RuleError('NO_DOUBLE_RENT_CARD', 'No Double The Rent card in hand', { requested: count, held });
+  if (actionsRemaining < count + 1) {
+    throw new RuleError('NOT_ENOUGH_ACTIONS', `Charging rent with ${count} Double The Rent card(s) needs ${count + 1} actions`, {
+      required: count + 1,
+      remaining: actionsRemaining
+    });
+  }
+}
@@ -0,0 +1,154 @@
+import {
+  GameState, Card, PropertyCard, ActionCard, RentCard, PropertyColor,
+  TurnPhase, GamePhase, BotDifficulty, PropertySet, GameSettings
+} from '../types/game.js';
+import { createDeck, shuffleDeck, PROPERTY_SET_REQUIREMENTS } from './cards.js';
+import { createGameSettings } from './settings.js';
+import {
+  createGameState, addPlayer, addBot, getGameRandom, getCardIds, getDecksForPlayerCount
+} from './gameLogic.js';
+import { createPropertySet } from './propertySets.js';
+
+// Cards are described with short specs and pulled out of a real deck, so a scenario can never
+// contain more copies of a card than the game has:
+//   money:5               a $5M money card
+//   property:Boardwalk    a named property
+//   property:green        any non-wild property of a colour
+//   wild:green/darkBlue   a two-colour wild property
+//   wild:any              a ten-colour wild property
+//   action:slyDeal        an action card by ActionType
+//   rent:brown/lightBlue  a two-colour rent card
+//   rent:wild             a wild rent card
+export type CardSpec = string;
+
+export interface ScenarioPropertySet {
+  color: PropertyColor;
+  cards: CardSpec[];
+  hasHouse?: boolean;
+  hasHotel?: boolean;
+}
+
+export interface ScenarioPlayer {
+  name: string;
+  id?: string;
+  isBot?: boolean;
+  botDifficulty?: BotDifficulty;
+  hand?: CardSpec[];
+  bank?: CardSpec[];
+  properties?: ScenarioPropertySet[];
+}
+
+export interface Scenario {
+  roomCode?: string;
+  seed?: string;
+  decks?: number; // Defaults to what the player count needs
+  settings?: Partial<GameSettings>;
+  players: ScenarioPlayer[];
+  deck?: CardSpec[]; // Top of the deck first; unlisted cards stay underneath in seeded order
+  discardPile?: CardSpec[];
+  phase?: GamePhase;
+  turnPhase?: TurnPhase;
+  currentPlayerIndex?: number;
+  actionsRemaining?: number;
+}
+
+export function matchesCardSpec(card: Card, spec: CardSpec): boolean {
+  const [kind, value = ''] = spec.split(':');
+
+  switch (kind) {
+    case 'money':
+      return card.type === 'money' && card.value === Number(value);
+    case 'property': {
+      const prop = card as PropertyCard;
+      if (card.type !== 'property' || prop.isWildcard) return false;
+      return prop.name === value || prop.color === value;
+    }
+    case 'wild': {
+      const prop = card as PropertyCard;
+      if (card.type !== 'property' || !prop.isWildcard || !prop.wildcardColors) return false;
+      if (value === 'any') return prop.wildcardColors.length > 2;
+      const colors = value.split('/');
+      return prop.wildcardColors.length === colors.length && colors.every(c => prop.wildcardColors!.includes(c as PropertyColor));
+    }
+    case 'action':
+      return card.type === 'action' && (card as ActionCard).action === value;
+    case 'rent': {
+      const rent = card as RentCard;
+      if (card.type !== 'rent') return false;
+      if (value === 'wild') return rent.isWildRent;
+      const colors = value.split('/');
+      return !rent.isWildRent && rent.colors.length === colors.length && colors.every(c => rent.colors.includes(c as PropertyColor));
+    }
+    default:
+      throw new Error(`Unknown card spec: ${spec}`);
+  }
+}
+
+function takeCard(pool: Card[], spec: CardSpec): Card {
+  const index = pool.findIndex(c => matchesCardSpec(c, spec));
+  if (index === -1) throw new Error(`No card left matching ${spec}`);
+  return pool.splice(index, 1)[0];
+}
+
+function buildPropertySet(state: GameState, pool: Card[], spec: ScenarioPropertySet): PropertySet {
+  const cards = spec.cards.map(cardSpec => takeCard(pool, cardSpec));
+  for (const card of cards) {
+    const prop = card as PropertyCard;
+    if (card.type !== 'property') throw new Error(`${card.name} is not a property`);
+    if (prop.isWildcard ? !prop.wildcardColors?.includes(spec.color) : prop.color !== spec.color) {
+      throw new Error(`${card.name} cannot be placed in a ${spec.color} set`);
+    }
+  }
+
+  const isComplete = cards.length >= PROPERTY_SET_REQUIREMENTS[spec.color];
+  if ((spec.hasHouse || spec.hasHotel) && !isComplete) {
+    throw new Error(`Buildings need a complete ${spec.color} set`);
+  }
+  if (spec.hasHotel && !spec.hasHouse) throw new Error('A hotel needs a house first');
+
+  // Buildings live in the set as their action cards, the same way playing them does
+  if (spec.hasHouse) cards.push(takeCard(pool, 'action:house'));
+  if (spec.hasHotel) cards.push(takeCard(pool, 'action:hotel'));
+
+  return {
+    ...createPropertySet(state, spec.color),
+    cards,
+    hasHouse: !!spec.hasHouse,
+    hasHotel: !!spec.hasHotel,
+    isComplete
+  };
+}
+
+// Build a game directly from a declarative description, for reproducing specific rule situations
+export function loadScenario(scenario: Scenario): GameState {
+  if (scenario.players.length === 0) throw new Error('Scenario needs at least one player');
+
+  const state = createGameState(scenario.roomCode || 'SCENARIO', scenario.seed, createGameSettings(scenario.settings));
+  state.decksUsed = scenario.decks ?? getDecksForPlayerCount(scenario.players.length);
+  const pool = createDeck(getCardIds(state), state.decksUsed);
+
+  for (const spec of scenario.players) {
+    const player = spec.isBot
+      ? addBot(state, spec.name, spec.botDifficulty || 'greedy', spec.id)
+      : addPlayer(state, spec.name, '', undefined, spec.id);
+    player.socketId = undefined;
+
+    player.hand = (spec.hand || []).map(cardSpec => takeCard(pool, cardSpec));
+    player.bank = (spec.bank || []).map(cardSpec => takeCard(pool, cardSpec));
+    player.properties = (spec.properties || []).map(setSpec => buildPropertySet(state, pool, setSpec));
+  }
+
+  state.discardPile = (scenario.discardPile || []).map(cardSpec => takeCard(pool, cardSpec));
+
+  // Cards are drawn from the end of the deck, so the listed top cards go last
+  const top = (scenario.deck || []).map(cardSpec => takeCard(pool, cardSpec));
+  state.deck = [...shuffleDeck(pool, getGameRandom(state)), ...top.reverse()];
+
+  state.phase = scenario.phase || 'playing';
+  state.turnPhase = scenario.turnPhase || 'action';
+  state.currentPlayerIndex = scenario.currentPlayerIndex ?? 0;
+  state.actionsRemaining = scenario.actionsRemaining ?? state.settings.actionsPerTurn;
+  state.updatedAt = new Date();
+
+  return state;
+}
@@ -0,0 +1,52 @@
+import { GameSettings, GameState } from '../types/game.js';
+import { SettingsError } from './errors.js';
+
+export const DEFAULT_SETTINGS: GameSettings = {
+  actionsPerTurn: 3,
+  handLimit: 7,
+  setsToWin: 3,
+  cardsPerDraw: 2,
+  birthdayAmount: 2,
+  debtCollectorAmount: 5,
+  turnSeconds: 120,
+  responseSeconds: 60,
+  maxSpectators: 20,
+  spectatorDelaySeconds: 0
+};
+
+// Inclusive bounds for every setting; a time limit of 0 disables that timer
+const SETTING_RANGES: Record<keyof GameSettings, [number, number]> = {
+  actionsPerTurn: [1, 5],
+  handLimit: [3, 15],
+  setsToWin: [1, 10],
+  cardsPerDraw: [1, 5],
+  birthdayAmount: [1, 10],
+  debtCollectorAmount: [1, 20],
+  turnSeconds: [0, 3600],
+  responseSeconds: [0, 600],
+  maxSpectators: [0, 50],
+  spectatorDelaySeconds: [0, 600]
+};
+
+// Fill in defaults for anything the host left out and reject unknown or out-of-range values
+export function createGameSettings(overrides: Partial<GameSettings> = {}): GameSettings {
+  if (typeof overrides !== 'object' || overrides === null) throw new SettingsError('INVALID_SETTINGS', 'Settings must be an object');
+
+  const settings: GameSettings = { ...DEFAULT_SETTINGS };
+  for (const [key, value] of Object.entries(overrides)) {
+    if (!(key in SETTING_RANGES)) throw new SettingsError('UNKNOWN_SETTING', `Unknown setting: ${key}`, { key });
+    if (value === undefined) continue;
+
+    const [min, max] = SETTING_RANGES[key as keyof GameSettings];
+    if (!Number.isInteger(value) || value < min || value > max) {
+      throw new SettingsError('SETTING_OUT_OF_RANGE', `${key} must be a whole number from ${min} to ${max}`, { key, min, max });
+    }
+    settings[key as keyof GameSettings] = value;
+  }
+  return settings;
+}
+
+// Games saved before a setting existed play by its default
+export function getGameSettings(state: GameState): GameSettings {
+  return { ...DEFAULT_SETTINGS, ...state.settings };
+}
@@ -0,0 +1,61 @@
+import { GameState, PlayerGameStats, Card, PendingAction } from '../types/game.js';
+
+// Per-player totals are kept on the game state as the game is played, so replaying the
+// event log rebuilds them along with everything else
+
+export function createPlayerStats(): PlayerGameStats {
+  return {
+    cardsPlayed: { property: 0, money: 0, action: 0, rent: 0, banked: 0 },
+    rentCollected: 0,
+    rentPaid: 0,
+    debtsCollected: 0,
+    debtsPaid: 0,
+    justSayNoPlayed: 0
+  };
+}
+
+export function getPlayerStats(state: GameState, playerId: string): PlayerGameStats {
+  state.stats = state.stats || {};
+  if (!state.stats[playerId]) state.stats[playerId] = createPlayerStats();
+  return state.stats[playerId];
+}
+
+export function recordCardPlayed(state: GameState, playerId: string, card: Card, asBank = false): void {
+  const { cardsPlayed } = getPlayerStats(state, playerId);
+  if (asBank && card.type !== 'money') {
+    cardsPlayed.banked++;
+  } else if (card.type === 'property' || card.type === 'wildcard') {
+    cardsPlayed.property++;
+  } else {
+    cardsPlayed[card.type]++;
+  }
+}
+
+// Rent is counted apart from birthdays and debt collectors
+export function recordPayment(state: GameState, action: PendingAction, payerId: string, receiverId: string, value: number): void {
+  const payer = getPlayerStats(state, payerId);
+  const receiver = getPlayerStats(state, receiverId);
+  if (action.type === 'rent') {
+    payer.rentPaid += value;
+    receiver.rentCollected += value;
+  } else {
+    payer.debtsPaid += value;
+    receiver.debtsCollected += value;
+  }
+}
+
+export function recordJustSayNo(state: GameState, playerId: string): void {
+  getPlayerStats(state, playerId).justSayNoPlayed++;
+}
+
+// Add one game's totals to another's
+export function addPlayerStats(total: PlayerGameStats, game: PlayerGameStats): void {
+  for (const key of Object.keys(total.cardsPlayed) as (keyof PlayerGameStats['cardsPlayed'])[]) {
+    total.cardsPlayed[key] += game.cardsPlayed[key];
+  }
+  total.rentCollected += game.rentCollected;
+  total.rentPaid += game.rentPaid;
+  total.debtsCollected += game.debtsCollected;
+  total.debtsPaid += game.debtsPaid;
+  total.justSayNoPlayed += game.justSayNoPlayed;
+}
@@ -0,0 +1,116 @@
+import { GameState, GameCommand, ActionResponse, PropertyCard } from '../types/game.js';
+import { getPendingResponders } from './gameLogic.js';
+import { findDealableSet } from './propertySets.js';
+import { suggestPayment } from './payment.js';
+import { getGameSettings } from './settings.js';
+import { chooseDiscards } from './bot.js';
+
+export interface TimeoutCommand {
+  playerId: string;
+  command: GameCommand;
+}
+
+function addSeconds(date: Date, seconds: number): Date {
+  return new Date(date.getTime() + seconds * 1000);
+}
+
+// Identifies the prompt players are answering. Answers to an action aimed at everyone leave it
+// unchanged, so the others keep the deadline they were given; a Just Say No asks a new question.
+function getResponseKey(state: GameState): string | null {
+  const pending = state.pendingAction;
+  if (!pending) return null;
+  const justSayNos = Object.values(pending.justSayNoChains || {}).reduce((sum, chain) => sum + chain.length, 0);
+  return `${pending.type}:${pending.fromPlayerId}:${pending.toPlayerId ?? 'all'}:${justSayNos}`;
+}
+
+// Bring the persisted deadlines in line with what the game is waiting for. Call after every
+// command. The turn clock is paused while other players respond to the current player's action.
+export function updateDeadlines(state: GameState, now: Date = new Date()): void {
+  if (state.phase !== 'playing') {
+    state.timer = null;
+    return;
+  }
+
+  const limits = getGameSettings(state);
+  let timer = state.timer;
+
+  if (!timer || timer.turnNumber !== state.turnNumber) {
+    timer = {
+      turnNumber: state.turnNumber,
+      turnDeadline: limits.turnSeconds > 0 ? addSeconds(now, limits.turnSeconds) : null,
+      responseKey: null,
+      responseDeadline: null,
+      responseStartedAt: null
+    };
+  }
+
+  const responseKey = getResponseKey(state);
+  if (responseKey !== timer.responseKey) {
+    if (!responseKey && timer.responseStartedAt && timer.turnDeadline) {
+      // Give back the time the turn was paused for
+      const paused = now.getTime() - new Date(timer.responseStartedAt).getTime();
+      timer.turnDeadline = new Date(new Date(timer.turnDeadline).getTime() + paused);
+    }
+    timer.responseKey = responseKey;
+    timer.responseDeadline = responseKey && limits.responseSeconds > 0 ? addSeconds(now, limits.responseSeconds) : null;
+    timer.responseStartedAt = responseKey ? (timer.responseStartedAt ?? now) : null;
+  }
+
+  state.timer = timer;
+}
+
+// The next deadline the server has to act on, if any
+export function getNextDeadline(state: GameState): Date | null {
+  if (state.phase !== 'playing' || !state.timer) return null;
+  const deadline = state.pendingAction ? state.timer.responseDeadline : state.timer.turnDeadline;
+  return deadline ? new Date(deadline) : null;
+}
+
+function autoResponse(state: GameState, playerId: string): ActionResponse {
+  const pending = state.pendingAction!;
+  const player = state.players.find(p => p.id === playerId)!;
+  const currentPlayer = state.players[state.currentPlayerIndex];
+
+  // The initiator is being asked whether to counter a Just Say No - let it stand
+  if (currentPlayer.id === playerId) return { accept: false };
+
+  if (pending.amount) {
+    return { accept: true, paymentCardIds: suggestPayment(player, pending.amount) };
+  }
+
+  if ((pending.type === 'slyDeal' || pending.type === 'forcedDeal') && pending.targetSet) {
+    const cheapest = findDealableSet(player, pending.targetSet, pending.targetSetId)?.cards
+      .filter(c => c.type === 'property')
+      .sort((a, b) => (a as PropertyCard).value - (b as PropertyCard).value)[0];
+    return { accept: true, selectedCardId: cheapest?.id };
+  }
+
+  return { accept: true };
+}
+
+// The action the server takes for an idle player once a deadline has passed. Keep applying
+// the returned commands (and calling updateDeadlines) until this returns null; once a response
+// deadline passes, that answers for every player who has not responded.
+export function chooseTimeoutCommand(state: GameState, now: Date = new Date()): TimeoutCommand | null {
+  const deadline = getNextDeadline(state);
+  if (!deadline || deadline.getTime() > now.getTime()) return null;
+
+  if (state.pendingAction) {
+    const playerId = getPendingResponders(state)[0];
+    if (!playerId) return null;
+    return { playerId, command: { type: 'respond', response: autoResponse(state, playerId) } };
+  }
+
+  const currentPlayer = state.players[state.currentPlayerIndex];
+  switch (state.turnPhase) {
+    case 'draw':
+      return { playerId: currentPlayer.id, command: { type: 'draw' } };
+    case 'action':
+    case 'finishing':
+      return { playerId: currentPlayer.id, command: { type: 'endTurn' } };
+    case 'discard':
+      return { playerId: currentPlayer.id, command: { type: 'discard', cardIds: chooseDiscards(currentPlayer, getGameSettings(state).handLimit, 'greedy') } };
+    default:
+      return null;
+  }
+}
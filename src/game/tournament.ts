@@ -0,0 +1,242 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  Account, GameState, Tournament, TournamentEntrant, TournamentTable, TournamentStanding, CreateTournamentOptions
+} from '../types/game.js';
+import { RandomSource } from './random.js';
+import { createGameSettings } from './settings.js';
+import { MAX_PLAYERS } from './gameLogic.js';
+import { TournamentError, NotFoundError } from './errors.js';
+
+export const MIN_ENTRANTS = 2;
+export const MAX_ENTRANTS = 64;
+const DEFAULT_TABLE_SIZE = 4;
+const MAX_ROUND_COUNT = 10;
+
+export function createTournament(organizer: Account, options: CreateTournamentOptions): Tournament {
+  const tableSize = options.tableSize ?? DEFAULT_TABLE_SIZE;
+  if (!Number.isInteger(tableSize) || tableSize < 2 || tableSize > MAX_PLAYERS) {
+    throw new TournamentError('INVALID_SETTINGS', `Table size must be from 2 to ${MAX_PLAYERS}`, { min: 2, max: MAX_PLAYERS });
+  }
+  const roundCount = options.format === 'swiss' ? options.roundCount ?? null : null;
+  if (roundCount !== null && (!Number.isInteger(roundCount) || roundCount < 1 || roundCount > MAX_ROUND_COUNT)) {
+    throw new TournamentError('INVALID_SETTINGS', `Rounds must be from 1 to ${MAX_ROUND_COUNT}`, { min: 1, max: MAX_ROUND_COUNT });
+  }
+
+  const now = new Date();
+  return {
+    id: uuidv4(),
+    name: options.name,
+    format: options.format,
+    status: 'registering',
+    organizerId: organizer.id,
+    tableSize,
+    roundCount,
+    settings: createGameSettings(options.settings),
+    entrants: [],
+    rounds: [],
+    championId: null,
+    createdAt: now,
+    updatedAt: now
+  };
+}
+
+function assertRegistering(tournament: Tournament): void {
+  if (tournament.status !== 'registering') throw new TournamentError('TOURNAMENT_STARTED', 'The tournament has already started');
+}
+
+function getEntrant(tournament: Tournament, accountId: string): TournamentEntrant {
+  const entrant = tournament.entrants.find(e => e.accountId === accountId);
+  if (!entrant) throw new NotFoundError('PLAYER_NOT_FOUND', 'Not entered in this tournament');
+  return entrant;
+}
+
+export function registerEntrant(tournament: Tournament, account: Account): void {
+  assertRegistering(tournament);
+  if (tournament.entrants.some(e => e.accountId === account.id)) return;
+  if (tournament.entrants.length >= MAX_ENTRANTS) {
+    throw new TournamentError('TOURNAMENT_FULL', 'The tournament is full', { maximum: MAX_ENTRANTS });
+  }
+
+  tournament.entrants.push({
+    accountId: account.id,
+    displayName: account.displayName,
+    status: 'active',
+    wins: 0,
+    setsCompleted: 0,
+    gamesPlayed: 0
+  });
+  tournament.updatedAt = new Date();
+}
+
+export function withdrawEntrant(tournament: Tournament, accountId: string): void {
+  assertRegistering(tournament);
+  getEntrant(tournament, accountId);
+  tournament.entrants = tournament.entrants.filter(e => e.accountId !== accountId);
+  tournament.updatedAt = new Date();
+}
+
+export function assertOrganizer(tournament: Tournament, accountId: string): void {
+  if (tournament.organizerId !== accountId) throw new TournamentError('NOT_ORGANIZER', 'Only the organizer can do that');
+}
+
+// Close registration. A Swiss tournament without a round count plays enough rounds for one
+// player to have won a table in every round of an elimination bracket.
+export function beginTournament(tournament: Tournament): void {
+  assertRegistering(tournament);
+  if (tournament.entrants.length < MIN_ENTRANTS) {
+    throw new TournamentError('NOT_ENOUGH_ENTRANTS', `Need at least ${MIN_ENTRANTS} players to start`, { minimum: MIN_ENTRANTS });
+  }
+
+  tournament.status = 'running';
+  if (tournament.format === 'swiss' && tournament.roundCount === null) {
+    tournament.roundCount = Math.max(1, Math.ceil(Math.log(tournament.entrants.length) / Math.log(tournament.tableSize)));
+  }
+  tournament.updatedAt = new Date();
+}
+
+// Split players over as few tables as the table size allows, as evenly as possible. Dealt out
+// in turn, so the first players in the list end up at different tables.
+export function seatTables(accountIds: string[], tableSize: number): string[][] {
+  const tableCount = Math.ceil(accountIds.length / tableSize);
+  const tables: string[][] = Array.from({ length: tableCount }, () => []);
+  accountIds.forEach((accountId, index) => tables[index % tableCount].push(accountId));
+  return tables;
+}
+
+// The same table sizes, filled in order, so neighbours in the list share a table
+function seatInOrder(accountIds: string[], tableSize: number): string[][] {
+  const tables: string[][] = [];
+  let start = 0;
+  for (const { length } of seatTables(accountIds, tableSize)) {
+    tables.push(accountIds.slice(start, start + length));
+    start += length;
+  }
+  return tables;
+}
+
+function shuffle<T>(values: T[], random: RandomSource): T[] {
+  const shuffled = [...values];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+// Best first: most wins, then most complete sets, then fewest games needed
+export function getStandings(tournament: Tournament): TournamentStanding[] {
+  return [...tournament.entrants]
+    .sort((a, b) => b.wins - a.wins || b.setsCompleted - a.setsCompleted || a.gamesPlayed - b.gamesPlayed)
+    .map((entrant, index) => ({ rank: index + 1, ...entrant }));
+}
+
+export function isRoundComplete(tournament: Tournament): boolean {
+  const round = tournament.rounds[tournament.rounds.length - 1];
+  return !round || round.tables.every(t => t.status === 'finished');
+}
+
+// Who plays the next round, table by table, or null when the tournament is over, in which case it
+// is marked finished. The first round is drawn at random. Later Swiss rounds seat players with
+// similar records together; elimination rounds seat the remaining winners.
+export function getNextSeatings(tournament: Tournament, random: RandomSource = Math.random): string[][] | null {
+  const active = tournament.entrants.filter(e => e.status === 'active');
+  const isOver = tournament.format === 'swiss'
+    ? tournament.rounds.length >= (tournament.roundCount ?? 0) || active.length < 2
+    : active.length < 2;
+
+  if (isOver) {
+    tournament.status = 'finished';
+    tournament.championId = tournament.format === 'swiss'
+      ? getStandings(tournament).find(s => s.status !== 'dropped')?.accountId ?? null
+      : active[0]?.accountId ?? null;
+    tournament.updatedAt = new Date();
+    return null;
+  }
+
+  const accountIds = tournament.rounds.length === 0
+    ? shuffle(active.map(e => e.accountId), random)
+    : getStandings(tournament).filter(s => s.status === 'active').map(s => s.accountId);
+  return tournament.format === 'swiss' && tournament.rounds.length > 0
+    ? seatInOrder(accountIds, tournament.tableSize)
+    : seatTables(accountIds, tournament.tableSize);
+}
+
+export function addRound(tournament: Tournament, tables: { roomCode: string; accountIds: string[] }[], checkInDeadline: Date): void {
+  tournament.rounds.push({
+    number: tournament.rounds.length + 1,
+    checkInDeadline,
+    tables: tables.map(({ roomCode, accountIds }) => ({
+      roomCode,
+      accountIds,
+      status: 'waiting',
+      winnerAccountId: null,
+      noShows: []
+    }))
+  });
+  tournament.updatedAt = new Date();
+}
+
+export function findTable(tournament: Tournament, roomCode: string): TournamentTable {
+  const table = tournament.rounds[tournament.rounds.length - 1]?.tables.find(t => t.roomCode === roomCode);
+  if (!table) throw new NotFoundError('ROOM_NOT_FOUND', 'Not a table of the current round');
+  return table;
+}
+
+export function markTablePlaying(tournament: Tournament, roomCode: string): void {
+  findTable(tournament, roomCode).status = 'playing';
+  tournament.updatedAt = new Date();
+}
+
+// Players who missed their table, or left it for good, are out of the tournament
+export function dropEntrants(tournament: Tournament, roomCode: string, accountIds: string[], noShow: boolean): void {
+  const table = findTable(tournament, roomCode);
+  for (const accountId of accountIds) {
+    getEntrant(tournament, accountId).status = 'dropped';
+    if (noShow && !table.noShows.includes(accountId)) table.noShows.push(accountId);
+  }
+  tournament.updatedAt = new Date();
+}
+
+// Record how a table ended. Everyone who took part is credited with the sets they completed; in
+// an elimination tournament only the winner stays in.
+export function recordTableResult(
+  tournament: Tournament,
+  roomCode: string,
+  winnerAccountId: string | null,
+  setsCompleted: Record<string, number> = {}
+): void {
+  const table = findTable(tournament, roomCode);
+  table.status = 'finished';
+  table.winnerAccountId = winnerAccountId;
+
+  for (const accountId of table.accountIds) {
+    if (table.noShows.includes(accountId)) continue;
+    const entrant = getEntrant(tournament, accountId);
+    entrant.gamesPlayed++;
+    entrant.setsCompleted += setsCompleted[accountId] ?? 0;
+    if (accountId === winnerAccountId) {
+      entrant.wins++;
+    } else if (tournament.format === 'singleElimination' && entrant.status === 'active') {
+      entrant.status = 'eliminated';
+    }
+  }
+  tournament.updatedAt = new Date();
+}
+
+// Credit a table's finished game to the tournament. A winner who dropped out and left their seat
+// to a bot does not advance; the entrant still at the table with the most complete sets does.
+export function recordGameResult(tournament: Tournament, state: GameState): void {
+  const table = findTable(tournament, state.roomCode);
+  const setsCompleted: Record<string, number> = {};
+  for (const player of state.players) {
+    if (player.accountId) setsCompleted[player.accountId] = player.properties.filter(s => s.isComplete).length;
+  }
+
+  const remaining = table.accountIds.filter(accountId =>
+    state.players.some(p => p.accountId === accountId) && getEntrant(tournament, accountId).status !== 'dropped');
+  const winnerAccountId = state.players.find(p => p.id === state.winner)?.accountId;
+  const winner = winnerAccountId && remaining.includes(winnerAccountId)
+    ? winnerAccountId
+    : [...remaining].sort((a, b) => setsCompleted[b] - setsCompleted[a])[0] ?? null;
+  recordTableResult(tournament, state.roomCode, winner, setsCompleted);
+}
@@ -1,11 +1,30 @@
-import express from 'express';
+import express, { Request, Response } from 'express';
 import { createServer } from 'http';
 import { Server } from 'socket.io';
 import cors from 'cors';
 import dotenv from 'dotenv';
-import { connectToDatabase } from './db/mongodb.js';
-import { setupSocketHandlers } from './socket/gameSocket.js';
-import { ServerToClientEvents, ClientToServerEvents } from './types/game.js';
+import {
+  initStorage, getGameEvents, findMatches, loadMatch, findFriendGroups, saveTournament, findTournaments
+} from './db/storage.js';
+import { summarizeAccountStats } from './game/matchHistory.js';
+import { getRatingLeaderboard, getWeeklyLeaderboard, startOfWeek } from './game/leaderboards.js';
+import { replayGameEvents } from './game/gameEvents.js';
+import { createTournament, registerEntrant, withdrawEntrant, getStandings } from './game/tournament.js';
+import { setupSocketHandlers, restoreActiveRooms, getLobbyRooms, startTournament } from './socket/gameSocket.js';
+import { getTournament, updateTournament } from './socket/tournaments.js';
+import {
+  parsePhase, parsePlayerName, parseUsername, parseAccountPassword, parseMatchQuery, parseAccountId,
+  parseLeaderboardQuery, parseGroupName, parseCreateTournamentOptions, parseTournamentStatus, parseReplayQuery
+} from './socket/validation.js';
+import {
+  registerAccount, createGuestAccount, upgradeGuestAccount, logIn, authenticate,
+  issueAccountToken, toPublicAccount
+} from './auth/accounts.js';
+import { createFriendGroup, getFriendGroup, joinFriendGroup, leaveFriendGroup } from './auth/friendGroups.js';
+import { GameError, NotFoundError, RoomError } from './game/errors.js';
+import {
+  ServerToClientEvents, ClientToServerEvents, ErrorCode, Account, GameEventRecord, GameState
+} from './types/game.js';
 
 dotenv.config();
 
@@ -32,6 +51,39 @@ app.use(cors({
 
 app.use(express.json());
 
+// Rejected requests answer with the error's code so clients can handle them like socket errors
+const ERROR_STATUS: Partial<Record<ErrorCode, number>> = {
+  AUTH_REQUIRED: 401,
+  INVALID_CREDENTIALS: 401,
+  ACCOUNT_NOT_FOUND: 404,
+  MATCH_NOT_FOUND: 404,
+  GAME_NOT_FOUND: 404,
+  GAME_NOT_FINISHED: 403,
+  GROUP_NOT_FOUND: 404,
+  TOURNAMENT_NOT_FOUND: 404,
+  NOT_ORGANIZER: 403,
+  USERNAME_TAKEN: 409
+};
+
+function sendError(res: Response, error: unknown, fallbackMessage: string): void {
+  if (error instanceof GameError) {
+    res.status(ERROR_STATUS[error.code] ?? 400).json({ error: error.message, code: error.code, params: error.params });
+    return;
+  }
+  console.error(`${fallbackMessage}:`, error);
+  res.status(500).json({ error: fallbackMessage });
+}
+
+// Account tokens are sent as "Authorization: Bearer <token>"
+function getBearerToken(req: Request): string | undefined {
+  const header = req.headers.authorization;
+  return header?.startsWith('Bearer ') ? header.slice('Bearer '.length) : undefined;
+}
+
+function sendAccount(res: Response, account: Account, status = 200): void {
+  res.status(status).json({ account: toPublicAccount(account), token: issueAccountToken(account) });
+}
+
 // Health check endpoint
 app.get('/health', (req, res) => {
   res.json({ status: 'ok', timestamp: new Date().toISOString() });
@@ -44,16 +96,297 @@ app.get('/api', (req, res) => {
     version: '1.0.0',
     endpoints: {
       health: '/health',
+      rooms: '/api/rooms',
+      accounts: '/api/accounts',
+      matches: '/api/matches',
+      leaderboards: '/api/leaderboards/global',
+      groups: '/api/groups',
+      tournaments: '/api/tournaments',
       websocket: 'ws://localhost:' + (process.env.PORT || 3001)
     }
   });
 });
 
+// Public rooms for the lobby, optionally only those in one phase (?phase=waiting)
+app.get('/api/rooms', (req, res) => {
+  try {
+    const phase = req.query.phase !== undefined ? parsePhase(req.query.phase) : undefined;
+    res.json({ rooms: getLobbyRooms(phase) });
+  } catch (error) {
+    sendError(res, error, 'Failed to list rooms');
+  }
+});
+
+app.post('/api/accounts', async (req, res) => {
+  try {
+    const username = parseUsername(req.body?.username);
+    const password = parseAccountPassword(req.body?.password);
+    const displayName = req.body?.displayName !== undefined ? parsePlayerName(req.body.displayName) : username;
+    sendAccount(res, await registerAccount(username, password, displayName), 201);
+  } catch (error) {
+    sendError(res, error, 'Failed to create account');
+  }
+});
+
+// A guest account plays without signing up and can be upgraded later
+app.post('/api/accounts/guest', async (req, res) => {
+  try {
+    const displayName = parsePlayerName(req.body?.displayName);
+    sendAccount(res, await createGuestAccount(displayName), 201);
+  } catch (error) {
+    sendError(res, error, 'Failed to create guest account');
+  }
+});
+
+app.post('/api/accounts/login', async (req, res) => {
+  try {
+    const username = parseUsername(req.body?.username);
+    const password = typeof req.body?.password === 'string' ? req.body.password : '';
+    sendAccount(res, await logIn(username, password));
+  } catch (error) {
+    sendError(res, error, 'Failed to log in');
+  }
+});
+
+app.post('/api/accounts/upgrade', async (req, res) => {
+  try {
+    const guest = await authenticate(getBearerToken(req));
+    const username = parseUsername(req.body?.username);
+    const password = parseAccountPassword(req.body?.password);
+    sendAccount(res, await upgradeGuestAccount(guest.id, username, password));
+  } catch (error) {
+    sendError(res, error, 'Failed to upgrade account');
+  }
+});
+
+app.get('/api/accounts/me', async (req, res) => {
+  try {
+    const account = await authenticate(getBearerToken(req));
+    res.json({ account: toPublicAccount(account) });
+  } catch (error) {
+    sendError(res, error, 'Failed to load account');
+  }
+});
+
+// Finished games, newest first
+app.get('/api/matches', async (req, res) => {
+  try {
+    const { filter, page } = parseMatchQuery(req.query);
+    const { matches, total } = await findMatches(filter, page);
+    res.json({ matches, total, limit: page.limit, offset: page.offset });
+  } catch (error) {
+    sendError(res, error, 'Failed to load matches');
+  }
+});
+
+app.get('/api/matches/:gameId', async (req, res) => {
+  try {
+    const match = await loadMatch(req.params.gameId);
+    if (!match) throw new NotFoundError('MATCH_NOT_FOUND', 'Match not found');
+    res.json({ match });
+  } catch (error) {
+    sendError(res, error, 'Failed to load match');
+  }
+});
+
+// Lifetime statistics for an account, optionally limited to games finished in a date range
+app.get('/api/accounts/:accountId/stats', async (req, res) => {
+  try {
+    const accountId = parseAccountId(req.params.accountId);
+    const { filter } = parseMatchQuery({ since: req.query.since, until: req.query.until, accountId });
+    const { matches } = await findMatches(filter);
+    res.json({ stats: summarizeAccountStats(accountId, matches) });
+  } catch (error) {
+    sendError(res, error, 'Failed to load statistics');
+  }
+});
+
+// Leaderboards only count rated games. The weekly board ranks by rating gained that week.
+async function sendLeaderboard(res: Response, query: Record<string, unknown>, accountIds?: string[]): Promise<void> {
+  const { period, week, page } = parseLeaderboardQuery(query);
+  const { entries, total } = period === 'week'
+    ? await getWeeklyLeaderboard(startOfWeek(week), page, accountIds)
+    : await getRatingLeaderboard(page, accountIds);
+  res.json({ entries, total, limit: page.limit, offset: page.offset });
+}
+
+app.get('/api/leaderboards/global', async (req, res) => {
+  try {
+    await sendLeaderboard(res, { ...req.query, period: 'all' });
+  } catch (error) {
+    sendError(res, error, 'Failed to load leaderboard');
+  }
+});
+
+app.get('/api/leaderboards/weekly', async (req, res) => {
+  try {
+    await sendLeaderboard(res, { ...req.query, period: 'week' });
+  } catch (error) {
+    sendError(res, error, 'Failed to load leaderboard');
+  }
+});
+
+// Friend groups the logged-in account belongs to
+app.get('/api/groups', async (req, res) => {
+  try {
+    const account = await authenticate(getBearerToken(req));
+    res.json({ groups: await findFriendGroups(account.id) });
+  } catch (error) {
+    sendError(res, error, 'Failed to load groups');
+  }
+});
+
+app.post('/api/groups', async (req, res) => {
+  try {
+    const account = await authenticate(getBearerToken(req));
+    const name = parseGroupName(req.body?.name);
+    res.status(201).json({ group: await createFriendGroup(account, name) });
+  } catch (error) {
+    sendError(res, error, 'Failed to create group');
+  }
+});
+
+app.get('/api/groups/:groupId', async (req, res) => {
+  try {
+    res.json({ group: await getFriendGroup(req.params.groupId) });
+  } catch (error) {
+    sendError(res, error, 'Failed to load group');
+  }
+});
+
+app.post('/api/groups/:groupId/join', async (req, res) => {
+  try {
+    const account = await authenticate(getBearerToken(req));
+    res.json({ group: await joinFriendGroup(req.params.groupId, account.id) });
+  } catch (error) {
+    sendError(res, error, 'Failed to join group');
+  }
+});
+
+app.post('/api/groups/:groupId/leave', async (req, res) => {
+  try {
+    const account = await authenticate(getBearerToken(req));
+    res.json({ group: await leaveFriendGroup(req.params.groupId, account.id) });
+  } catch (error) {
+    sendError(res, error, 'Failed to leave group');
+  }
+});
+
+// ?period=week ranks the group by rating gained that week
+app.get('/api/groups/:groupId/leaderboard', async (req, res) => {
+  try {
+    const group = await getFriendGroup(req.params.groupId);
+    await sendLeaderboard(res, req.query, group.memberIds);
+  } catch (error) {
+    sendError(res, error, 'Failed to load leaderboard');
+  }
+});
+
+// Newest first, optionally only those with one status (?status=running)
+app.get('/api/tournaments', async (req, res) => {
+  try {
+    const status = req.query.status !== undefined ? parseTournamentStatus(req.query.status) : undefined;
+    res.json({ tournaments: await findTournaments(status) });
+  } catch (error) {
+    sendError(res, error, 'Failed to list tournaments');
+  }
+});
+
+app.post('/api/tournaments', async (req, res) => {
+  try {
+    const account = await authenticate(getBearerToken(req));
+    const tournament = createTournament(account, parseCreateTournamentOptions(req.body));
+    await saveTournament(tournament);
+    res.status(201).json({ tournament });
+  } catch (error) {
+    sendError(res, error, 'Failed to create tournament');
+  }
+});
+
+// Rounds list each table's room code, which is where its players take their seats
+app.get('/api/tournaments/:tournamentId', async (req, res) => {
+  try {
+    const tournament = await getTournament(req.params.tournamentId);
+    res.json({ tournament, standings: getStandings(tournament) });
+  } catch (error) {
+    sendError(res, error, 'Failed to load tournament');
+  }
+});
+
+app.get('/api/tournaments/:tournamentId/standings', async (req, res) => {
+  try {
+    const tournament = await getTournament(req.params.tournamentId);
+    res.json({ standings: getStandings(tournament) });
+  } catch (error) {
+    sendError(res, error, 'Failed to load standings');
+  }
+});
+
+app.post('/api/tournaments/:tournamentId/register', async (req, res) => {
+  try {
+    const account = await authenticate(getBearerToken(req));
+    res.json({ tournament: await updateTournament(io, req.params.tournamentId, t => registerEntrant(t, account)) });
+  } catch (error) {
+    sendError(res, error, 'Failed to register');
+  }
+});
+
+app.post('/api/tournaments/:tournamentId/withdraw', async (req, res) => {
+  try {
+    const account = await authenticate(getBearerToken(req));
+    res.json({ tournament: await updateTournament(io, req.params.tournamentId, t => withdrawEntrant(t, account.id)) });
+  } catch (error) {
+    sendError(res, error, 'Failed to withdraw');
+  }
+});
+
+// Only the organizer can start, which closes registration and opens the first round's tables
+app.post('/api/tournaments/:tournamentId/start', async (req, res) => {
+  try {
+    const account = await authenticate(getBearerToken(req));
+    res.json({ tournament: await startTournament(io, req.params.tournamentId, account.id) });
+  } catch (error) {
+    sendError(res, error, 'Failed to start tournament');
+  }
+});
+
+// The log reveals every hand and the deck order, so it is only public once the game is over
+function replayFinishedGame(events: GameEventRecord[]): GameState {
+  if (events.length === 0) throw new NotFoundError('GAME_NOT_FOUND', 'Game not found');
+  const state = replayGameEvents(events);
+  if (state.phase !== 'finished') throw new RoomError('GAME_NOT_FINISHED', 'The game is not over yet');
+  return state;
+}
+
+// Event log for a game, for bug reports and post-game review
+app.get('/api/games/:gameId/events', async (req, res) => {
+  try {
+    const events = await getGameEvents(req.params.gameId);
+    replayFinishedGame(events);
+    res.json({ events });
+  } catch (error) {
+    sendError(res, error, 'Failed to load game events');
+  }
+});
+
+// Rebuild a game's full state, optionally as it was after a given event sequence number
+app.get('/api/games/:gameId/replay', async (req, res) => {
+  try {
+    const { sequence } = parseReplayQuery(req.query);
+    const events = await getGameEvents(req.params.gameId);
+    const finished = replayFinishedGame(events);
+    res.json({ state: sequence === undefined ? finished : replayGameEvents(events, sequence) });
+  } catch (error) {
+    sendError(res, error, 'Failed to replay game');
+  }
+});
+
 async function startServer() {
   try {
-    await connectToDatabase();
+    await initStorage();
     
     setupSocketHandlers(io);
+    await restoreActiveRooms(io);
 
     const PORT = process.env.PORT || 3001;
     const HOST = '0.0.0.0';
@@ -6,32 +6,120 @@ import {
   Room,
   ChatMessage,
   GameState,
+  GameEvent,
+  GameCommand,
   Player,
   Card,
   PropertyCard,
   ActionCard,
-  PropertyColor
+  PropertyColor,
+  GameSettings,
+  BotDifficulty,
+  Spectator,
+  PublicSpectator,
+  PublicGameState,
+  RoomSummary,
+  GamePhase,
+  AccountSeat,
+  Tournament
 } from '../types/game.js';
 import {
   createGameState,
   addPlayer,
+  addBot,
   removePlayer,
   startGame,
+  createShuffledDeck,
   drawCards,
   playCard,
   discardCards,
   respondToAction,
   getPublicGameState,
+  toPublicPlayer,
+  toPublicPendingAction,
   endTurnEarly,
-  rearrangeProperty
+  rearrangeProperty,
+  getHost,
+  isHost,
+  reassignHost,
+  transferHost,
+  replaceWithBot,
+  assertCanStart,
+  voteRematch,
+  isRematchAgreed,
+  getRematchPlayers,
+  chooseRematchStarter,
+  resetForRematch,
+  MAX_PLAYERS
 } from '../game/gameLogic.js';
 import {
   saveGameState,
   loadGameState,
   deleteGameState,
   saveChatMessage,
-  getChatMessages
-} from '../db/mongodb.js';
+  getChatMessages,
+  appendGameEvent,
+  countGameEvents,
+  loadActiveGameStates,
+  saveMatch,
+  loadMatch,
+  loadAccount,
+  findTournaments
+} from '../db/storage.js';
+import { buildMatchRecord } from '../game/matchHistory.js';
+import { rateMatch } from '../game/ratings.js';
+import {
+  assertOrganizer,
+  beginTournament,
+  getNextSeatings,
+  getStandings,
+  addRound,
+  markTablePlaying,
+  dropEntrants,
+  recordGameResult,
+  isRoundComplete
+} from '../game/tournament.js';
+import { createGameSettings, getGameSettings } from '../game/settings.js';
+import { updateDeadlines, getNextDeadline, chooseTimeoutCommand } from '../game/timers.js';
+import { applyGameCommand, takeReshuffles } from '../game/gameEvents.js';
+import {
+  issueSessionToken,
+  verifySessionToken,
+  findPlayerForToken,
+  revokeSessionTokens
+} from '../auth/sessionToken.js';
+import { hashPassword, verifyPassword } from '../auth/password.js';
+import { verifyAccountToken } from '../auth/accounts.js';
+import { chooseBotCommand, getNextBotToAct } from '../game/bot.js';
+import { getLegalMoves } from '../game/legalMoves.js';
+import { runInRoomQueue } from './roomQueue.js';
+import { LOBBY_CHANNEL, listRooms, updateLobby, removeFromLobby } from './lobby.js';
+import { tournamentChannel, getTournament, updateTournament } from './tournaments.js';
+import { GameError, RoomError, NotFoundError, AccountError, toErrorInfo } from '../game/errors.js';
+import {
+  isCallback,
+  parsePlayerName,
+  parseRoomCode,
+  parseSessionToken,
+  parseCreateRoomOptions,
+  parseBotDifficulty,
+  parsePlayerId,
+  parseCardId,
+  parseCardIds,
+  parseColor,
+  parseOptionalSetId,
+  parsePlayCardTarget,
+  parseActionResponse,
+  parseChatMessage,
+  parseVisibility,
+  parseRoomPassword,
+  parseOptionalRoomPassword,
+  parseFlag,
+  parseRematchStarter,
+  parseTournamentId
+} from './validation.js';
+
+type RoomChannel = ReturnType<Server<ClientToServerEvents, ServerToClientEvents>['to']>;
 
 // Property color display names
 const COLOR_NAMES: Record<PropertyColor, string> = {
@@ -50,6 +138,24 @@ const COLOR_NAMES: Record<PropertyColor, string> = {
 // In-memory room storage for active games
 const rooms: Map<string, Room> = new Map();
 const playerRooms: Map<string, string> = new Map();
+const spectatorRooms: Map<string, string> = new Map();
+const botTimers: Map<string, NodeJS.Timeout> = new Map();
+const deadlineTimers: Map<string, NodeJS.Timeout> = new Map();
+const hostTimers: Map<string, NodeJS.Timeout> = new Map();
+const checkInTimers: Map<string, NodeJS.Timeout> = new Map();
+// Keyed by player id
+const forfeitTimers: Map<string, NodeJS.Timeout> = new Map();
+
+// Delay between bot moves so humans can follow what happened
+const BOT_MOVE_DELAY_MS = 1200;
+// How long a host who dropped out of a game has to come back before someone else becomes host
+const HOST_RECONNECT_GRACE_MS = 60000;
+// Who plays the seat of a player kicked during a game, or of a tournament player who forfeits
+const KICKED_PLAYER_BOT: BotDifficulty = 'greedy';
+// How long tournament players have to take their seats once a round is drawn
+const TOURNAMENT_CHECK_IN_MS = 5 * 60 * 1000;
+// How long a tournament player who dropped out of a game has to come back before they forfeit
+const TOURNAMENT_FORFEIT_GRACE_MS = 2 * 60 * 1000;
 
 function generateRoomCode(): string {
   const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
@@ -60,6 +166,14 @@ function generateRoomCode(): string {
   return code;
 }
 
+async function generateUniqueRoomCode(): Promise<string> {
+  let roomCode = generateRoomCode();
+  while (rooms.has(roomCode) || await loadGameState(roomCode)) {
+    roomCode = generateRoomCode();
+  }
+  return roomCode;
+}
+
 async function sendGameLog(
   io: Server<ClientToServerEvents, ServerToClientEvents>,
   room: Room,
@@ -76,6 +190,53 @@ async function sendGameLog(
   room.chatMessages.push(logMessage);
   await saveChatMessage(room.code, logMessage);
   io.to(room.code).emit('chatMessage', logMessage);
+  emitToSpectators(io, room, channel => channel.emit('chatMessage', logMessage));
+}
+
+// Spectators have their own socket.io room, so nothing sent to the players reaches them by accident
+function spectatorChannel(roomCode: string): string {
+  return `${roomCode}:spectators`;
+}
+
+// Send to the room's spectators, held back by the room's spectator delay. Anything sent late
+// must be a snapshot, since the game keeps changing in the meantime.
+function emitToSpectators(
+  io: Server<ClientToServerEvents, ServerToClientEvents>,
+  room: Room,
+  send: (channel: RoomChannel) => void
+): void {
+  if (room.spectators.length === 0) return;
+  const delay = getGameSettings(room.gameState).spectatorDelaySeconds * 1000;
+  const channel = io.to(spectatorChannel(room.code));
+  if (delay === 0) {
+    send(channel);
+  } else {
+    setTimeout(() => send(channel), delay);
+  }
+}
+
+// Every hand is hidden from spectators
+function getSpectatorGameState(room: Room): PublicGameState {
+  return structuredClone(getPublicGameState(room.gameState));
+}
+
+function toPublicSpectator(spectator: Spectator): PublicSpectator {
+  return { id: spectator.id, name: spectator.name };
+}
+
+// Players and spectators both see who is watching
+function emitSpectators(
+  io: Server<ClientToServerEvents, ServerToClientEvents>,
+  room: Room
+): void {
+  const spectators = room.spectators.map(toPublicSpectator);
+  io.to(room.code).to(spectatorChannel(room.code)).emit('spectators', spectators);
+  updateLobby(io, room);
+}
+
+// Public rooms for the lobby listing
+export function getLobbyRooms(phase?: GamePhase): RoomSummary[] {
+  return listRooms(rooms.values(), phase);
 }
 
 async function getOrCreateRoom(roomCode: string): Promise<Room | null> {
@@ -87,7 +248,9 @@ async function getOrCreateRoom(roomCode: string): Promise<Room | null> {
     room = {
       code: roomCode,
       gameState: savedState,
-      chatMessages: await getChatMessages(roomCode)
+      chatMessages: await getChatMessages(roomCode),
+      eventSequence: await countGameEvents(savedState.id),
+      spectators: []
     };
     rooms.set(roomCode, room);
     return room;
@@ -95,7 +258,27 @@ async function getOrCreateRoom(roomCode: string): Promise<Room | null> {
   return null;
 }
 
-function getCardDescription(card: Card, target?: { propertySetColor?: PropertyColor; playerId?: string; asBank?: boolean }, players?: Player[]): string {
+// Every save raises the state version, so clients can tell a stale update from a newer one
+async function saveRoomState(room: Room): Promise<void> {
+  room.gameState.version = (room.gameState.version || 0) + 1;
+  await saveGameState(room.gameState);
+}
+
+// Append a state-changing event to the game's log, along with any reshuffles it caused and
+// the state version it produced. Call it after saveRoomState.
+async function recordGameEvent(room: Room, event: GameEvent): Promise<void> {
+  await appendGameEvent({
+    gameId: room.gameState.id,
+    roomCode: room.code,
+    sequence: room.eventSequence++,
+    timestamp: new Date(),
+    event,
+    reshuffles: takeReshuffles(room.gameState),
+    stateVersion: room.gameState.version
+  });
+}
+
+function getCardDescription(card: Card, target: { propertySetColor?: PropertyColor; playerId?: string; asBank?: boolean } | undefined, state: GameState): string {
   if (target?.asBank) {
     return `$${card.value}M to bank`;
   }
@@ -114,13 +297,14 @@ function getCardDescription(card: Card, target?: { propertySetColor?: PropertyCo
   
   if (card.type === 'action') {
     const action = card as ActionCard;
-    const targetPlayer = players?.find(p => p.id === target?.playerId);
+    const targetPlayer = state.players.find(p => p.id === target?.playerId);
+    const settings = getGameSettings(state);
     const colorName = target?.propertySetColor ? COLOR_NAMES[target.propertySetColor] : '';
     
     switch (action.action) {
       case 'passGo': return 'Pass Go (drew 2 cards)';
-      case 'birthday': return "It's My Birthday! ($2M from everyone)";
-      case 'debtCollector': return `Debt Collector ($5M from ${targetPlayer?.name || 'opponent'})`;
+      case 'birthday': return `It's My Birthday! ($${settings.birthdayAmount}M from everyone)`;
+      case 'debtCollector': return `Debt Collector ($${settings.debtCollectorAmount}M from ${targetPlayer?.name || 'opponent'})`;
       case 'slyDeal': return `Sly Deal (stole ${colorName} property from ${targetPlayer?.name || 'opponent'})`;
       case 'forcedDeal': return `Forced Deal (traded with ${targetPlayer?.name || 'opponent'})`;
       case 'dealBreaker': return `Deal Breaker (stole ${colorName} set from ${targetPlayer?.name || 'opponent'})`;
@@ -131,7 +315,7 @@ function getCardDescription(card: Card, target?: { propertySetColor?: PropertyCo
   }
   
   if (card.type === 'rent') {
-    const targetPlayer = players?.find(p => p.id === target?.playerId);
+    const targetPlayer = state.players.find(p => p.id === target?.playerId);
     if (targetPlayer) {
       return `Rent (charged ${targetPlayer.name})`;
     }
@@ -141,33 +325,715 @@ function getCardDescription(card: Card, target?: { propertySetColor?: PropertyCo
   return card.name;
 }
 
+// Errors go back through the request's acknowledgement callback when the client sent one, so it
+// knows which request failed, and as an error event otherwise
+function reportError(socket: Socket<ClientToServerEvents, ServerToClientEvents>, error: unknown, ack?: unknown): void {
+  if (!(error instanceof GameError)) console.error('Unexpected error handling a request:', error);
+  const info = toErrorInfo(error);
+  if (isCallback(ack)) {
+    ack({ success: false, error: info });
+  } else {
+    socket.emit('error', info);
+  }
+}
+
+function acknowledge(ack?: unknown): void {
+  if (isCallback(ack)) ack({ success: true });
+}
+
+// The room and player behind a socket
+function getSocketSeat(socket: Socket<ClientToServerEvents, ServerToClientEvents>): { roomCode: string; room: Room; player: Player } {
+  if (spectatorRooms.has(socket.id)) throw new RoomError('SPECTATORS_CANNOT_PLAY', 'Spectators cannot take part in the game');
+  const roomCode = playerRooms.get(socket.id);
+  const room = roomCode ? rooms.get(roomCode) : undefined;
+  const player = room?.gameState.players.find(p => p.socketId === socket.id);
+  if (!roomCode || !room || !player) throw new RoomError('NOT_IN_ROOM', 'You are not in a room');
+  return { roomCode, room, player };
+}
+
+// Tournament tables have no host to start, change or refill them
+function assertHost(room: Room, player: Player, message: string): void {
+  if (room.gameState.tournamentId) throw new RoomError('TOURNAMENT_ROOM', 'Tournament tables are run by the tournament');
+  if (!isHost(room.gameState, player.id)) throw new RoomError('NOT_HOST', message);
+}
+
+// Rooms with a password need it to join or watch
+async function assertRoomPassword(room: Room, password: string | undefined): Promise<void> {
+  const { passwordHash } = room.gameState;
+  if (!passwordHash) return;
+  if (!password || !await verifyPassword(password, passwordHash)) {
+    throw new RoomError('WRONG_PASSWORD', 'Wrong room password');
+  }
+}
+
+// Set when the socket connected with an account token
+function getSocketAccountId(socket: Socket<ClientToServerEvents, ServerToClientEvents>): string | undefined {
+  return socket.data.accountId;
+}
+
+// Sockets may connect with an account token in their handshake auth. Anonymous sockets are
+// still allowed in; a token that is forged, expired or for a deleted account is not.
+async function authenticateSocket(
+  socket: Socket<ClientToServerEvents, ServerToClientEvents>,
+  next: (error?: Error) => void
+): Promise<void> {
+  const token = socket.handshake.auth?.token;
+  if (token === undefined) return next();
+
+  try {
+    const accountId = typeof token === 'string' ? verifyAccountToken(token) : null;
+    if (!accountId || !await loadAccount(accountId)) return next(new Error('AUTH_REQUIRED'));
+    socket.data.accountId = accountId;
+    next();
+  } catch (error) {
+    console.error('Error authenticating socket:', error);
+    next(new Error('SERVER_ERROR'));
+  }
+}
+
+// Put a socket back in a seat the player already has, taking over from any stale connection
+async function takeSeat(
+  io: Server<ClientToServerEvents, ServerToClientEvents>,
+  socket: Socket<ClientToServerEvents, ServerToClientEvents>,
+  room: Room,
+  player: Player
+): Promise<void> {
+  if (player.socketId && player.socketId !== socket.id) {
+    playerRooms.delete(player.socketId);
+    io.sockets.sockets.get(player.socketId)?.leave(room.code);
+  }
+
+  clearTimeout(forfeitTimers.get(player.id));
+  forfeitTimers.delete(player.id);
+  player.isConnected = true;
+  player.socketId = socket.id;
+  playerRooms.set(socket.id, room.code);
+  socket.join(room.code);
+
+  await saveRoomState(room);
+  await sendGameLog(io, room, `${player.name} reconnected`);
+}
+
+// A socket plays in or watches one room at a time
+function assertNotInRoom(socket: Socket<ClientToServerEvents, ServerToClientEvents>): void {
+  if (playerRooms.has(socket.id) || spectatorRooms.has(socket.id)) {
+    throw new RoomError('ALREADY_IN_ROOM', 'Leave your current room first');
+  }
+}
+function emitGameState(
+  io: Server<ClientToServerEvents, ServerToClientEvents>,
+  room: Room
+): void {
+  room.gameState.players.forEach(p => {
+    if (p.socketId) {
+      io.to(p.socketId).emit('gameState', getPublicGameState(room.gameState, p.id));
+    }
+  });
+
+  const spectatorState = getSpectatorGameState(room);
+  emitToSpectators(io, room, channel => channel.emit('gameState', spectatorState));
+  updateLobby(io, room);
+}
+
+// Rooms that finish at the same time may share players, so their ratings are updated one room at a time
+const RATINGS_QUEUE = ':ratings';
+
+// Store the finished game's result, unless that has already been done
+async function archiveMatch(room: Room): Promise<void> {
+  if (await loadMatch(room.gameState.id)) return;
+  const match = buildMatchRecord(room.gameState);
+  await runInRoomQueue(RATINGS_QUEUE, () => rateMatch(match));
+  await saveMatch(match);
+}
+
+// A history that failed to save must not stop the players from seeing the result; a rematch tries again
+async function recordMatch(room: Room): Promise<void> {
+  try {
+    await archiveMatch(room);
+  } catch (error) {
+    console.error(`Error recording match for room ${room.code}:`, error);
+  }
+}
+
+async function announceWinner(
+  io: Server<ClientToServerEvents, ServerToClientEvents>,
+  room: Room
+): Promise<void> {
+  const winner = room.gameState.players.find(p => p.id === room.gameState.winner);
+  if (!winner) return;
+  await recordMatch(room);
+  await sendGameLog(io, room, `🏆 ${winner.name} WINS THE GAME! 🎉`);
+  io.to(room.code).emit('gameOver', winner.id, winner.name);
+  emitToSpectators(io, room, channel => channel.emit('gameOver', winner.id, winner.name));
+  await reportTableResult(io, room);
+}
+
+// Tell the tournament how one of its tables ended, and draw the next round once every table has
+async function reportTableResult(
+  io: Server<ClientToServerEvents, ServerToClientEvents>,
+  room: Room
+): Promise<void> {
+  const { tournamentId } = room.gameState;
+  if (!tournamentId) return;
+  try {
+    await updateTournament(io, tournamentId, async tournament => {
+      recordGameResult(tournament, room.gameState);
+      if (isRoundComplete(tournament)) await openNextRound(io, tournament);
+    });
+  } catch (error) {
+    console.error(`Error reporting the result of room ${room.code} to its tournament:`, error);
+  }
+}
+
+// Close registration and seat the first round
+export function startTournament(
+  io: Server<ClientToServerEvents, ServerToClientEvents>,
+  tournamentId: string,
+  accountId: string
+): Promise<Tournament> {
+  return updateTournament(io, tournamentId, async tournament => {
+    assertOrganizer(tournament, accountId);
+    beginTournament(tournament);
+    await openNextRound(io, tournament);
+  });
+}
+
+// Draw the next round and open a room for each of its tables, or finish the tournament when it
+// is over. Runs inside an update of the tournament.
+async function openNextRound(
+  io: Server<ClientToServerEvents, ServerToClientEvents>,
+  tournament: Tournament
+): Promise<void> {
+  const seatings = getNextSeatings(tournament);
+  if (!seatings) return;
+
+  const checkInDeadline = new Date(Date.now() + TOURNAMENT_CHECK_IN_MS);
+  const tables: { roomCode: string; accountIds: string[] }[] = [];
+  for (const accountIds of seatings) {
+    const roomCode = await generateUniqueRoomCode();
+    await openTournamentTable(io, tournament, roomCode, accountIds, checkInDeadline);
+    tables.push({ roomCode, accountIds });
+  }
+  addRound(tournament, tables, checkInDeadline);
+}
+
+// A tournament table is a private, locked room with a seat kept for each of its players, who
+// take it with resumeSeat. The game starts once everyone is seated or check-in closes.
+async function openTournamentTable(
+  io: Server<ClientToServerEvents, ServerToClientEvents>,
+  tournament: Tournament,
+  roomCode: string,
+  accountIds: string[],
+  checkInDeadline: Date
+): Promise<void> {
+  const gameState = createGameState(roomCode, undefined, tournament.settings);
+  gameState.visibility = 'private';
+  gameState.locked = true;
+  gameState.tournamentId = tournament.id;
+  const room: Room = {
+    code: roomCode,
+    gameState,
+    chatMessages: [],
+    eventSequence: 0,
+    spectators: []
+  };
+  rooms.set(roomCode, room);
+
+  for (const accountId of accountIds) {
+    const entrant = tournament.entrants.find(e => e.accountId === accountId)!;
+    const player = addPlayer(gameState, entrant.displayName, '', accountId);
+    player.isConnected = false;
+    player.socketId = undefined;
+  }
+  await saveRoomState(room);
+  for (const player of gameState.players) {
+    await recordGameEvent(room, { type: 'playerJoined', playerId: player.id, name: player.name, accountId: player.accountId });
+  }
+
+  await sendGameLog(io, room, `🏆 ${tournament.name}, round ${tournament.rounds.length + 1}: the game starts once everyone has taken their seat`);
+  scheduleCheckIn(io, room, checkInDeadline);
+}
+
+async function startTournamentTable(
+  io: Server<ClientToServerEvents, ServerToClientEvents>,
+  room: Room
+): Promise<void> {
+  clearTimeout(checkInTimers.get(room.code));
+  checkInTimers.delete(room.code);
+
+  const deck = createShuffledDeck(room.gameState);
+  startGame(room.gameState, deck);
+  updateDeadlines(room.gameState);
+  await saveRoomState(room);
+  await recordGameEvent(room, { type: 'gameStarted', deck, settings: room.gameState.settings });
+  await updateTournament(io, room.gameState.tournamentId!, tournament => markTablePlaying(tournament, room.code));
+
+  await sendGameLog(io, room, `🎮 Game started! ${room.gameState.players[room.gameState.currentPlayerIndex].name}'s turn`);
+  emitGameState(io, room);
+  scheduleRoomTimers(io, room);
+}
+
+async function startTournamentTableIfReady(
+  io: Server<ClientToServerEvents, ServerToClientEvents>,
+  room: Room
+): Promise<void> {
+  const state = room.gameState;
+  if (!state.tournamentId || state.phase !== 'waiting' || state.players.some(p => !p.isConnected)) return;
+  try {
+    await startTournamentTable(io, room);
+  } catch (error) {
+    console.error(`Error starting tournament table ${room.code}:`, error);
+  }
+}
+
+function scheduleCheckIn(
+  io: Server<ClientToServerEvents, ServerToClientEvents>,
+  room: Room,
+  deadline: Date
+): void {
+  clearTimeout(checkInTimers.get(room.code));
+  const timer = setTimeout(() => runInRoomQueue(room.code, async () => {
+    checkInTimers.delete(room.code);
+    if (rooms.get(room.code) !== room) return;
+    try {
+      await closeCheckIn(io, room);
+    } catch (error) {
+      console.error(`Error closing check-in in room ${room.code}:`, error);
+    }
+  }), Math.max(0, deadline.getTime() - Date.now()));
+  checkInTimers.set(room.code, timer);
+}
+
+// Once check-in closes, players who are not in their seat are out of the tournament as no-shows.
+// The others play, or the last one left wins by walkover.
+async function closeCheckIn(
+  io: Server<ClientToServerEvents, ServerToClientEvents>,
+  room: Room
+): Promise<void> {
+  const state = room.gameState;
+  if (!state.tournamentId || state.phase !== 'waiting') return;
+
+  const absent = state.players.filter(p => !p.isConnected);
+  for (const player of absent) {
+    removePlayer(state, player.id);
+    await saveRoomState(room);
+    await recordGameEvent(room, { type: 'playerLeft', playerId: player.id });
+    io.to(room.code).emit('playerLeft', player.id);
+  }
+  if (absent.length > 0) {
+    await updateTournament(io, state.tournamentId, tournament =>
+      dropEntrants(tournament, room.code, absent.map(p => p.accountId!), true));
+    await sendGameLog(io, room, `⏰ ${absent.map(p => p.name).join(', ')} did not take their seat in time`);
+  }
+
+  if (state.players.length >= 2) {
+    await startTournamentTable(io, room);
+    return;
+  }
+
+  const [walkover] = state.players;
+  state.phase = 'finished';
+  state.winner = walkover?.id ?? null;
+  state.updatedAt = new Date();
+  await saveRoomState(room);
+  if (walkover) await sendGameLog(io, room, `🏆 ${walkover.name} wins by walkover`);
+  emitGameState(io, room);
+  await reportTableResult(io, room);
+}
+
+// A tournament player who dropped out of a game has a while to come back. After that a bot plays
+// out their seat and they are out of the tournament.
+function scheduleForfeit(
+  io: Server<ClientToServerEvents, ServerToClientEvents>,
+  room: Room,
+  playerId: string,
+  delay = TOURNAMENT_FORFEIT_GRACE_MS
+): void {
+  clearTimeout(forfeitTimers.get(playerId));
+  const timer = setTimeout(() => runInRoomQueue(room.code, async () => {
+    forfeitTimers.delete(playerId);
+    if (rooms.get(room.code) !== room || room.gameState.phase !== 'playing') return;
+    const player = room.gameState.players.find(p => p.id === playerId);
+    if (!player || player.isConnected || player.isBot) return;
+
+    try {
+      const { name, accountId } = player;
+      // They are out of the tournament, so their old token must not seat them next to the bot
+      revokeSessionTokens(player);
+      replaceWithBot(room.gameState, player.id, KICKED_PLAYER_BOT);
+      updateDeadlines(room.gameState);
+      await saveRoomState(room);
+      await recordGameEvent(room, { type: 'playerReplacedByBot', playerId: player.id, botDifficulty: KICKED_PLAYER_BOT });
+      await updateTournament(io, room.gameState.tournamentId!, tournament =>
+        dropEntrants(tournament, room.code, [accountId!], false));
+
+      await sendGameLog(io, room, `🏳️ ${name} forfeited; a bot plays out their seat`);
+      emitGameState(io, room);
+      scheduleRoomTimers(io, room);
+    } catch (error) {
+      console.error(`Error forfeiting a player in room ${room.code}:`, error);
+    }
+  }), delay);
+  forfeitTimers.set(playerId, timer);
+}
+
+// Play again in the same room with everyone still at the table. The finished game is archived
+// first, and the new game gets its own id and event log.
+async function startRematch(
+  io: Server<ClientToServerEvents, ServerToClientEvents>,
+  room: Room
+): Promise<void> {
+  const state = room.gameState;
+  const players = getRematchPlayers(state);
+  assertCanStart(state, players);
+  await archiveMatch(room);
+
+  const startingPlayerId = chooseRematchStarter(state, players);
+  const leaving = state.players.filter(p => !players.includes(p));
+  const hostId = getHost(state)?.id;
+  resetForRematch(state, players);
+
+  room.eventSequence = 0;
+  for (const player of state.players) {
+    await recordGameEvent(room, player.isBot
+      ? { type: 'playerJoined', playerId: player.id, name: player.name, isBot: true, botDifficulty: player.botDifficulty }
+      : { type: 'playerJoined', playerId: player.id, name: player.name, accountId: player.accountId });
+  }
+
+  const deck = createShuffledDeck(state);
+  startGame(state, deck, startingPlayerId);
+  updateDeadlines(state);
+  await saveRoomState(room);
+  await recordGameEvent(room, { type: 'gameStarted', deck, settings: state.settings, startingPlayerId });
+
+  leaving.forEach(player => io.to(room.code).emit('playerLeft', player.id));
+  await sendGameLog(io, room, `🔁 Rematch! ${state.players[state.currentPlayerIndex].name}'s turn`);
+  if (getHost(state)?.id !== hostId) await announceHost(io, room);
+  emitGameState(io, room);
+  scheduleRoomTimers(io, room);
+}
+
+async function logBotCommand(
+  io: Server<ClientToServerEvents, ServerToClientEvents>,
+  room: Room,
+  bot: Player,
+  command: GameCommand,
+  card?: Card
+): Promise<void> {
+  switch (command.type) {
+    case 'draw':
+      await sendGameLog(io, room, `${bot.name} drew cards`);
+      break;
+    case 'play':
+      if (card) {
+        const verb = command.target?.asBank ? 'banked' : 'played';
+        await sendGameLog(io, room, `🤖 ${bot.name} ${verb} ${getCardDescription(card, command.target, room.gameState)}`);
+      }
+      break;
+    case 'respond':
+      if (command.response.useJustSayNo) {
+        await sendGameLog(io, room, `🚫 ${bot.name} played Just Say No!`);
+      } else if (command.response.targetPlayerId) {
+        await sendGameLog(io, room, `${bot.name} let the Just Say No stand`);
+      } else if (command.response.paymentCardIds && command.response.paymentCardIds.length > 0) {
+        await sendGameLog(io, room, `💸 ${bot.name} paid with ${command.response.paymentCardIds.length} card(s)`);
+      } else {
+        await sendGameLog(io, room, `${bot.name} ${command.response.accept ? 'accepted' : 'declined'} the action`);
+      }
+      break;
+    case 'discard': {
+      const nextPlayer = room.gameState.players[room.gameState.currentPlayerIndex];
+      await sendGameLog(io, room, `${bot.name} discarded ${command.cardIds.length} card(s). ${nextPlayer.name}'s turn`);
+      break;
+    }
+    case 'rearrange':
+      await sendGameLog(io, room, `🔄 ${bot.name} moved a wildcard from ${COLOR_NAMES[command.fromColor]} to ${COLOR_NAMES[command.toColor]}`);
+      break;
+    case 'endTurn': {
+      const nextPlayer = room.gameState.players[room.gameState.currentPlayerIndex];
+      if (room.gameState.turnPhase === 'discard') {
+        await sendGameLog(io, room, `${bot.name} must discard to ${getGameSettings(room.gameState).handLimit} cards`);
+      } else {
+        await sendGameLog(io, room, `${bot.name} ended turn. ${nextPlayer.name}'s turn`);
+      }
+      break;
+    }
+  }
+}
+
+// Queue the next bot move for a room, if a bot is expected to act
+function scheduleBots(
+  io: Server<ClientToServerEvents, ServerToClientEvents>,
+  room: Room
+): void {
+  if (botTimers.has(room.code)) return;
+  if (!getNextBotToAct(room.gameState)) return;
+
+  const timer = setTimeout(() => runInRoomQueue(room.code, async () => {
+    botTimers.delete(room.code);
+    await runBotMove(io, room);
+    scheduleRoomTimers(io, room);
+  }), BOT_MOVE_DELAY_MS);
+  botTimers.set(room.code, timer);
+}
+
+// Act for idle players once the turn or response deadline passes
+function scheduleDeadline(
+  io: Server<ClientToServerEvents, ServerToClientEvents>,
+  room: Room
+): void {
+  clearTimeout(deadlineTimers.get(room.code));
+  deadlineTimers.delete(room.code);
+
+  const deadline = getNextDeadline(room.gameState);
+  if (!deadline) return;
+
+  const timer = setTimeout(() => runInRoomQueue(room.code, async () => {
+    deadlineTimers.delete(room.code);
+    await runTimeouts(io, room);
+    scheduleRoomTimers(io, room);
+  }), Math.max(0, deadline.getTime() - Date.now()));
+  deadlineTimers.set(room.code, timer);
+}
+
+function scheduleRoomTimers(
+  io: Server<ClientToServerEvents, ServerToClientEvents>,
+  room: Room
+): void {
+  scheduleBots(io, room);
+  scheduleDeadline(io, room);
+}
+
+function clearRoomTimers(roomCode: string): void {
+  clearTimeout(botTimers.get(roomCode));
+  botTimers.delete(roomCode);
+  clearTimeout(deadlineTimers.get(roomCode));
+  deadlineTimers.delete(roomCode);
+  clearTimeout(hostTimers.get(roomCode));
+  hostTimers.delete(roomCode);
+  clearTimeout(checkInTimers.get(roomCode));
+  checkInTimers.delete(roomCode);
+}
+
+// Give a host who dropped out of a game time to reconnect before handing the room to someone else
+function scheduleHostReassignment(
+  io: Server<ClientToServerEvents, ServerToClientEvents>,
+  room: Room,
+  hostId: string
+): void {
+  clearTimeout(hostTimers.get(room.code));
+  const timer = setTimeout(() => runInRoomQueue(room.code, async () => {
+    hostTimers.delete(room.code);
+    if (rooms.get(room.code) !== room) return;
+    const host = room.gameState.players.find(p => p.id === hostId);
+    if (!host || host.isConnected || !isHost(room.gameState, hostId)) return;
+
+    reassignHost(room.gameState);
+    await saveRoomState(room);
+    await announceHost(io, room);
+    emitGameState(io, room);
+  }), HOST_RECONNECT_GRACE_MS);
+  hostTimers.set(room.code, timer);
+}
+
+async function announceHost(
+  io: Server<ClientToServerEvents, ServerToClientEvents>,
+  room: Room
+): Promise<void> {
+  const host = getHost(room.gameState);
+  if (host) await sendGameLog(io, room, `👑 ${host.name} is now the host`);
+}
+
+async function logTimeoutCommand(
+  io: Server<ClientToServerEvents, ServerToClientEvents>,
+  room: Room,
+  player: Player,
+  command: GameCommand
+): Promise<void> {
+  const nextPlayer = room.gameState.players[room.gameState.currentPlayerIndex];
+  switch (command.type) {
+    case 'draw':
+      await sendGameLog(io, room, `⏰ ${player.name} ran out of time and drew cards`);
+      break;
+    case 'endTurn':
+      if (room.gameState.turnPhase !== 'discard') {
+        await sendGameLog(io, room, `⏰ ${player.name} ran out of time. ${nextPlayer.name}'s turn`);
+      }
+      break;
+    case 'discard':
+      await sendGameLog(io, room, `⏰ ${player.name} ran out of time and discarded ${command.cardIds.length} card(s). ${nextPlayer.name}'s turn`);
+      break;
+    case 'respond':
+      if (command.response.paymentCardIds && command.response.paymentCardIds.length > 0) {
+        await sendGameLog(io, room, `⏰ ${player.name} ran out of time and paid with ${command.response.paymentCardIds.length} card(s)`);
+      } else {
+        await sendGameLog(io, room, `⏰ ${player.name} ran out of time and ${command.response.accept ? 'accepted' : 'declined'} the action`);
+      }
+      break;
+  }
+}
+
+async function runTimeouts(
+  io: Server<ClientToServerEvents, ServerToClientEvents>,
+  room: Room
+): Promise<void> {
+  if (rooms.get(room.code) !== room) return;
+
+  try {
+    let acted = false;
+    let timeout = chooseTimeoutCommand(room.gameState);
+    while (timeout) {
+      const { playerId, command } = timeout;
+      const player = room.gameState.players.find(p => p.id === playerId);
+      if (!player) break;
+
+      applyGameCommand(room.gameState, playerId, command);
+      updateDeadlines(room.gameState);
+      await saveRoomState(room);
+      await recordGameEvent(room, { ...command, playerId });
+      await logTimeoutCommand(io, room, player, command);
+      acted = true;
+
+      timeout = chooseTimeoutCommand(room.gameState);
+    }
+    if (!acted) return;
+
+    await announceWinner(io, room);
+
+    emitGameState(io, room);
+  } catch (error) {
+    console.error(`Error handling timeout in room ${room.code}:`, error);
+  }
+}
+
+// Reload games that were in progress before a restart so their deadlines keep running
+export async function restoreActiveRooms(
+  io: Server<ClientToServerEvents, ServerToClientEvents>
+): Promise<void> {
+  const states = await loadActiveGameStates();
+  for (const state of states) {
+    const room = await getOrCreateRoom(state.roomCode);
+    if (!room) continue;
+    // Nobody is connected right after a restart; players come back through rejoinRoom
+    room.gameState.players.forEach(p => {
+      if (!p.isBot) {
+        p.isConnected = false;
+        p.socketId = undefined;
+      }
+    });
+    scheduleRoomTimers(io, room);
+  }
+  console.log(`♻️ Restored ${states.length} active game(s)`);
+
+  // Tables of the current round pick up their check-in and forfeit timers again
+  const tournaments = await findTournaments('running');
+  for (const tournament of tournaments) {
+    const round = tournament.rounds[tournament.rounds.length - 1];
+    for (const table of round?.tables ?? []) {
+      const room = await getOrCreateRoom(table.roomCode);
+      if (!room) continue;
+      const humans = room.gameState.players.filter(p => !p.isBot);
+      humans.forEach(p => {
+        p.isConnected = false;
+        p.socketId = undefined;
+      });
+      if (room.gameState.phase === 'waiting') {
+        scheduleCheckIn(io, room, new Date(round.checkInDeadline));
+      } else if (room.gameState.phase === 'playing') {
+        humans.forEach(p => scheduleForfeit(io, room, p.id));
+      }
+    }
+  }
+  console.log(`♻️ Restored ${tournaments.length} running tournament(s)`);
+}
+
+async function runBotMove(
+  io: Server<ClientToServerEvents, ServerToClientEvents>,
+  room: Room
+): Promise<void> {
+  if (rooms.get(room.code) !== room) return;
+
+  const bot = getNextBotToAct(room.gameState);
+  if (!bot) return;
+
+  try {
+    let command = chooseBotCommand(room.gameState, bot.id);
+    if (!command) return;
+
+    const chosen = command;
+    const card = chosen.type === 'play' ? bot.hand.find(c => c.id === chosen.cardId) : undefined;
+    try {
+      applyGameCommand(room.gameState, bot.id, command);
+    } catch (error) {
+      // Fall back to ending the turn so a confused bot never stalls the room
+      console.error(`Bot ${bot.name} made an invalid move:`, error);
+      command = { type: 'endTurn' };
+      applyGameCommand(room.gameState, bot.id, command);
+    }
+    updateDeadlines(room.gameState);
+    await saveRoomState(room);
+    await recordGameEvent(room, { ...command, playerId: bot.id });
+
+    await logBotCommand(io, room, bot, command, card);
+
+    await announceWinner(io, room);
+
+    emitGameState(io, room);
+
+    if (room.gameState.pendingAction) {
+      io.to(room.code).emit('actionRequired', toPublicPendingAction(room.gameState.pendingAction));
+    }
+  } catch (error) {
+    console.error(`Error running bot ${bot.name}:`, error);
+  }
+}
+
 export function setupSocketHandlers(
   io: Server<ClientToServerEvents, ServerToClientEvents>
 ): void {
+  io.use(authenticateSocket);
+
   io.on('connection', (socket: Socket<ClientToServerEvents, ServerToClientEvents>) => {
     console.log(`Client connected: ${socket.id}`);
 
-    socket.on('createRoom', async (playerName, callback) => {
+    socket.on('createRoom', async (playerName, options, callback) => {
+      // Clients from before room options send only the name and the callback
+      if (isCallback(options)) {
+        callback = options;
+        options = {};
+      }
+      if (!isCallback(callback)) return;
+
       try {
-        let roomCode = generateRoomCode();
-        while (rooms.has(roomCode) || await loadGameState(roomCode)) {
-          roomCode = generateRoomCode();
-        }
+        playerName = parsePlayerName(playerName);
+        options = parseCreateRoomOptions(options);
+        assertNotInRoom(socket);
+        const settings = createGameSettings(options.settings);
+
+        const roomCode = await generateUniqueRoomCode();
 
-        const gameState = createGameState(roomCode);
-        const player = addPlayer(gameState, playerName, socket.id);
+        const gameState = createGameState(roomCode, options.seed, settings);
+        gameState.visibility = options.visibility || 'private';
+        gameState.rated = options.rated ?? false;
+        if (options.seed) gameState.seeded = true;
+        if (options.password) gameState.passwordHash = await hashPassword(options.password);
+        const player = addPlayer(gameState, playerName, socket.id, getSocketAccountId(socket));
+        const sessionToken = issueSessionToken(roomCode, player);
 
         const room: Room = {
           code: roomCode,
           gameState,
-          chatMessages: []
+          chatMessages: [],
+          eventSequence: 0,
+          spectators: []
         };
 
         rooms.set(roomCode, room);
         playerRooms.set(socket.id, roomCode);
         socket.join(roomCode);
 
-        await saveGameState(gameState);
+        await saveRoomState(room);
+        await recordGameEvent(room, { type: 'playerJoined', playerId: player.id, name: player.name, accountId: player.accountId });
 
         const systemMessage: ChatMessage = {
           id: uuidv4(),
@@ -180,54 +1046,48 @@ export function setupSocketHandlers(
         room.chatMessages.push(systemMessage);
         await saveChatMessage(roomCode, systemMessage);
 
-        callback({ roomCode });
+        callback({ roomCode, playerId: player.id, sessionToken });
         socket.emit('gameState', getPublicGameState(gameState, player.id));
+        updateLobby(io, room);
       } catch (error) {
-        console.error('Error creating room:', error);
-        callback({ error: 'Failed to create room' });
+        if (!(error instanceof GameError)) console.error('Error creating room:', error);
+        callback({ error: toErrorInfo(error, 'Failed to create room') });
       }
     });
 
-    socket.on('joinRoom', async (roomCode, playerName, callback) => {
+    socket.on('joinRoom', (roomCode, playerName, password, callback) => runInRoomQueue(typeof roomCode === 'string' ? roomCode.toUpperCase() : undefined, async () => {
+      if (isCallback(password)) {
+        callback = password;
+        password = undefined;
+      }
+      if (!isCallback(callback)) return;
       try {
-        const room = await getOrCreateRoom(roomCode.toUpperCase());
-        if (!room) {
-          callback({ success: false, error: 'Room not found' });
-          return;
+        roomCode = parseRoomCode(roomCode);
+        playerName = parsePlayerName(playerName);
+        password = parseOptionalRoomPassword(password);
+        assertNotInRoom(socket);
+
+        const room = await getOrCreateRoom(roomCode);
+        if (!room) throw new RoomError('ROOM_NOT_FOUND', 'Room not found');
+        if (room.gameState.phase !== 'waiting') throw new RoomError('GAME_ALREADY_STARTED', 'Game already in progress');
+        if (room.gameState.players.length >= MAX_PLAYERS) {
+          throw new RoomError('ROOM_FULL', 'Room is full', { maximum: MAX_PLAYERS });
         }
+        if (room.gameState.locked) throw new RoomError('ROOM_LOCKED', 'The host has locked the room');
+        await assertRoomPassword(room, password);
 
-        if (room.gameState.phase !== 'waiting') {
-          const existingPlayer = room.gameState.players.find(
-            p => p.name === playerName && !p.isConnected
-          );
-          if (existingPlayer) {
-            existingPlayer.isConnected = true;
-            existingPlayer.socketId = socket.id;
-            playerRooms.set(socket.id, roomCode);
-            socket.join(roomCode);
-            
-            await saveGameState(room.gameState);
-            await sendGameLog(io, room, `${playerName} reconnected`);
-            
-            callback({ success: true });
-            socket.emit('gameState', getPublicGameState(room.gameState, existingPlayer.id));
-            io.to(roomCode).emit('playerJoined', existingPlayer);
-            return;
-          }
-          callback({ success: false, error: 'Game already in progress' });
-          return;
+        const accountId = getSocketAccountId(socket);
+        if (accountId && room.gameState.players.some(p => p.accountId === accountId)) {
+          throw new RoomError('ALREADY_IN_ROOM', 'You already have a seat in this room');
         }
 
-        if (room.gameState.players.length >= 5) {
-          callback({ success: false, error: 'Room is full' });
-          return;
-        }
+        const player = addPlayer(room.gameState, playerName, socket.id, accountId);
+        const sessionToken = issueSessionToken(room.code, player);
+        playerRooms.set(socket.id, room.code);
+        socket.join(room.code);
 
-        const player = addPlayer(room.gameState, playerName, socket.id);
-        playerRooms.set(socket.id, roomCode);
-        socket.join(roomCode);
-
-        await saveGameState(room.gameState);
+        await saveRoomState(room);
+        await recordGameEvent(room, { type: 'playerJoined', playerId: player.id, name: player.name, accountId: player.accountId });
 
         const systemMessage: ChatMessage = {
           id: uuidv4(),
@@ -238,99 +1098,438 @@ export function setupSocketHandlers(
           type: 'system'
         };
         room.chatMessages.push(systemMessage);
-        await saveChatMessage(roomCode, systemMessage);
+        await saveChatMessage(room.code, systemMessage);
 
-        callback({ success: true });
+        callback({ success: true, playerId: player.id, sessionToken });
         
-        io.to(roomCode).emit('playerJoined', player);
-        io.to(roomCode).emit('chatMessage', systemMessage);
+        io.to(room.code).emit('playerJoined', toPublicPlayer(player));
+        io.to(room.code).emit('chatMessage', systemMessage);
+        emitToSpectators(io, room, channel => channel.emit('chatMessage', systemMessage));
         
-        room.gameState.players.forEach(p => {
-          if (p.socketId) {
-            io.to(p.socketId).emit('gameState', getPublicGameState(room.gameState, p.id));
-          }
-        });
+        emitGameState(io, room);
+      } catch (error) {
+        if (!(error instanceof GameError)) console.error('Error joining room:', error);
+        callback({ success: false, error: toErrorInfo(error, 'Failed to join room') });
+      }
+    }));
+
+    socket.on('rejoinRoom', (sessionToken, callback) => runInRoomQueue(typeof sessionToken === 'string' ? verifySessionToken(sessionToken)?.roomCode : undefined, async () => {
+      if (!isCallback(callback)) return;
+      try {
+        sessionToken = parseSessionToken(sessionToken);
+
+        const payload = verifySessionToken(sessionToken);
+        if (!payload) throw new RoomError('INVALID_SESSION', 'Invalid session');
+
+        const room = await getOrCreateRoom(payload.roomCode);
+        if (!room) throw new RoomError('ROOM_NOT_FOUND', 'Room not found');
+
+        const player = findPlayerForToken(room.gameState.players, payload);
+        // A bot plays the seats of players who were kicked or forfeited
+        if (!player || player.isBot) throw new RoomError('SESSION_REVOKED', 'Session has been revoked');
+
+        await takeSeat(io, socket, room, player);
+
+        callback({ success: true, roomCode: room.code, playerId: player.id });
+        io.to(room.code).emit('playerJoined', toPublicPlayer(player));
+        emitGameState(io, room);
+        scheduleRoomTimers(io, room);
+        await startTournamentTableIfReady(io, room);
       } catch (error) {
-        console.error('Error joining room:', error);
-        callback({ success: false, error: 'Failed to join room' });
+        if (!(error instanceof GameError)) console.error('Error rejoining room:', error);
+        callback({ success: false, error: toErrorInfo(error, 'Failed to rejoin room') });
+      }
+    }));
+
+    socket.on('getMySeats', (callback) => {
+      if (!isCallback(callback)) return;
+      const accountId = getSocketAccountId(socket);
+      if (!accountId) {
+        callback({ error: toErrorInfo(new AccountError('AUTH_REQUIRED', 'Log in to see your games')) });
+        return;
       }
+
+      const seats: AccountSeat[] = [];
+      for (const room of rooms.values()) {
+        const player = room.gameState.players.find(p => p.accountId === accountId && !p.isBot);
+        if (player && room.gameState.phase !== 'finished') {
+          seats.push({ roomCode: room.code, playerId: player.id, phase: room.gameState.phase });
+        }
+      }
+      callback({ seats });
     });
 
-    socket.on('startGame', async () => {
+    // An account can take its seat back from any device, without the session token
+    socket.on('resumeSeat', (roomCode, callback) => runInRoomQueue(typeof roomCode === 'string' ? roomCode.toUpperCase() : undefined, async () => {
+      if (!isCallback(callback)) return;
+      try {
+        roomCode = parseRoomCode(roomCode);
+        const accountId = getSocketAccountId(socket);
+        if (!accountId) throw new AccountError('AUTH_REQUIRED', 'Log in to resume a game');
+
+        const room = await getOrCreateRoom(roomCode);
+        if (!room) throw new RoomError('ROOM_NOT_FOUND', 'Room not found');
+        const player = room.gameState.players.find(p => p.accountId === accountId && !p.isBot);
+        if (!player) throw new NotFoundError('PLAYER_NOT_FOUND', 'You have no seat in this room');
+
+        await takeSeat(io, socket, room, player);
+
+        callback({ success: true, playerId: player.id, sessionToken: issueSessionToken(room.code, player) });
+        io.to(room.code).emit('playerJoined', toPublicPlayer(player));
+        emitGameState(io, room);
+        scheduleRoomTimers(io, room);
+        await startTournamentTableIfReady(io, room);
+      } catch (error) {
+        if (!(error instanceof GameError)) console.error('Error resuming seat:', error);
+        callback({ success: false, error: toErrorInfo(error, 'Failed to resume game') });
+      }
+    }));
+
+    socket.on('revokeSession', (playerId, callback) => runInRoomQueue(playerRooms.get(socket.id), async () => {
+      if (!isCallback(callback)) return;
       try {
-        const roomCode = playerRooms.get(socket.id);
-        if (!roomCode) return;
+        playerId = parsePlayerId(playerId);
 
-        const room = rooms.get(roomCode);
-        if (!room) return;
+        const { room, player: host } = getSocketSeat(socket);
+        assertHost(room, host, 'Only the host can revoke sessions');
 
-        const player = room.gameState.players.find(p => p.socketId === socket.id);
-        if (!player || room.gameState.players[0].id !== player.id) {
-          socket.emit('error', 'Only the host can start the game');
-          return;
+        const player = room.gameState.players.find(p => p.id === playerId);
+        if (!player || player.isBot) throw new NotFoundError('PLAYER_NOT_FOUND', 'Player not found');
+
+        // Rotating the nonce invalidates every token issued so far; the host gets a fresh
+        // one to hand to the rightful owner of the seat
+        revokeSessionTokens(player);
+        const sessionToken = issueSessionToken(room.code, player);
+
+        // The socket is sent away but the seat stays, for whoever gets the new token
+        const playerSocket = player.socketId ? io.sockets.sockets.get(player.socketId) : undefined;
+        if (playerSocket) {
+          playerSocket.emit('error', toErrorInfo(new RoomError('SESSION_REVOKED', 'Your session was revoked by the host')));
+          playerRooms.delete(playerSocket.id);
+          playerSocket.leave(room.code);
         }
+        player.isConnected = false;
+        player.socketId = undefined;
+        await saveRoomState(room);
 
-        startGame(room.gameState);
-        await saveGameState(room.gameState);
+        await sendGameLog(io, room, `🔒 The host revoked ${player.name}'s session`);
+        callback({ success: true, sessionToken });
+        emitGameState(io, room);
+      } catch (error) {
+        if (!(error instanceof GameError)) console.error('Error revoking session:', error);
+        callback({ success: false, error: toErrorInfo(error, 'Failed to revoke session') });
+      }
+    }));
 
-        await sendGameLog(io, room, `🎮 Game started! ${room.gameState.players[0].name}'s turn`);
+    socket.on('startGame', (ack) => runInRoomQueue(playerRooms.get(socket.id), async () => {
+      try {
+        const { roomCode, room, player } = getSocketSeat(socket);
+        assertHost(room, player, 'Only the host can start the game');
 
-        room.gameState.players.forEach(p => {
-          if (p.socketId) {
-            io.to(p.socketId).emit('gameState', getPublicGameState(room.gameState, p.id));
-          }
-        });
-      } catch (error: any) {
-        socket.emit('error', error.message);
+        const deck = createShuffledDeck(room.gameState);
+        startGame(room.gameState, deck);
+        updateDeadlines(room.gameState);
+        await saveRoomState(room);
+        await recordGameEvent(room, { type: 'gameStarted', deck, settings: room.gameState.settings });
+
+        await sendGameLog(io, room, `🎮 Game started! ${room.gameState.players[room.gameState.currentPlayerIndex].name}'s turn`);
+
+        emitGameState(io, room);
+
+        scheduleRoomTimers(io, room);
+        acknowledge(ack);
+      } catch (error) {
+        reportError(socket, error, ack);
       }
-    });
+    }));
 
-    socket.on('drawCards', async () => {
+    socket.on('setRoomVisibility', (visibility, ack) => runInRoomQueue(playerRooms.get(socket.id), async () => {
       try {
-        const roomCode = playerRooms.get(socket.id);
-        if (!roomCode) return;
+        visibility = parseVisibility(visibility);
+        const { room, player } = getSocketSeat(socket);
+        assertHost(room, player, 'Only the host can change who can find the room');
+
+        room.gameState.visibility = visibility;
+        await saveRoomState(room);
+        await sendGameLog(io, room, visibility === 'public' ? '🌐 The room is now listed in the lobby' : '🔒 The room is now private');
+        emitGameState(io, room);
+        acknowledge(ack);
+      } catch (error) {
+        reportError(socket, error, ack);
+      }
+    }));
 
-        const room = rooms.get(roomCode);
-        if (!room) return;
+    socket.on('setRoomRated', (rated, ack) => runInRoomQueue(playerRooms.get(socket.id), async () => {
+      try {
+        rated = parseFlag(rated);
+        const { room, player } = getSocketSeat(socket);
+        assertHost(room, player, 'Only the host can change whether the game is rated');
+        // After a game it applies to the rematch
+        if (room.gameState.phase === 'playing') throw new RoomError('GAME_ALREADY_STARTED', 'The game has already started');
+        if (rated && room.gameState.seeded) throw new RoomError('RATED_GAME_INELIGIBLE', 'Rooms with a chosen seed cannot be rated');
+
+        room.gameState.rated = rated;
+        await saveRoomState(room);
+        await sendGameLog(io, room, rated ? '📈 The game will be rated' : '🎲 The game will be unrated');
+        emitGameState(io, room);
+        acknowledge(ack);
+      } catch (error) {
+        reportError(socket, error, ack);
+      }
+    }));
 
-        const player = room.gameState.players.find(p => p.socketId === socket.id);
-        if (!player) return;
+    socket.on('voteRematch', (optIn, ack) => runInRoomQueue(playerRooms.get(socket.id), async () => {
+      try {
+        optIn = parseFlag(optIn);
+        const { room, player } = getSocketSeat(socket);
+        if (room.gameState.tournamentId) throw new RoomError('TOURNAMENT_ROOM', 'Tournament tables play one game per round');
+
+        voteRematch(room.gameState, player.id, optIn);
+        await saveRoomState(room);
+        await sendGameLog(io, room, optIn ? `🔁 ${player.name} wants a rematch` : `${player.name} no longer wants a rematch`);
+        emitGameState(io, room);
+        if (isRematchAgreed(room.gameState)) await startRematch(io, room);
+        acknowledge(ack);
+      } catch (error) {
+        reportError(socket, error, ack);
+      }
+    }));
 
-        const drawnCount = player.hand.length === 0 ? 5 : 2;
-        drawCards(room.gameState, player.id);
-        await saveGameState(room.gameState);
+    socket.on('setRematchStarter', (starter, ack) => runInRoomQueue(playerRooms.get(socket.id), async () => {
+      try {
+        starter = parseRematchStarter(starter);
+        const { room, player } = getSocketSeat(socket);
+        assertHost(room, player, 'Only the host can choose who starts the rematch');
+
+        room.gameState.rematchStarter = starter;
+        await saveRoomState(room);
+        emitGameState(io, room);
+        acknowledge(ack);
+      } catch (error) {
+        reportError(socket, error, ack);
+      }
+    }));
 
-        await sendGameLog(io, room, `${player.name} drew ${drawnCount} cards`);
+    socket.on('kickPlayer', (playerId, ack) => runInRoomQueue(playerRooms.get(socket.id), async () => {
+      try {
+        playerId = parsePlayerId(playerId);
+        const { roomCode, room, player: host } = getSocketSeat(socket);
+        assertHost(room, host, 'Only the host can kick players');
+        if (playerId === host.id) throw new RoomError('CANNOT_KICK_HOST', 'The host cannot kick themselves');
+
+        const player = room.gameState.players.find(p => p.id === playerId);
+        if (!player) throw new NotFoundError('PLAYER_NOT_FOUND', 'Player not found');
+        if (player.isBot && room.gameState.phase !== 'waiting') {
+          throw new RoomError('GAME_ALREADY_STARTED', 'Bots can only be removed before the game starts');
+        }
+        const { name, socketId } = player;
+
+        // Nobody can come back to the seat with an old token
+        revokeSessionTokens(player);
+        if (room.gameState.phase === 'waiting') {
+          removePlayer(room.gameState, player.id);
+          await saveRoomState(room);
+          await recordGameEvent(room, { type: 'playerLeft', playerId: player.id });
+          io.to(roomCode).emit('playerLeft', player.id);
+        } else {
+          replaceWithBot(room.gameState, player.id, KICKED_PLAYER_BOT);
+          updateDeadlines(room.gameState);
+          await saveRoomState(room);
+          await recordGameEvent(room, { type: 'playerReplacedByBot', playerId: player.id, botDifficulty: KICKED_PLAYER_BOT });
+        }
 
-        room.gameState.players.forEach(p => {
-          if (p.socketId) {
-            io.to(p.socketId).emit('gameState', getPublicGameState(room.gameState, p.id));
-          }
-        });
-      } catch (error: any) {
-        socket.emit('error', error.message);
+        const playerSocket = socketId ? io.sockets.sockets.get(socketId) : undefined;
+        if (playerSocket) {
+          playerSocket.emit('error', toErrorInfo(new RoomError('KICKED', 'The host removed you from the room')));
+          playerRooms.delete(playerSocket.id);
+          playerSocket.leave(roomCode);
+        }
+
+        await sendGameLog(io, room, room.gameState.phase === 'waiting'
+          ? `👢 The host kicked ${name}`
+          : `👢 The host kicked ${name}; a bot takes over their seat`);
+        emitGameState(io, room);
+        scheduleRoomTimers(io, room);
+        acknowledge(ack);
+      } catch (error) {
+        reportError(socket, error, ack);
       }
+    }));
+
+    socket.on('transferHost', (playerId, ack) => runInRoomQueue(playerRooms.get(socket.id), async () => {
+      try {
+        playerId = parsePlayerId(playerId);
+        const { room, player } = getSocketSeat(socket);
+        assertHost(room, player, 'Only the host can hand over the room');
+
+        transferHost(room.gameState, playerId);
+        await saveRoomState(room);
+        await announceHost(io, room);
+        emitGameState(io, room);
+        acknowledge(ack);
+      } catch (error) {
+        reportError(socket, error, ack);
+      }
+    }));
+
+    socket.on('setRoomLocked', (locked, ack) => runInRoomQueue(playerRooms.get(socket.id), async () => {
+      try {
+        locked = parseFlag(locked);
+        const { room, player } = getSocketSeat(socket);
+        assertHost(room, player, 'Only the host can lock the room');
+
+        room.gameState.locked = locked;
+        await saveRoomState(room);
+        await sendGameLog(io, room, locked ? '🔒 The host locked the room' : '🔓 The host unlocked the room');
+        emitGameState(io, room);
+        acknowledge(ack);
+      } catch (error) {
+        reportError(socket, error, ack);
+      }
+    }));
+
+    socket.on('setRoomPassword', (password, ack) => runInRoomQueue(playerRooms.get(socket.id), async () => {
+      try {
+        const newPassword = password === null ? null : parseRoomPassword(password);
+        const { room, player } = getSocketSeat(socket);
+        assertHost(room, player, 'Only the host can set the room password');
+
+        if (newPassword) {
+          room.gameState.passwordHash = await hashPassword(newPassword);
+        } else {
+          delete room.gameState.passwordHash;
+        }
+        await saveRoomState(room);
+        await sendGameLog(io, room, newPassword ? '🔑 The host set a room password' : '🔑 The host removed the room password');
+        emitGameState(io, room);
+        acknowledge(ack);
+      } catch (error) {
+        reportError(socket, error, ack);
+      }
+    }));
+
+    socket.on('joinLobby', (callback) => {
+      if (!isCallback(callback)) return;
+      socket.join(LOBBY_CHANNEL);
+      callback({ rooms: getLobbyRooms() });
+    });
+
+    socket.on('leaveLobby', () => {
+      socket.leave(LOBBY_CHANNEL);
     });
 
-    socket.on('playCard', async (cardId, target) => {
+    socket.on('watchTournament', async (tournamentId, callback) => {
+      if (!isCallback(callback)) return;
       try {
-        const roomCode = playerRooms.get(socket.id);
-        if (!roomCode) return;
+        tournamentId = parseTournamentId(tournamentId);
+        const tournament = await getTournament(tournamentId);
+        socket.join(tournamentChannel(tournament.id));
+        callback({ tournament, standings: getStandings(tournament) });
+      } catch (error) {
+        if (!(error instanceof GameError)) console.error('Error watching tournament:', error);
+        callback({ error: toErrorInfo(error, 'Failed to load tournament') });
+      }
+    });
+
+    socket.on('unwatchTournament', (tournamentId) => {
+      if (typeof tournamentId === 'string') socket.leave(tournamentChannel(tournamentId));
+    });
+
+    socket.on('addBot', (difficulty, callback) => runInRoomQueue(playerRooms.get(socket.id), async () => {
+      if (!isCallback(callback)) return;
+      try {
+        difficulty = parseBotDifficulty(difficulty);
+        const { roomCode, room, player } = getSocketSeat(socket);
+        assertHost(room, player, 'Only the host can add bots');
+
+        const botCount = room.gameState.players.filter(p => p.isBot).length;
+        const bot = addBot(room.gameState, `🤖 Bot ${botCount + 1} (${difficulty})`, difficulty);
+        await saveRoomState(room);
+        await recordGameEvent(room, {
+          type: 'playerJoined',
+          playerId: bot.id,
+          name: bot.name,
+          isBot: true,
+          botDifficulty: difficulty
+        });
 
-        const room = rooms.get(roomCode);
-        if (!room) return;
+        await sendGameLog(io, room, `${bot.name} joined the room`);
 
-        const player = room.gameState.players.find(p => p.socketId === socket.id);
-        if (!player) return;
+        callback({ success: true });
+        io.to(roomCode).emit('playerJoined', toPublicPlayer(bot));
+        emitGameState(io, room);
+      } catch (error) {
+        callback({ success: false, error: toErrorInfo(error) });
+      }
+    }));
+
+    socket.on('removeBot', (playerId, ack) => runInRoomQueue(playerRooms.get(socket.id), async () => {
+      try {
+        playerId = parsePlayerId(playerId);
+        const { roomCode, room, player } = getSocketSeat(socket);
+        assertHost(room, player, 'Only the host can remove bots');
+        if (room.gameState.phase !== 'waiting') {
+          throw new RoomError('GAME_ALREADY_STARTED', 'Bots can only be removed before the game starts');
+        }
+
+        const bot = room.gameState.players.find(p => p.id === playerId && p.isBot);
+        if (!bot) throw new NotFoundError('PLAYER_NOT_FOUND', 'Player not found');
+
+        removePlayer(room.gameState, bot.id);
+        await saveRoomState(room);
+        await recordGameEvent(room, { type: 'playerLeft', playerId: bot.id });
+
+        io.to(roomCode).emit('playerLeft', bot.id);
+        await sendGameLog(io, room, `${bot.name} left the room`);
+        emitGameState(io, room);
+        acknowledge(ack);
+      } catch (error) {
+        reportError(socket, error, ack);
+      }
+    }));
+
+    socket.on('drawCards', (ack) => runInRoomQueue(playerRooms.get(socket.id), async () => {
+      try {
+        const { roomCode, room, player } = getSocketSeat(socket);
+
+        const drawnCount = player.hand.length === 0 ? 5 : getGameSettings(room.gameState).cardsPerDraw;
+        drawCards(room.gameState, player.id);
+        updateDeadlines(room.gameState);
+        await saveRoomState(room);
+        await recordGameEvent(room, { type: 'draw', playerId: player.id });
+
+        await sendGameLog(io, room, `${player.name} drew ${drawnCount} cards`);
+
+        emitGameState(io, room);
+
+        scheduleRoomTimers(io, room);
+        acknowledge(ack);
+      } catch (error) {
+        reportError(socket, error, ack);
+      }
+    }));
+
+    socket.on('playCard', (cardId, target, ack) => runInRoomQueue(playerRooms.get(socket.id), async () => {
+      // The target is optional, so a client may send the acknowledgement callback in its place
+      if (isCallback(target)) {
+        ack = target;
+        target = undefined;
+      }
+      try {
+        cardId = parseCardId(cardId);
+        target = parsePlayCardTarget(target);
+        const { roomCode, room, player } = getSocketSeat(socket);
 
         // Get card info before playing
         const card = player.hand.find(c => c.id === cardId);
-        if (!card) return;
+        if (!card) throw new NotFoundError('CARD_NOT_IN_HAND', 'Card not in hand');
 
-        const cardDesc = getCardDescription(card, target, room.gameState.players);
+        const cardDesc = getCardDescription(card, target, room.gameState);
 
         playCard(room.gameState, player.id, cardId, target);
-        await saveGameState(room.gameState);
+        updateDeadlines(room.gameState);
+        await saveRoomState(room);
+        await recordGameEvent(room, { type: 'play', playerId: player.id, cardId, target });
 
         // Log the action
         if (target?.asBank) {
@@ -345,106 +1544,86 @@ export function setupSocketHandlers(
           await sendGameLog(io, room, `${player.name} played ${cardDesc}`);
         }
 
-        if (room.gameState.winner) {
-          const winner = room.gameState.players.find(p => p.id === room.gameState.winner);
-          if (winner) {
-            await sendGameLog(io, room, `🏆 ${winner.name} WINS THE GAME! 🎉`);
-            io.to(roomCode).emit('gameOver', winner.id, winner.name);
-          }
-        }
+        await announceWinner(io, room);
 
-        room.gameState.players.forEach(p => {
-          if (p.socketId) {
-            io.to(p.socketId).emit('gameState', getPublicGameState(room.gameState, p.id));
-          }
-        });
+        emitGameState(io, room);
 
         if (room.gameState.pendingAction) {
-          io.to(roomCode).emit('actionRequired', room.gameState.pendingAction);
+          io.to(roomCode).emit('actionRequired', toPublicPendingAction(room.gameState.pendingAction));
         }
-      } catch (error: any) {
-        socket.emit('error', error.message);
+
+        scheduleRoomTimers(io, room);
+        acknowledge(ack);
+      } catch (error) {
+        reportError(socket, error, ack);
       }
-    });
+    }));
 
-    socket.on('endTurn', async () => {
+    socket.on('endTurn', (ack) => runInRoomQueue(playerRooms.get(socket.id), async () => {
       try {
-        const roomCode = playerRooms.get(socket.id);
-        if (!roomCode) return;
-
-        const room = rooms.get(roomCode);
-        if (!room) return;
-
-        const player = room.gameState.players.find(p => p.socketId === socket.id);
-        if (!player) return;
+        const { roomCode, room, player } = getSocketSeat(socket);
 
         endTurnEarly(room.gameState, player.id);
-        await saveGameState(room.gameState);
+        updateDeadlines(room.gameState);
+        await saveRoomState(room);
+        await recordGameEvent(room, { type: 'endTurn', playerId: player.id });
 
         const nextPlayer = room.gameState.players[room.gameState.currentPlayerIndex];
         
         if (room.gameState.turnPhase === 'discard') {
-          await sendGameLog(io, room, `${player.name} must discard to 7 cards`);
+          await sendGameLog(io, room, `${player.name} must discard to ${getGameSettings(room.gameState).handLimit} cards`);
         } else {
           await sendGameLog(io, room, `${player.name} ended turn. ${nextPlayer.name}'s turn`);
         }
 
-        room.gameState.players.forEach(p => {
-          if (p.socketId) {
-            io.to(p.socketId).emit('gameState', getPublicGameState(room.gameState, p.id));
-          }
-        });
-      } catch (error: any) {
-        socket.emit('error', error.message);
+        emitGameState(io, room);
+
+        scheduleRoomTimers(io, room);
+        acknowledge(ack);
+      } catch (error) {
+        reportError(socket, error, ack);
       }
-    });
+    }));
 
-    socket.on('discardCards', async (cardIds) => {
+    socket.on('discardCards', (cardIds, ack) => runInRoomQueue(playerRooms.get(socket.id), async () => {
       try {
-        const roomCode = playerRooms.get(socket.id);
-        if (!roomCode) return;
-
-        const room = rooms.get(roomCode);
-        if (!room) return;
-
-        const player = room.gameState.players.find(p => p.socketId === socket.id);
-        if (!player) return;
+        cardIds = parseCardIds(cardIds);
+        const { roomCode, room, player } = getSocketSeat(socket);
 
         discardCards(room.gameState, player.id, cardIds);
-        await saveGameState(room.gameState);
+        updateDeadlines(room.gameState);
+        await saveRoomState(room);
+        await recordGameEvent(room, { type: 'discard', playerId: player.id, cardIds });
 
         const nextPlayer = room.gameState.players[room.gameState.currentPlayerIndex];
         await sendGameLog(io, room, `${player.name} discarded ${cardIds.length} card(s). ${nextPlayer.name}'s turn`);
 
-        room.gameState.players.forEach(p => {
-          if (p.socketId) {
-            io.to(p.socketId).emit('gameState', getPublicGameState(room.gameState, p.id));
-          }
-        });
-      } catch (error: any) {
-        socket.emit('error', error.message);
+        emitGameState(io, room);
+
+        scheduleRoomTimers(io, room);
+        acknowledge(ack);
+      } catch (error) {
+        reportError(socket, error, ack);
       }
-    });
+    }));
 
-    socket.on('respondToAction', async (response) => {
+    socket.on('respondToAction', (response, ack) => runInRoomQueue(playerRooms.get(socket.id), async () => {
       try {
-        const roomCode = playerRooms.get(socket.id);
-        if (!roomCode) return;
-
-        const room = rooms.get(roomCode);
-        if (!room) return;
-
-        const player = room.gameState.players.find(p => p.socketId === socket.id);
-        if (!player) return;
+        response = parseActionResponse(response);
+        const { roomCode, room, player } = getSocketSeat(socket);
 
         const pendingAction = room.gameState.pendingAction;
         
         respondToAction(room.gameState, player.id, response);
-        await saveGameState(room.gameState);
+        updateDeadlines(room.gameState);
+        await saveRoomState(room);
+        await recordGameEvent(room, { type: 'respond', playerId: player.id, response });
 
         // Log the response
         if (response.useJustSayNo) {
           await sendGameLog(io, room, `🚫 ${player.name} played Just Say No!`);
+        } else if (pendingAction?.fromPlayerId === player.id) {
+          await sendGameLog(io, room, `${player.name} let the Just Say No stand`);
         } else if (response.paymentCardIds && response.paymentCardIds.length > 0) {
           const totalPaid = response.paymentCardIds.length;
           await sendGameLog(io, room, `💸 ${player.name} paid with ${totalPaid} card(s)`);
@@ -452,67 +1631,71 @@ export function setupSocketHandlers(
           await sendGameLog(io, room, `${player.name} accepted the action`);
         }
 
-        room.gameState.players.forEach(p => {
-          if (p.socketId) {
-            io.to(p.socketId).emit('gameState', getPublicGameState(room.gameState, p.id));
-          }
-        });
-      } catch (error: any) {
-        socket.emit('error', error.message);
-      }
-    });
+        emitGameState(io, room);
 
-    socket.on('rearrangeProperty', async (cardId, fromColor, toColor) => {
-      try {
-        const roomCode = playerRooms.get(socket.id);
-        if (!roomCode) return;
+        // Prompt the other side of a Just Say No chain
+        if (room.gameState.pendingAction) {
+          io.to(roomCode).emit('actionRequired', toPublicPendingAction(room.gameState.pendingAction));
+        }
 
-        const room = rooms.get(roomCode);
-        if (!room) return;
+        scheduleRoomTimers(io, room);
+        acknowledge(ack);
+      } catch (error) {
+        reportError(socket, error, ack);
+      }
+    }));
 
-        const player = room.gameState.players.find(p => p.socketId === socket.id);
-        if (!player) return;
+    socket.on('rearrangeProperty', (cardId, fromColor, toColor, toSetId, ack) => runInRoomQueue(playerRooms.get(socket.id), async () => {
+      if (isCallback(toSetId)) {
+        ack = toSetId;
+        toSetId = undefined;
+      }
+      try {
+        cardId = parseCardId(cardId);
+        fromColor = parseColor(fromColor);
+        toColor = parseColor(toColor);
+        toSetId = parseOptionalSetId(toSetId);
+        const { roomCode, room, player } = getSocketSeat(socket);
 
-        rearrangeProperty(room.gameState, player.id, cardId, fromColor, toColor);
-        await saveGameState(room.gameState);
+        rearrangeProperty(room.gameState, player.id, cardId, fromColor, toColor, toSetId);
+        updateDeadlines(room.gameState);
+        await saveRoomState(room);
+        await recordGameEvent(room, { type: 'rearrange', playerId: player.id, cardId, fromColor, toColor, toSetId });
 
         await sendGameLog(io, room, `🔄 ${player.name} moved a wildcard from ${COLOR_NAMES[fromColor]} to ${COLOR_NAMES[toColor]}`);
 
         // Check for winner after rearranging
-        if (room.gameState.winner) {
-          const winner = room.gameState.players.find(p => p.id === room.gameState.winner);
-          if (winner) {
-            await sendGameLog(io, room, `🏆 ${winner.name} WINS THE GAME! 🎉`);
-            io.to(roomCode).emit('gameOver', winner.id, winner.name);
-          }
-        }
+        await announceWinner(io, room);
 
-        room.gameState.players.forEach(p => {
-          if (p.socketId) {
-            io.to(p.socketId).emit('gameState', getPublicGameState(room.gameState, p.id));
-          }
-        });
-      } catch (error: any) {
-        socket.emit('error', error.message);
+        emitGameState(io, room);
+
+        scheduleRoomTimers(io, room);
+        acknowledge(ack);
+      } catch (error) {
+        reportError(socket, error, ack);
       }
-    });
+    }));
 
-    socket.on('sendChat', async (message) => {
+    socket.on('getLegalMoves', (callback) => runInRoomQueue(playerRooms.get(socket.id), async () => {
+      if (!isCallback(callback)) return;
       try {
-        const roomCode = playerRooms.get(socket.id);
-        if (!roomCode) return;
-
-        const room = rooms.get(roomCode);
-        if (!room) return;
+        const { room, player } = getSocketSeat(socket);
+        callback({ moves: getLegalMoves(room.gameState, player.id) });
+      } catch (error) {
+        callback({ error: toErrorInfo(error) });
+      }
+    }));
 
-        const player = room.gameState.players.find(p => p.socketId === socket.id);
-        if (!player) return;
+    socket.on('sendChat', (message, ack) => runInRoomQueue(playerRooms.get(socket.id), async () => {
+      try {
+        message = parseChatMessage(message);
+        const { roomCode, room, player } = getSocketSeat(socket);
 
         const chatMessage: ChatMessage = {
           id: uuidv4(),
           playerId: player.id,
           playerName: player.name,
-          message: message.slice(0, 500),
+          message,
           timestamp: new Date(),
           type: 'chat'
         };
@@ -521,25 +1704,91 @@ export function setupSocketHandlers(
         await saveChatMessage(roomCode, chatMessage);
 
         io.to(roomCode).emit('chatMessage', chatMessage);
+        emitToSpectators(io, room, channel => channel.emit('chatMessage', chatMessage));
+        acknowledge(ack);
       } catch (error) {
-        console.error('Error sending chat:', error);
+        reportError(socket, error, ack);
       }
-    });
+    }));
 
-    socket.on('leaveRoom', async () => {
-      await handleDisconnect(socket, io);
-    });
+    socket.on('spectateRoom', (roomCode, name, password, callback) => runInRoomQueue(typeof roomCode === 'string' ? roomCode.toUpperCase() : undefined, async () => {
+      if (isCallback(password)) {
+        callback = password;
+        password = undefined;
+      }
+      if (!isCallback(callback)) return;
+      try {
+        roomCode = parseRoomCode(roomCode);
+        name = parsePlayerName(name);
+        password = parseOptionalRoomPassword(password);
+        assertNotInRoom(socket);
+
+        const room = await getOrCreateRoom(roomCode);
+        if (!room) throw new RoomError('ROOM_NOT_FOUND', 'Room not found');
+        await assertRoomPassword(room, password);
+        const { maxSpectators } = getGameSettings(room.gameState);
+        if (maxSpectators === 0) throw new RoomError('SPECTATORS_NOT_ALLOWED', 'This room does not allow spectators');
+        if (room.spectators.length >= maxSpectators) {
+          throw new RoomError('ROOM_FULL', 'No more spectators can join this room', { maximum: maxSpectators });
+        }
 
-    socket.on('disconnect', async () => {
-      await handleDisconnect(socket, io);
-    });
+        const spectator: Spectator = { id: uuidv4(), name, socketId: socket.id };
+        room.spectators.push(spectator);
+        spectatorRooms.set(socket.id, room.code);
+        socket.join(spectatorChannel(room.code));
+
+        callback({ success: true, spectatorId: spectator.id });
+        // The first state follows the same delay as the rest of the feed
+        const spectatorState = getSpectatorGameState(room);
+        emitToSpectators(io, room, () => socket.emit('gameState', spectatorState));
+        emitSpectators(io, room);
+        await sendGameLog(io, room, `👀 ${name} is watching`);
+      } catch (error) {
+        if (!(error instanceof GameError)) console.error('Error spectating room:', error);
+        callback({ success: false, error: toErrorInfo(error, 'Failed to spectate room') });
+      }
+    }));
+
+    // Spectator chat stays among spectators, so nobody can coach a player from the audience
+    socket.on('sendSpectatorChat', (message, ack) => runInRoomQueue(spectatorRooms.get(socket.id), async () => {
+      try {
+        message = parseChatMessage(message);
+        const roomCode = spectatorRooms.get(socket.id);
+        const spectator = roomCode ? rooms.get(roomCode)?.spectators.find(s => s.socketId === socket.id) : undefined;
+        if (!roomCode || !spectator) throw new RoomError('NOT_IN_ROOM', 'You are not watching a room');
+
+        const chatMessage: ChatMessage = {
+          id: uuidv4(),
+          playerId: spectator.id,
+          playerName: spectator.name,
+          message,
+          timestamp: new Date(),
+          type: 'spectator'
+        };
+        io.to(spectatorChannel(roomCode)).emit('chatMessage', chatMessage);
+        acknowledge(ack);
+      } catch (error) {
+        reportError(socket, error, ack);
+      }
+    }));
+
+    socket.on('leaveRoom', () => runInRoomQueue(playerRooms.get(socket.id) || spectatorRooms.get(socket.id), () => handleDisconnect(socket, io, true)));
+
+    socket.on('disconnect', () => runInRoomQueue(playerRooms.get(socket.id) || spectatorRooms.get(socket.id), () => handleDisconnect(socket, io)));
   });
 }
 
+// A player who leaves on purpose is gone for good; one who only lost the connection may come back
 async function handleDisconnect(
   socket: Socket<ClientToServerEvents, ServerToClientEvents>,
-  io: Server<ClientToServerEvents, ServerToClientEvents>
+  io: Server<ClientToServerEvents, ServerToClientEvents>,
+  leaving = false
 ): Promise<void> {
+  if (spectatorRooms.has(socket.id)) {
+    await stopSpectating(socket, io);
+    return;
+  }
+
   const roomCode = playerRooms.get(socket.id);
   if (!roomCode) return;
 
@@ -550,34 +1799,90 @@ async function handleDisconnect(
   if (!player) return;
 
   console.log(`Player ${player.name} disconnected from room ${roomCode}`);
+  const wasHost = isHost(room.gameState, player.id);
 
-  if (room.gameState.phase === 'waiting') {
+  if (room.gameState.phase === 'waiting' && room.gameState.tournamentId) {
+    // The seat stays reserved until check-in closes
+    player.isConnected = false;
+    player.socketId = undefined;
+    await saveRoomState(room);
+
+    io.to(roomCode).emit('playerLeft', player.id);
+    await sendGameLog(io, room, `${player.name} left their seat`);
+    emitGameState(io, room);
+  } else if (room.gameState.phase === 'waiting') {
     removePlayer(room.gameState, player.id);
     
-    if (room.gameState.players.length === 0) {
+    if (room.gameState.players.every(p => p.isBot)) {
+      await recordGameEvent(room, { type: 'playerLeft', playerId: player.id });
       rooms.delete(roomCode);
+      clearRoomTimers(roomCode);
+      closeSpectatorChannel(io, room);
+      removeFromLobby(io, roomCode);
       await deleteGameState(roomCode);
     } else {
-      await saveGameState(room.gameState);
+      await saveRoomState(room);
+      await recordGameEvent(room, { type: 'playerLeft', playerId: player.id });
       io.to(roomCode).emit('playerLeft', player.id);
       
       await sendGameLog(io, room, `${player.name} left the room`);
+      if (wasHost) await announceHost(io, room);
       
-      room.gameState.players.forEach(p => {
-        if (p.socketId) {
-          io.to(p.socketId).emit('gameState', getPublicGameState(room.gameState, p.id));
-        }
-      });
+      emitGameState(io, room);
     }
   } else {
     player.isConnected = false;
     player.socketId = undefined;
-    await saveGameState(room.gameState);
+    if (wasHost && leaving) reassignHost(room.gameState);
+    await saveRoomState(room);
     
     io.to(roomCode).emit('playerLeft', player.id);
-    await sendGameLog(io, room, `${player.name} disconnected`);
+    await sendGameLog(io, room, `${player.name} ${leaving ? 'left the game' : 'disconnected'}`);
+    if (wasHost && leaving) {
+      await announceHost(io, room);
+      emitGameState(io, room);
+    } else if (wasHost) {
+      scheduleHostReassignment(io, room, player.id);
+    }
+    if (room.gameState.tournamentId && room.gameState.phase === 'playing') {
+      scheduleForfeit(io, room, player.id, leaving ? 0 : TOURNAMENT_FORFEIT_GRACE_MS);
+    }
+
+    // Everyone still at the table may already have opted in
+    if (room.gameState.phase === 'finished' && isRematchAgreed(room.gameState)) {
+      await startRematch(io, room).catch(error => console.error(`Error starting rematch in room ${roomCode}:`, error));
+    }
   }
 
   playerRooms.delete(socket.id);
   socket.leave(roomCode);
 }
+
+async function stopSpectating(
+  socket: Socket<ClientToServerEvents, ServerToClientEvents>,
+  io: Server<ClientToServerEvents, ServerToClientEvents>
+): Promise<void> {
+  const roomCode = spectatorRooms.get(socket.id)!;
+  spectatorRooms.delete(socket.id);
+  socket.leave(spectatorChannel(roomCode));
+
+  const room = rooms.get(roomCode);
+  const spectator = room?.spectators.find(s => s.socketId === socket.id);
+  if (!room || !spectator) return;
+
+  room.spectators = room.spectators.filter(s => s !== spectator);
+  emitSpectators(io, room);
+  await sendGameLog(io, room, `${spectator.name} stopped watching`);
+}
+
+// Spectators of a room that closes are sent away with an error
+function closeSpectatorChannel(
+  io: Server<ClientToServerEvents, ServerToClientEvents>,
+  room: Room
+): void {
+  const channel = spectatorChannel(room.code);
+  io.to(channel).emit('error', toErrorInfo(new RoomError('ROOM_NOT_FOUND', 'The room was closed')));
+  room.spectators.forEach(s => spectatorRooms.delete(s.socketId));
+  room.spectators = [];
+  io.in(channel).socketsLeave(channel);
+}
@@ -0,0 +1,67 @@
+import { Server } from 'socket.io';
+import { ServerToClientEvents, ClientToServerEvents, Room, RoomSummary, GamePhase } from '../types/game.js';
+import { MAX_PLAYERS, getHost } from '../game/gameLogic.js';
+import { getGameSettings } from '../game/settings.js';
+
+// Sockets browsing for a room join this channel to hear about public rooms as they change
+export const LOBBY_CHANNEL = 'lobby';
+
+// The last summary sent for each listed room, so unchanged rooms are not sent again on every move
+const listedSummaries: Map<string, string> = new Map();
+
+// Public rooms are listed until their game is over
+export function isListed(room: Room): boolean {
+  return room.gameState.visibility === 'public' && room.gameState.phase !== 'finished';
+}
+
+export function toRoomSummary(room: Room): RoomSummary {
+  const { players } = room.gameState;
+  return {
+    code: room.code,
+    hostName: getHost(room.gameState)?.name ?? '',
+    playerCount: players.length,
+    botCount: players.filter(p => p.isBot).length,
+    maxPlayers: MAX_PLAYERS,
+    spectatorCount: room.spectators.length,
+    locked: room.gameState.locked ?? false,
+    hasPassword: Boolean(room.gameState.passwordHash),
+    rated: room.gameState.rated ?? false,
+    seeded: room.gameState.seeded ?? false,
+    phase: room.gameState.phase,
+    settings: getGameSettings(room.gameState),
+    createdAt: room.gameState.createdAt
+  };
+}
+
+// Listed rooms, oldest first, optionally only those in one phase
+export function listRooms(rooms: Iterable<Room>, phase?: GamePhase): RoomSummary[] {
+  return [...rooms]
+    .filter(room => isListed(room) && (!phase || room.gameState.phase === phase))
+    .map(toRoomSummary)
+    .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+}
+
+// Tell the lobby about a room that was created or changed. A room that is no longer listed is removed.
+export function updateLobby(
+  io: Server<ClientToServerEvents, ServerToClientEvents>,
+  room: Room
+): void {
+  if (!isListed(room)) {
+    removeFromLobby(io, room.code);
+    return;
+  }
+
+  const summary = toRoomSummary(room);
+  const serialized = JSON.stringify(summary);
+  if (listedSummaries.get(room.code) === serialized) return;
+  listedSummaries.set(room.code, serialized);
+  io.to(LOBBY_CHANNEL).emit('lobbyRoomUpdated', summary);
+}
+
+export function removeFromLobby(
+  io: Server<ClientToServerEvents, ServerToClientEvents>,
+  roomCode: string
+): void {
+  if (!listedSummaries.delete(roomCode)) return;
+  io.to(LOBBY_CHANNEL).emit('lobbyRoomRemoved', roomCode);
+}
@@ -0,0 +1,20 @@
+// Tasks for one room run one at a time in the order they were queued, so a command's state
+// change, save, event log entry and broadcasts all finish before the next command starts
+const roomQueues: Map<string, Promise<void>> = new Map();
+
+export function runInRoomQueue<T>(roomCode: string | undefined, task: () => Promise<T>): Promise<T> {
+  // Without a room there is nothing to share state with
+  if (!roomCode) return task();
+
+  const previous = roomQueues.get(roomCode) || Promise.resolve();
+  const result = previous.then(task);
+
+  // A failed task must not block the ones queued after it
+  const tail = result.then(() => undefined, () => undefined);
+  roomQueues.set(roomCode, tail);
+  tail.then(() => {
+    if (roomQueues.get(roomCode) === tail) roomQueues.delete(roomCode);
+  });
+
+  return result;
+}
@@ -0,0 +1,40 @@
+import { Server } from 'socket.io';
+import { ServerToClientEvents, ClientToServerEvents, Tournament } from '../types/game.js';
+import { getStandings } from '../game/tournament.js';
+import { loadTournament, saveTournament } from '../db/storage.js';
+import { NotFoundError } from '../game/errors.js';
+import { runInRoomQueue } from './roomQueue.js';
+
+// Sockets following a tournament join its channel to hear about new rounds and standings
+export function tournamentChannel(tournamentId: string): string {
+  return `tournament:${tournamentId}`;
+}
+
+export async function getTournament(tournamentId: string): Promise<Tournament> {
+  const tournament = await loadTournament(tournamentId);
+  if (!tournament) throw new NotFoundError('TOURNAMENT_NOT_FOUND', 'Tournament not found');
+  return tournament;
+}
+
+export function emitTournament(
+  io: Server<ClientToServerEvents, ServerToClientEvents>,
+  tournament: Tournament
+): void {
+  io.to(tournamentChannel(tournament.id)).emit('tournamentUpdated', tournament, getStandings(tournament));
+}
+
+// Tables report their results as they finish, so changes to a tournament run one at a time, each
+// on the latest saved copy. The change must not itself wait on this tournament's queue.
+export function updateTournament(
+  io: Server<ClientToServerEvents, ServerToClientEvents>,
+  tournamentId: string,
+  change: (tournament: Tournament) => void | Promise<void>
+): Promise<Tournament> {
+  return runInRoomQueue(tournamentChannel(tournamentId), async () => {
+    const tournament = await getTournament(tournamentId);
+    await change(tournament);
+    await saveTournament(tournament);
+    emitTournament(io, tournament);
+    return tournament;
+  });
+}
@@ -0,0 +1,383 @@
+import {
+  PropertyColor, BotDifficulty, PlayCardTarget, ActionResponse, CreateRoomOptions,
+  GameSettings, PayloadErrorCode, RoomVisibility, GamePhase, MatchFilter, Page, RematchStarter,
+  CreateTournamentOptions, TournamentFormat, TournamentStatus
+} from '../types/game.js';
+import { PROPERTY_SET_REQUIREMENTS } from '../game/cards.js';
+import { GameError } from '../game/errors.js';
+
+// Checks for everything a client sends over the socket. Each parser returns a clean copy of
+// the payload with only the fields it knows, or throws a PayloadError before the game sees it.
+
+export class PayloadError extends GameError {
+  constructor(code: PayloadErrorCode, message: string) {
+    super(code, message);
+  }
+}
+
+const MAX_NAME_LENGTH = 24;
+const MAX_CHAT_LENGTH = 500;
+const MAX_SEED_LENGTH = 64;
+const MAX_TOKEN_LENGTH = 1024;
+const MAX_PASSWORD_LENGTH = 64;
+const MAX_GROUP_NAME_LENGTH = 40;
+const MAX_TOURNAMENT_NAME_LENGTH = 60;
+const MIN_ACCOUNT_PASSWORD_LENGTH = 8;
+const MAX_ACCOUNT_PASSWORD_LENGTH = 128;
+// Enough for every card a player could hold or own in a two-deck game
+const MAX_CARD_LIST_LENGTH = 120;
+const MAX_DOUBLE_RENT_COUNT = 4;
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+const ID_PATTERN = /^[A-Za-z0-9-]{1,64}$/;
+const ROOM_CODE_PATTERN = /^[A-Za-z0-9]{6}$/;
+const CONTROL_CHARACTERS = /[\u0000-\u001f\u007f]/;
+const USERNAME_PATTERN = /^[A-Za-z0-9_.-]{3,24}$/;
+const BOT_DIFFICULTIES: BotDifficulty[] = ['random', 'greedy', 'lookahead'];
+const VISIBILITIES: RoomVisibility[] = ['public', 'private'];
+const PHASES: GamePhase[] = ['waiting', 'playing', 'finished'];
+const REMATCH_STARTERS: RematchStarter[] = ['firstSeat', 'rotate', 'loser'];
+const TOURNAMENT_FORMATS: TournamentFormat[] = ['swiss', 'singleElimination'];
+const TOURNAMENT_STATUSES: TournamentStatus[] = ['registering', 'running', 'finished'];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function assertKnownKeys(value: Record<string, unknown>, keys: string[], code: PayloadErrorCode): void {
+  const unknown = Object.keys(value).find(key => !keys.includes(key));
+  if (unknown) throw new PayloadError(code, `Unknown field: ${unknown}`);
+}
+
+// Optional fields may be left out or sent as null
+function isAbsent(value: unknown): value is undefined | null {
+  return value === undefined || value === null;
+}
+
+function optionalBoolean(value: unknown, field: string, code: PayloadErrorCode): boolean | undefined {
+  if (isAbsent(value)) return undefined;
+  if (typeof value !== 'boolean') throw new PayloadError(code, `${field} must be true or false`);
+  return value;
+}
+
+function optionalId(value: unknown, field: string, code: PayloadErrorCode): string | undefined {
+  if (isAbsent(value)) return undefined;
+  if (typeof value !== 'string' || !ID_PATTERN.test(value)) throw new PayloadError(code, `${field} is not a valid id`);
+  return value;
+}
+
+// Leaves out fields the client did not send, so they are not stored in the event log as nulls
+function withoutUndefined<T extends object>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as T;
+}
+
+export function isCallback(value: unknown): value is (...args: any[]) => void {
+  return typeof value === 'function';
+}
+
+export function parsePlayerName(value: unknown): string {
+  if (typeof value !== 'string') throw new PayloadError('INVALID_PLAYER_NAME', 'Player name must be text');
+  const name = value.trim();
+  if (name.length === 0 || name.length > MAX_NAME_LENGTH) {
+    throw new PayloadError('INVALID_PLAYER_NAME', `Player name must be 1 to ${MAX_NAME_LENGTH} characters`);
+  }
+  if (CONTROL_CHARACTERS.test(name)) throw new PayloadError('INVALID_PLAYER_NAME', 'Player name contains invalid characters');
+  return name;
+}
+
+export function parseRoomCode(value: unknown): string {
+  if (typeof value !== 'string' || !ROOM_CODE_PATTERN.test(value)) {
+    throw new PayloadError('INVALID_ROOM_CODE', 'Room codes are 6 letters and digits');
+  }
+  return value.toUpperCase();
+}
+
+export function parseSessionToken(value: unknown): string {
+  if (typeof value !== 'string' || value.length === 0 || value.length > MAX_TOKEN_LENGTH) {
+    throw new PayloadError('INVALID_SESSION_TOKEN', 'Invalid session');
+  }
+  return value;
+}
+
+// Settings values are range-checked by createGameSettings; this only makes sure they are numbers
+function parseSettings(value: unknown, code: PayloadErrorCode): Partial<GameSettings> {
+  if (!isObject(value)) throw new PayloadError(code, 'Settings must be an object');
+  for (const [key, setting] of Object.entries(value)) {
+    if (setting !== undefined && typeof setting !== 'number') {
+      throw new PayloadError(code, `${key} must be a number`);
+    }
+  }
+  return value as Partial<GameSettings>;
+}
+
+export function parseCreateRoomOptions(value: unknown): CreateRoomOptions {
+  if (isAbsent(value)) return {};
+  if (!isObject(value)) throw new PayloadError('INVALID_OPTIONS', 'Room options must be an object');
+  assertKnownKeys(value, ['seed', 'settings', 'visibility', 'password', 'rated'], 'INVALID_OPTIONS');
+
+  const options: CreateRoomOptions = {};
+  if (!isAbsent(value.seed) && value.seed !== '') {
+    if (typeof value.seed !== 'string' || value.seed.length > MAX_SEED_LENGTH) {
+      throw new PayloadError('INVALID_OPTIONS', `Seed must be text of at most ${MAX_SEED_LENGTH} characters`);
+    }
+    options.seed = value.seed;
+  }
+  if (!isAbsent(value.settings)) options.settings = parseSettings(value.settings, 'INVALID_OPTIONS');
+  if (!isAbsent(value.visibility)) options.visibility = parseVisibility(value.visibility);
+  if (!isAbsent(value.password)) options.password = parseRoomPassword(value.password);
+  if (!isAbsent(value.rated)) options.rated = parseFlag(value.rated);
+  // Whoever picks the seed can work out the deck order, so it has no place in a rated game
+  if (options.seed && options.rated) throw new PayloadError('INVALID_OPTIONS', 'Rated rooms cannot choose a seed');
+  return options;
+}
+
+export function parseVisibility(value: unknown): RoomVisibility {
+  if (!VISIBILITIES.includes(value as RoomVisibility)) {
+    throw new PayloadError('INVALID_VISIBILITY', 'Visibility must be public or private');
+  }
+  return value as RoomVisibility;
+}
+
+export function parseRematchStarter(value: unknown): RematchStarter {
+  if (!REMATCH_STARTERS.includes(value as RematchStarter)) {
+    throw new PayloadError('INVALID_REMATCH_STARTER', `Rematch starter must be one of ${REMATCH_STARTERS.join(', ')}`);
+  }
+  return value as RematchStarter;
+}
+
+// Also used for query strings on the REST API
+export function parsePhase(value: unknown): GamePhase {
+  if (!PHASES.includes(value as GamePhase)) {
+    throw new PayloadError('INVALID_PHASE', `Phase must be one of ${PHASES.join(', ')}`);
+  }
+  return value as GamePhase;
+}
+
+export function parseBotDifficulty(value: unknown): BotDifficulty {
+  if (!BOT_DIFFICULTIES.includes(value as BotDifficulty)) {
+    throw new PayloadError('INVALID_BOT_DIFFICULTY', `Bot difficulty must be one of ${BOT_DIFFICULTIES.join(', ')}`);
+  }
+  return value as BotDifficulty;
+}
+
+export function parsePlayerId(value: unknown): string {
+  const id = optionalId(value, 'Player', 'INVALID_PLAYER_ID');
+  if (!id) throw new PayloadError('INVALID_PLAYER_ID', 'Player is required');
+  return id;
+}
+
+export function parseAccountId(value: unknown): string {
+  const id = optionalId(value, 'Account', 'INVALID_PLAYER_ID');
+  if (!id) throw new PayloadError('INVALID_PLAYER_ID', 'Account is required');
+  return id;
+}
+
+export function parseCardId(value: unknown): string {
+  const id = optionalId(value, 'Card', 'INVALID_CARD_ID');
+  if (!id) throw new PayloadError('INVALID_CARD_ID', 'Card is required');
+  return id;
+}
+
+export function parseCardIds(value: unknown): string[] {
+  if (!Array.isArray(value) || value.length > MAX_CARD_LIST_LENGTH) {
+    throw new PayloadError('INVALID_CARD_LIST', `Cards must be a list of at most ${MAX_CARD_LIST_LENGTH} card ids`);
+  }
+  const cardIds = value.map(cardId => {
+    if (typeof cardId !== 'string' || !ID_PATTERN.test(cardId)) throw new PayloadError('INVALID_CARD_LIST', 'Cards must be a list of card ids');
+    return cardId;
+  });
+  if (new Set(cardIds).size !== cardIds.length) throw new PayloadError('INVALID_CARD_LIST', 'The same card was listed twice');
+  return cardIds;
+}
+
+export function parseColor(value: unknown): PropertyColor {
+  if (typeof value !== 'string' || !(value in PROPERTY_SET_REQUIREMENTS)) {
+    throw new PayloadError('INVALID_COLOR', 'Unknown property colour');
+  }
+  return value as PropertyColor;
+}
+
+function optionalColor(value: unknown): PropertyColor | undefined {
+  return isAbsent(value) ? undefined : parseColor(value);
+}
+
+export function parsePlayCardTarget(value: unknown): PlayCardTarget | undefined {
+  if (isAbsent(value)) return undefined;
+  if (!isObject(value)) throw new PayloadError('INVALID_TARGET', 'Target must be an object');
+  assertKnownKeys(value, [
+    'playerId', 'propertySetColor', 'propertySetId', 'asBank', 'targetCardId',
+    'giveCardId', 'giveFromSet', 'giveFromSetId', 'useDoubleRent', 'doubleRentCount'
+  ], 'INVALID_TARGET');
+
+  const doubleRentCount = isAbsent(value.doubleRentCount) ? undefined : value.doubleRentCount;
+  if (doubleRentCount !== undefined &&
+    (!Number.isInteger(doubleRentCount) || (doubleRentCount as number) < 1 || (doubleRentCount as number) > MAX_DOUBLE_RENT_COUNT)) {
+    throw new PayloadError('INVALID_TARGET', `Double The Rent count must be a whole number from 1 to ${MAX_DOUBLE_RENT_COUNT}`);
+  }
+
+  return withoutUndefined({
+    playerId: optionalId(value.playerId, 'Target player', 'INVALID_TARGET'),
+    propertySetColor: optionalColor(value.propertySetColor),
+    propertySetId: optionalId(value.propertySetId, 'Property set', 'INVALID_TARGET'),
+    asBank: optionalBoolean(value.asBank, 'asBank', 'INVALID_TARGET'),
+    targetCardId: optionalId(value.targetCardId, 'Target card', 'INVALID_TARGET'),
+    giveCardId: optionalId(value.giveCardId, 'Card to give', 'INVALID_TARGET'),
+    giveFromSet: optionalColor(value.giveFromSet),
+    giveFromSetId: optionalId(value.giveFromSetId, 'Property set to give from', 'INVALID_TARGET'),
+    useDoubleRent: optionalBoolean(value.useDoubleRent, 'useDoubleRent', 'INVALID_TARGET'),
+    doubleRentCount: doubleRentCount as number | undefined
+  });
+}
+
+export function parseActionResponse(value: unknown): ActionResponse {
+  if (!isObject(value)) throw new PayloadError('INVALID_RESPONSE', 'Response must be an object');
+  assertKnownKeys(value, ['accept', 'useJustSayNo', 'paymentCardIds', 'selectedCardId', 'targetPlayerId'], 'INVALID_RESPONSE');
+  if (typeof value.accept !== 'boolean') throw new PayloadError('INVALID_RESPONSE', 'accept must be true or false');
+
+  return withoutUndefined({
+    accept: value.accept,
+    useJustSayNo: optionalBoolean(value.useJustSayNo, 'useJustSayNo', 'INVALID_RESPONSE'),
+    paymentCardIds: isAbsent(value.paymentCardIds) ? undefined : parseCardIds(value.paymentCardIds),
+    selectedCardId: optionalId(value.selectedCardId, 'Selected card', 'INVALID_RESPONSE'),
+    targetPlayerId: optionalId(value.targetPlayerId, 'Target player', 'INVALID_RESPONSE')
+  });
+}
+
+export function parseOptionalSetId(value: unknown): string | undefined {
+  return optionalId(value, 'Property set', 'INVALID_TARGET');
+}
+
+export function parseRoomPassword(value: unknown): string {
+  if (typeof value !== 'string' || value.length === 0 || value.length > MAX_PASSWORD_LENGTH) {
+    throw new PayloadError('INVALID_PASSWORD', `Password must be 1 to ${MAX_PASSWORD_LENGTH} characters`);
+  }
+  return value;
+}
+
+// Joining a room without a password may leave it out
+export function parseOptionalRoomPassword(value: unknown): string | undefined {
+  return isAbsent(value) ? undefined : parseRoomPassword(value);
+}
+
+export function parseUsername(value: unknown): string {
+  if (typeof value !== 'string' || !USERNAME_PATTERN.test(value)) {
+    throw new PayloadError('INVALID_USERNAME', 'Usernames are 3 to 24 letters, digits, dots, dashes or underscores');
+  }
+  return value;
+}
+
+export function parseAccountPassword(value: unknown): string {
+  if (typeof value !== 'string' || value.length < MIN_ACCOUNT_PASSWORD_LENGTH || value.length > MAX_ACCOUNT_PASSWORD_LENGTH) {
+    throw new PayloadError('INVALID_PASSWORD', `Passwords must be ${MIN_ACCOUNT_PASSWORD_LENGTH} to ${MAX_ACCOUNT_PASSWORD_LENGTH} characters`);
+  }
+  return value;
+}
+
+export function parseGroupName(value: unknown): string {
+  const name = typeof value === 'string' ? value.trim() : '';
+  if (name.length === 0 || name.length > MAX_GROUP_NAME_LENGTH || CONTROL_CHARACTERS.test(name)) {
+    throw new PayloadError('INVALID_GROUP_NAME', `Group names must be 1 to ${MAX_GROUP_NAME_LENGTH} characters`);
+  }
+  return name;
+}
+
+// Table size and round count are range-checked by createTournament
+export function parseCreateTournamentOptions(value: unknown): CreateTournamentOptions {
+  if (!isObject(value)) throw new PayloadError('INVALID_TOURNAMENT', 'Tournament options must be an object');
+  assertKnownKeys(value, ['name', 'format', 'tableSize', 'roundCount', 'settings'], 'INVALID_TOURNAMENT');
+
+  const name = typeof value.name === 'string' ? value.name.trim() : '';
+  if (name.length === 0 || name.length > MAX_TOURNAMENT_NAME_LENGTH || CONTROL_CHARACTERS.test(name)) {
+    throw new PayloadError('INVALID_TOURNAMENT', `Tournament names must be 1 to ${MAX_TOURNAMENT_NAME_LENGTH} characters`);
+  }
+  if (!TOURNAMENT_FORMATS.includes(value.format as TournamentFormat)) {
+    throw new PayloadError('INVALID_TOURNAMENT', 'Format must be swiss or singleElimination');
+  }
+
+  const options: CreateTournamentOptions = { name, format: value.format as TournamentFormat };
+  for (const field of ['tableSize', 'roundCount'] as const) {
+    if (isAbsent(value[field])) continue;
+    if (typeof value[field] !== 'number') throw new PayloadError('INVALID_TOURNAMENT', `${field} must be a number`);
+    options[field] = value[field];
+  }
+  if (!isAbsent(value.settings)) options.settings = parseSettings(value.settings, 'INVALID_TOURNAMENT');
+  return options;
+}
+
+export function parseTournamentId(value: unknown): string {
+  const id = optionalId(value, 'Tournament', 'INVALID_TOURNAMENT');
+  if (!id) throw new PayloadError('INVALID_TOURNAMENT', 'Tournament is required');
+  return id;
+}
+
+export function parseTournamentStatus(value: unknown): TournamentStatus {
+  if (!TOURNAMENT_STATUSES.includes(value as TournamentStatus)) {
+    throw new PayloadError('INVALID_QUERY', 'status must be registering, running or finished');
+  }
+  return value as TournamentStatus;
+}
+
+export function parseFlag(value: unknown): boolean {
+  if (typeof value !== 'boolean') throw new PayloadError('INVALID_FLAG', 'Expected true or false');
+  return value;
+}
+
+function parseQueryInteger(value: unknown, field: string, min: number, max: number, fallback: number): number {
+  if (isAbsent(value)) return fallback;
+  const number = typeof value === 'string' && /^\d+$/.test(value) ? Number(value) : NaN;
+  if (!Number.isInteger(number) || number < min || number > max) {
+    throw new PayloadError('INVALID_QUERY', `${field} must be a whole number from ${min} to ${max}`);
+  }
+  return number;
+}
+
+function parseQueryDate(value: unknown, field: string): Date | undefined {
+  if (isAbsent(value)) return undefined;
+  const date = typeof value === 'string' ? new Date(value) : new Date(NaN);
+  if (isNaN(date.getTime())) throw new PayloadError('INVALID_QUERY', `${field} must be a date`);
+  return date;
+}
+
+// Query string for the match history: accountId, result (won / lost), since, until, limit and offset
+export function parseMatchQuery(query: Record<string, unknown>): { filter: MatchFilter; page: Page } {
+  const filter: MatchFilter = withoutUndefined({
+    accountId: optionalId(query.accountId, 'accountId', 'INVALID_QUERY'),
+    since: parseQueryDate(query.since, 'since'),
+    until: parseQueryDate(query.until, 'until')
+  });
+  if (!isAbsent(query.result)) {
+    if (query.result !== 'won' && query.result !== 'lost') throw new PayloadError('INVALID_QUERY', 'result must be won or lost');
+    if (!filter.accountId) throw new PayloadError('INVALID_QUERY', 'result needs an accountId');
+    filter.result = query.result;
+  }
+
+  return { filter, page: parsePage(query) };
+}
+
+function parsePage(query: Record<string, unknown>): Page {
+  return {
+    limit: parseQueryInteger(query.limit, 'limit', 1, MAX_PAGE_SIZE, DEFAULT_PAGE_SIZE),
+    offset: parseQueryInteger(query.offset, 'offset', 0, Number.MAX_SAFE_INTEGER, 0)
+  };
+}
+
+// Query string for leaderboards: period (all / week), week (any date in it; defaults to this week), limit and offset
+export function parseLeaderboardQuery(query: Record<string, unknown>): { period: 'all' | 'week'; week?: Date; page: Page } {
+  const period = isAbsent(query.period) ? 'all' : query.period;
+  if (period !== 'all' && period !== 'week') throw new PayloadError('INVALID_QUERY', 'period must be all or week');
+  return { period, week: parseQueryDate(query.week, 'week'), page: parsePage(query) };
+}
+
+// Query string for a replay: sequence, the last event to apply; the whole log when absent
+export function parseReplayQuery(query: Record<string, unknown>): { sequence?: number } {
+  if (isAbsent(query.sequence)) return {};
+  return { sequence: parseQueryInteger(query.sequence, 'sequence', 0, Number.MAX_SAFE_INTEGER, 0) };
+}
+
+export function parseChatMessage(value: unknown): string {
+  if (typeof value !== 'string' || value.trim().length === 0) {
+    throw new PayloadError('INVALID_MESSAGE', 'Message must be non-empty text');
+  }
+  return value.slice(0, MAX_CHAT_LENGTH);
+}
@@ -50,6 +50,8 @@ export type ActionType =
   | 'doubleRent';
 
 // Player Types
+export type BotDifficulty = 'random' | 'greedy' | 'lookahead';
+
 export interface Player {
   id: string;
   name: string;
@@ -58,9 +60,14 @@ export interface Player {
   bank: Card[];
   isConnected: boolean;
   socketId?: string;
+  isBot?: boolean;
+  botDifficulty?: BotDifficulty;
+  sessionNonce?: string; // Rotated to revoke reconnection tokens, never sent to clients
+  accountId?: string; // The account that took the seat; missing for anonymous players and bots
 }
 
 export interface PropertySet {
+  id: string; // Players can own several sets of one colour in multi-deck games
   color: PropertyColor;
   cards: (PropertyCard | Card)[];
   hasHouse: boolean;
@@ -70,6 +77,8 @@ export interface PropertySet {
 
 // Game State
 export type GamePhase = 'waiting' | 'playing' | 'finished';
+export type RoomVisibility = 'public' | 'private'; // Private rooms are only found by their code
+export type RematchStarter = 'firstSeat' | 'rotate' | 'loser'; // Who starts the next game in the room
 export type TurnPhase = 'draw' | 'action' | 'discard' | 'responding' | 'finishing';
 
 export interface PendingAction {
@@ -80,14 +89,44 @@ export interface PendingAction {
   card?: Card;
   targetProperty?: PropertyCard;
   targetSet?: PropertyColor;
+  targetSetId?: string; // Exact set when the target owns several of that colour
   targetCardId?: string; // Specific card to steal (for sly deal)
   giveCardId?: string; // Card to give in exchange (for forced deal)
   giveFromSet?: PropertyColor; // Set to give from (for forced deal)
+  giveFromSetId?: string;
   canSayNo: boolean;
   respondedPlayers?: string[]; // Track who has responded for multi-player actions (birthday, rent all)
+  justSayNoChains?: Record<string, JustSayNoPlay[]>; // Just Say No cards played, keyed by the target they concern
   isDoubleRent?: boolean; // Whether double rent is applied
 }
 
+// House rules chosen by the host when the room is created
+export interface GameSettings {
+  actionsPerTurn: number;
+  handLimit: number; // Cards a player may keep at the end of their turn
+  setsToWin: number; // Complete sets of different colours needed to win
+  cardsPerDraw: number; // Cards drawn at the start of a turn, unless the hand is empty
+  birthdayAmount: number;
+  debtCollectorAmount: number;
+  turnSeconds: number; // 0 disables the turn timer
+  responseSeconds: number; // 0 disables the response timer
+  maxSpectators: number; // 0 keeps the room closed to spectators
+  spectatorDelaySeconds: number; // How far the spectator feed runs behind the game, for streaming
+}
+
+export interface JustSayNoPlay {
+  playerId: string;
+  cardId: string;
+}
+
+export interface TurnTimer {
+  turnNumber: number;
+  turnDeadline: Date | null;
+  responseKey: string | null; // Identifies the prompt the response deadline belongs to
+  responseDeadline: Date | null;
+  responseStartedAt: Date | null;
+}
+
 export interface GameState {
   id: string;
   roomCode: string;
@@ -100,8 +139,146 @@ export interface GameState {
   actionsRemaining: number;
   pendingAction: PendingAction | null;
   winner: string | null;
+  turnNumber: number;
+  decksUsed: number; // Two decks are shuffled together for more than five players
+  propertySetCount?: number; // Source of property set ids
+  version?: number; // Raised by the server each time the state is saved; missing on older games
+  visibility?: RoomVisibility; // Missing on rooms created before the lobby, which are private
+  hostId?: string; // Missing on older games, which are hosted by their first human player
+  locked?: boolean; // A locked room takes no new players
+  passwordHash?: string; // Never sent to clients
+  rated?: boolean; // Rated games change the players' ratings; missing on older games, which are unrated
+  startingPlayerId?: string;
+  rematchVotes?: string[]; // Players who want to play again once the game is over
+  rematchStarter?: RematchStarter; // Defaults to firstSeat
+  tournamentId?: string; // Tables of a tournament are run by the tournament, not a host
+  settings: GameSettings;
+  timer: TurnTimer | null;
   createdAt: Date;
   updatedAt: Date;
+  seed?: string; // Drives shuffling and card ids; never sent to clients
+  seeded?: boolean; // The creator chose the seed and so could know the deck order; such games are never rated
+  rngState?: number[]; // Shuffle generator state, advanced by every shuffle
+  cardIdCount?: number; // Card ids made from the seed so far, so a rebuilt deck gets new ones
+  reshuffleLog?: string[][]; // Reshuffles not yet written to the event log
+  replayReshuffles?: string[][]; // Recorded reshuffle orders to use instead of shuffling during a replay
+  startedAt?: Date;
+  stats?: Record<string, PlayerGameStats>; // By player id; missing on games started before stats were kept
+}
+
+// Running totals for one player in one game
+export interface PlayerGameStats {
+  cardsPlayed: {
+    property: number;
+    money: number;
+    action: number;
+    rent: number;
+    banked: number; // Action and rent cards played as money
+  };
+  rentCollected: number; // $M received from rent
+  rentPaid: number;
+  debtsCollected: number; // $M received from birthdays and debt collectors
+  debtsPaid: number;
+  justSayNoPlayed: number;
+}
+
+// Public projections - the only game data that is ever sent to clients
+export interface PublicPlayer {
+  id: string;
+  name: string;
+  hand?: Card[]; // Only present for the viewing player
+  handCount: number;
+  properties: PropertySet[];
+  bank: Card[];
+  isConnected: boolean;
+  isBot?: boolean;
+  botDifficulty?: BotDifficulty;
+  accountId?: string;
+}
+
+export interface PublicPendingAction {
+  type: ActionType | 'rent';
+  fromPlayerId: string;
+  toPlayerId?: string;
+  amount?: number;
+  targetSet?: PropertyColor;
+  targetSetId?: string;
+  targetCardId?: string;
+  giveCardId?: string;
+  giveFromSet?: PropertyColor;
+  giveFromSetId?: string;
+  canSayNo: boolean;
+  respondedPlayers?: string[];
+  justSayNoChains?: Record<string, JustSayNoPlay[]>;
+  isDoubleRent?: boolean;
+}
+
+export interface PublicGameState {
+  id: string;
+  roomCode: string;
+  players: PublicPlayer[];
+  currentPlayerIndex: number;
+  deckCount: number;
+  decksUsed: number;
+  discardPileCount: number;
+  topDiscard: Card | null;
+  phase: GamePhase;
+  turnPhase: TurnPhase;
+  actionsRemaining: number;
+  pendingAction: PublicPendingAction | null;
+  suggestedPayment?: string[]; // Cheapest cards for the viewer to pay with, when they owe money
+  winner: string | null;
+  turnNumber: number;
+  settings: GameSettings;
+  turnDeadline: Date | null;
+  responseDeadline: Date | null;
+  serverTime: Date; // Lets clients correct for clock skew when showing remaining time
+  version: number; // Increases with every saved change; clients drop updates older than one they have seen
+  visibility: RoomVisibility;
+  hostId: string | null;
+  locked: boolean;
+  hasPassword: boolean;
+  rated: boolean;
+  seeded: boolean;
+  rematchVotes: string[];
+  rematchStarter: RematchStarter;
+  tournamentId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Commands and event log
+export type GameCommand =
+  | { type: 'draw' }
+  | { type: 'play'; cardId: string; target?: PlayCardTarget }
+  | { type: 'respond'; response: ActionResponse }
+  | { type: 'discard'; cardIds: string[] }
+  | { type: 'rearrange'; cardId: string; fromColor: PropertyColor; toColor: PropertyColor; toSetId?: string }
+  | { type: 'endTurn' };
+
+// Everything a player may do right now. Discards and payments are free choices of several cards,
+// so they are described by the cards to choose from rather than listed as every combination.
+export interface LegalMoves {
+  commands: GameCommand[];
+  discard?: { count: number; cardIds: string[] }; // Discard exactly `count` of these cards
+  payment?: { amount: number; cardIds: string[]; suggestedCardIds: string[] }; // Pay at least `amount` from these cards
+}
+
+export type GameEvent =
+  | { type: 'playerJoined'; playerId: string; name: string; isBot?: boolean; botDifficulty?: BotDifficulty; accountId?: string }
+  | { type: 'playerLeft'; playerId: string }
+  | { type: 'playerReplacedByBot'; playerId: string; botDifficulty: BotDifficulty }
+  | { type: 'gameStarted'; deck: Card[]; settings?: GameSettings; startingPlayerId?: string }
+  | (GameCommand & { playerId: string });
+
+export interface GameEventRecord {
+  gameId: string;
+  roomCode: string;
+  sequence: number;
+  timestamp: Date;
+  event: GameEvent;
+  reshuffles?: string[][]; // Card id order of every discard pile reshuffle this event caused
+  stateVersion?: number; // State version the event produced
 }
 
 // Chat
@@ -111,42 +288,226 @@ export interface ChatMessage {
   playerName: string;
   message: string;
   timestamp: Date;
-  type: 'chat' | 'system';
+  type: 'chat' | 'system' | 'spectator'; // Spectator chat is only seen by spectators
+}
+
+export interface CreateRoomOptions {
+  seed?: string; // Only for unrated rooms, which are then shown as seeded
+  settings?: Partial<GameSettings>;
+  visibility?: RoomVisibility; // Defaults to private
+  password?: string; // Needed to join or watch the room
+  rated?: boolean; // Defaults to unrated
+}
+
+// A public room as shown in the lobby
+export interface RoomSummary {
+  code: string;
+  hostName: string;
+  playerCount: number;
+  botCount: number;
+  maxPlayers: number;
+  spectatorCount: number;
+  locked: boolean;
+  hasPassword: boolean;
+  rated: boolean;
+  seeded: boolean;
+  phase: GamePhase;
+  settings: GameSettings;
+  createdAt: Date;
+}
+
+// Why the game refused a request
+export type GameErrorCode =
+  // Turn order
+  | 'NOT_YOUR_TURN'
+  | 'WRONG_PHASE'
+  | 'NO_ACTIONS_REMAINING'
+  | 'ACTION_PENDING'
+  | 'NO_PENDING_ACTION'
+  | 'ALREADY_RESPONDED'
+  | 'NOT_WAITING_FOR_RESPONSE'
+  // Things the request named that do not exist
+  | 'PLAYER_NOT_FOUND'
+  | 'CARD_NOT_IN_HAND'
+  | 'CARD_NOT_FOUND'
+  | 'PROPERTY_SET_NOT_FOUND'
+  // Card rules
+  | 'TARGET_REQUIRED'
+  | 'INVALID_WILDCARD_COLOR'
+  | 'NOT_A_WILDCARD'
+  | 'SET_NOT_COMPLETE'
+  | 'SET_ALREADY_COMPLETE'
+  | 'CANNOT_BUILD_HERE'
+  | 'ALREADY_HAS_HOUSE'
+  | 'HOUSE_REQUIRED'
+  | 'ALREADY_HAS_HOTEL'
+  | 'WILD_CANNOT_START_SET'
+  | 'WILD_BREAKS_BUILT_SET'
+  | 'NO_MATCHING_PROPERTY'
+  | 'NO_DOUBLE_RENT_CARD'
+  | 'NOT_ENOUGH_ACTIONS'
+  | 'NEEDS_RENT_CARD'
+  | 'RESPONSE_ONLY'
+  | 'CANNOT_REFUSE'
+  | 'NO_JUST_SAY_NO'
+  | 'NOTHING_TO_ANSWER'
+  | 'MUST_DISCARD_EXACTLY'
+  // Payments
+  | 'DUPLICATE_CARD'
+  | 'CARD_NOT_OWNED'
+  | 'WILD_HAS_NO_VALUE'
+  | 'HOUSE_UNDER_HOTEL'
+  | 'MUST_PAY_AT_LEAST'
+  // Rooms
+  | 'ROOM_NOT_FOUND'
+  | 'ROOM_FULL'
+  | 'NOT_IN_ROOM'
+  | 'NOT_HOST'
+  | 'GAME_ALREADY_STARTED'
+  | 'NOT_ENOUGH_PLAYERS'
+  | 'TOO_MANY_PLAYERS'
+  | 'INVALID_SESSION'
+  | 'SESSION_REVOKED'
+  | 'ALREADY_IN_ROOM'
+  | 'ROOM_LOCKED'
+  | 'WRONG_PASSWORD'
+  | 'INVALID_HOST'
+  | 'CANNOT_KICK_HOST'
+  | 'KICKED'
+  | 'RATED_GAME_INELIGIBLE'
+  | 'GAME_NOT_FINISHED'
+  | 'GAME_NOT_FOUND'
+  // Tournaments
+  | 'TOURNAMENT_NOT_FOUND'
+  | 'TOURNAMENT_STARTED'
+  | 'TOURNAMENT_FULL'
+  | 'NOT_ORGANIZER'
+  | 'NOT_ENOUGH_ENTRANTS'
+  | 'TOURNAMENT_ROOM'
+  // Accounts
+  | 'USERNAME_TAKEN'
+  | 'INVALID_CREDENTIALS'
+  | 'ACCOUNT_NOT_FOUND'
+  | 'NOT_A_GUEST'
+  | 'AUTH_REQUIRED'
+  | 'MATCH_NOT_FOUND'
+  | 'GROUP_NOT_FOUND'
+  | 'SPECTATORS_NOT_ALLOWED'
+  | 'SPECTATORS_CANNOT_PLAY'
+  // Settings
+  | 'INVALID_SETTINGS'
+  | 'UNKNOWN_SETTING'
+  | 'SETTING_OUT_OF_RANGE'
+  // Anything unexpected; the details are only logged on the server
+  | 'SERVER_ERROR';
+
+// Why a client payload was rejected before reaching the game
+export type PayloadErrorCode =
+  | 'INVALID_PLAYER_NAME'
+  | 'INVALID_ROOM_CODE'
+  | 'INVALID_SESSION_TOKEN'
+  | 'INVALID_OPTIONS'
+  | 'INVALID_BOT_DIFFICULTY'
+  | 'INVALID_PLAYER_ID'
+  | 'INVALID_CARD_ID'
+  | 'INVALID_CARD_LIST'
+  | 'INVALID_COLOR'
+  | 'INVALID_TARGET'
+  | 'INVALID_RESPONSE'
+  | 'INVALID_MESSAGE'
+  | 'INVALID_VISIBILITY'
+  | 'INVALID_PHASE'
+  | 'INVALID_PASSWORD'
+  | 'INVALID_FLAG'
+  | 'INVALID_USERNAME'
+  | 'INVALID_GROUP_NAME'
+  | 'INVALID_REMATCH_STARTER'
+  | 'INVALID_TOURNAMENT'
+  | 'INVALID_QUERY';
+
+export type ErrorCode = GameErrorCode | PayloadErrorCode;
+
+// Values the error message was built from, e.g. MUST_PAY_AT_LEAST has { minimum, selected }
+export type ErrorParams = Record<string, string | number>;
+
+export interface ErrorInfo {
+  code: ErrorCode;
+  message: string; // English text, for clients that have no translation for the code
+  params: ErrorParams;
+}
+
+// Sent through the acknowledgement callback a client passes with any request
+export interface RequestAck {
+  success: boolean;
+  error?: ErrorInfo;
 }
 
 // Socket Events
 export interface ServerToClientEvents {
-  gameState: (state: GameState) => void;
-  playerJoined: (player: Player) => void;
+  gameState: (state: PublicGameState) => void;
+  playerJoined: (player: PublicPlayer) => void;
   playerLeft: (playerId: string) => void;
   chatMessage: (message: ChatMessage) => void;
-  error: (message: string) => void;
-  actionRequired: (action: PendingAction) => void;
+  error: (error: ErrorInfo) => void; // Only for requests sent without an acknowledgement callback
+  actionRequired: (action: PublicPendingAction) => void;
   gameOver: (winnerId: string, winnerName: string) => void;
+  spectators: (spectators: PublicSpectator[]) => void;
+  // Sent to sockets in the lobby whenever a listed room changes, or stops being listed
+  lobbyRoomUpdated: (room: RoomSummary) => void;
+  lobbyRoomRemoved: (roomCode: string) => void;
+  // Sent to sockets watching a tournament whenever its rounds or standings change
+  tournamentUpdated: (tournament: Tournament, standings: TournamentStanding[]) => void;
 }
 
 export interface ClientToServerEvents {
-  createRoom: (playerName: string, callback: (response: { roomCode?: string; error?: string }) => void) => void;
-  joinRoom: (roomCode: string, playerName: string, callback: (response: { success: boolean; error?: string }) => void) => void;
-  startGame: () => void;
-  drawCards: () => void;
-  playCard: (cardId: string, target?: PlayCardTarget) => void;
-  discardCards: (cardIds: string[]) => void;
-  endTurn: () => void;
-  respondToAction: (response: ActionResponse) => void;
-  rearrangeProperty: (cardId: string, fromColor: PropertyColor, toColor: PropertyColor) => void;
-  sendChat: (message: string) => void;
-  leaveRoom: () => void;
+  createRoom: (playerName: string, options: CreateRoomOptions, callback: (response: { roomCode?: string; playerId?: string; sessionToken?: string; error?: ErrorInfo }) => void) => void;
+  // The password may be left out, with the callback in its place, for rooms without one
+  joinRoom: (roomCode: string, playerName: string, password: string | undefined, callback: (response: { success: boolean; playerId?: string; sessionToken?: string; error?: ErrorInfo }) => void) => void;
+  rejoinRoom: (sessionToken: string, callback: (response: { success: boolean; roomCode?: string; playerId?: string; error?: ErrorInfo }) => void) => void;
+  revokeSession: (playerId: string, callback: (response: { success: boolean; sessionToken?: string; error?: ErrorInfo }) => void) => void;
+  startGame: (ack?: (response: RequestAck) => void) => void;
+  addBot: (difficulty: BotDifficulty, callback: (response: { success: boolean; error?: ErrorInfo }) => void) => void;
+  removeBot: (playerId: string, ack?: (response: RequestAck) => void) => void;
+  drawCards: (ack?: (response: RequestAck) => void) => void;
+  playCard: (cardId: string, target?: PlayCardTarget, ack?: (response: RequestAck) => void) => void;
+  discardCards: (cardIds: string[], ack?: (response: RequestAck) => void) => void;
+  endTurn: (ack?: (response: RequestAck) => void) => void;
+  respondToAction: (response: ActionResponse, ack?: (response: RequestAck) => void) => void;
+  rearrangeProperty: (cardId: string, fromColor: PropertyColor, toColor: PropertyColor, toSetId?: string, ack?: (response: RequestAck) => void) => void;
+  getLegalMoves: (callback: (response: { moves?: LegalMoves; error?: ErrorInfo }) => void) => void;
+  sendChat: (message: string, ack?: (response: RequestAck) => void) => void;
+  spectateRoom: (roomCode: string, name: string, password: string | undefined, callback: (response: { success: boolean; spectatorId?: string; error?: ErrorInfo }) => void) => void;
+  sendSpectatorChat: (message: string, ack?: (response: RequestAck) => void) => void;
+  // Only for sockets that connected with an account token
+  getMySeats: (callback: (response: { seats?: AccountSeat[]; error?: ErrorInfo }) => void) => void;
+  resumeSeat: (roomCode: string, callback: (response: { success: boolean; playerId?: string; sessionToken?: string; error?: ErrorInfo }) => void) => void;
+  setRoomVisibility: (visibility: RoomVisibility, ack?: (response: RequestAck) => void) => void;
+  setRoomRated: (rated: boolean, ack?: (response: RequestAck) => void) => void;
+  // Once every connected player has opted in, the room starts a new game with the same seats
+  voteRematch: (optIn: boolean, ack?: (response: RequestAck) => void) => void;
+  setRematchStarter: (starter: RematchStarter, ack?: (response: RequestAck) => void) => void;
+  kickPlayer: (playerId: string, ack?: (response: RequestAck) => void) => void;
+  transferHost: (playerId: string, ack?: (response: RequestAck) => void) => void;
+  setRoomLocked: (locked: boolean, ack?: (response: RequestAck) => void) => void;
+  setRoomPassword: (password: string | null, ack?: (response: RequestAck) => void) => void; // null removes the password
+  joinLobby: (callback: (response: { rooms?: RoomSummary[]; error?: ErrorInfo }) => void) => void;
+  leaveLobby: () => void;
+  leaveRoom: () => void; // Also stops spectating
+  watchTournament: (tournamentId: string, callback: (response: { tournament?: Tournament; standings?: TournamentStanding[]; error?: ErrorInfo }) => void) => void;
+  unwatchTournament: (tournamentId: string) => void;
 }
 
 export interface PlayCardTarget {
   playerId?: string;
   propertySetColor?: PropertyColor;
+  propertySetId?: string; // Picks one set when a player owns several of the colour
   asBank?: boolean;
   targetCardId?: string; // Specific card to steal
   giveCardId?: string; // Card to give in exchange (forced deal)
   giveFromSet?: PropertyColor; // Set to give from (forced deal)
+  giveFromSetId?: string;
   useDoubleRent?: boolean; // Whether to use double rent
+  doubleRentCount?: number; // Double The Rent cards to stack, each costing an action (default 1)
 }
 
 export interface ActionResponse {
@@ -154,6 +515,183 @@ export interface ActionResponse {
   useJustSayNo?: boolean;
   paymentCardIds?: string[];
   selectedCardId?: string; // Card selected by target player (for sly deal - they choose which to give)
+  targetPlayerId?: string; // Whose Just Say No the initiator is answering, when several are waiting
+}
+
+// Accounts let a player keep one identity across rooms and devices. Guests get an account
+// without a username or password and can add them later to keep everything they played.
+export interface Account {
+  id: string;
+  username: string | null; // null for guests
+  usernameKey: string | null; // Lower-case username, unique across accounts
+  displayName: string;
+  passwordHash: string | null; // Never sent to clients
+  isGuest: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// The lasting record of a finished game
+export interface MatchRecord {
+  gameId: string;
+  roomCode: string;
+  startedAt: Date;
+  finishedAt: Date;
+  durationSeconds: number;
+  turnCount: number;
+  winnerId: string;
+  winnerAccountId: string | null;
+  participants: MatchParticipant[];
+  completedSetsByColor: Partial<Record<PropertyColor, number>>; // Complete sets on the table at the end
+  settings: GameSettings;
+  rated: boolean; // Only when the room was rated and every seat was an account, never a bot
+}
+
+export interface MatchParticipant {
+  playerId: string;
+  accountId: string | null;
+  name: string;
+  isBot: boolean;
+  botDifficulty?: BotDifficulty;
+  isWinner: boolean;
+  completedSets: PropertyColor[];
+  stats: PlayerGameStats;
+  rating?: RatingChange; // Only in rated games
+}
+
+export interface RatingChange {
+  before: number;
+  after: number;
+}
+
+export interface MatchFilter {
+  accountId?: string; // Games this account played in
+  result?: 'won' | 'lost'; // Only with accountId
+  since?: Date; // Finished at or after
+  until?: Date; // Finished before
+  rated?: boolean;
+}
+
+export interface Page {
+  limit: number;
+  offset: number;
+}
+
+// Lifetime totals for an account across every recorded game
+export interface AccountStats {
+  accountId: string;
+  gamesPlayed: number;
+  wins: number;
+  winRate: number; // 0 to 1
+  totalTurns: number;
+  setsCompletedByColor: Partial<Record<PropertyColor, number>>;
+  totals: PlayerGameStats;
+}
+
+// An account's current rating from its rated games
+export interface PlayerRating {
+  accountId: string;
+  rating: number;
+  gamesPlayed: number;
+  wins: number;
+  updatedAt: Date;
+}
+
+// Accounts that compare ratings among themselves, like a weekly league. Anyone with the id can join.
+export interface FriendGroup {
+  id: string;
+  name: string;
+  createdBy: string; // Account id
+  memberIds: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// One row of a leaderboard. Weekly boards rank by rating gained in the week and count only its games.
+export interface LeaderboardEntry {
+  rank: number;
+  accountId: string;
+  displayName: string;
+  rating: number;
+  ratingChange?: number; // Weekly boards only
+  gamesPlayed: number;
+  wins: number;
+}
+
+// Tournaments
+export type TournamentFormat = 'swiss' | 'singleElimination';
+export type TournamentStatus = 'registering' | 'running' | 'finished';
+
+export interface Tournament {
+  id: string;
+  name: string;
+  format: TournamentFormat;
+  status: TournamentStatus;
+  organizerId: string; // Account that created the tournament and starts it
+  tableSize: number; // Most players seated at one table
+  roundCount: number | null; // Swiss only; chosen from the field size at the start when not given
+  settings: GameSettings; // Used by every table
+  entrants: TournamentEntrant[];
+  rounds: TournamentRound[];
+  championId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface TournamentEntrant {
+  accountId: string;
+  displayName: string;
+  status: 'active' | 'eliminated' | 'dropped'; // Dropped players missed a game or left one for good
+  wins: number;
+  setsCompleted: number; // Tiebreak
+  gamesPlayed: number;
+}
+
+export interface TournamentRound {
+  number: number; // From 1
+  tables: TournamentTable[];
+  checkInDeadline: Date; // Players not at their table by then forfeit it
+}
+
+export interface TournamentTable {
+  roomCode: string;
+  accountIds: string[];
+  status: 'waiting' | 'playing' | 'finished';
+  winnerAccountId: string | null; // null when nobody at the table could win it
+  noShows: string[];
+}
+
+export interface TournamentStanding {
+  rank: number;
+  accountId: string;
+  displayName: string;
+  status: TournamentEntrant['status'];
+  wins: number;
+  setsCompleted: number;
+  gamesPlayed: number;
+}
+
+export interface CreateTournamentOptions {
+  name: string;
+  format: TournamentFormat;
+  tableSize?: number;
+  roundCount?: number;
+  settings?: Partial<GameSettings>;
+}
+
+// A seat an account holds in a room that is still going
+export interface AccountSeat {
+  roomCode: string;
+  playerId: string;
+  phase: GamePhase;
+}
+
+export interface PublicAccount {
+  id: string;
+  username: string | null;
+  displayName: string;
+  isGuest: boolean;
+  createdAt: Date;
 }
 
 // Room
@@ -161,4 +699,18 @@ export interface Room {
   code: string;
   gameState: GameState;
   chatMessages: ChatMessage[];
+  eventSequence: number;
+  spectators: Spectator[]; // Only kept in memory; spectators join again after a restart
+}
+
+// Someone watching a room. Spectators see every hand hidden and cannot send game commands.
+export interface Spectator {
+  id: string;
+  name: string;
+  socketId: string;
+}
+
+export interface PublicSpectator {
+  id: string;
+  name: string;
 }
@@ -0,0 +1,50 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { setStorage } from '../src/db/storage.js';
+import { createMemoryStorage } from '../src/db/memoryStorage.js';
+import {
+  registerAccount, createGuestAccount, upgradeGuestAccount, logIn, authenticate,
+  issueAccountToken, verifyAccountToken, toPublicAccount
+} from '../src/auth/accounts.js';
+
+describe('accounts', () => {
+  beforeEach(() => {
+    setStorage(createMemoryStorage());
+  });
+
+  afterEach(() => {
+    setStorage(null);
+  });
+
+  it('registers accounts with unique usernames and logs them in', async () => {
+    const account = await registerAccount('Alice', 'correct horse');
+    expect(account.passwordHash).not.toContain('correct horse');
+    expect(toPublicAccount(account)).not.toHaveProperty('passwordHash');
+
+    await expect(registerAccount('alice', 'another password')).rejects.toMatchObject({ code: 'USERNAME_TAKEN' });
+    expect((await logIn('ALICE', 'correct horse')).id).toBe(account.id);
+    await expect(logIn('alice', 'wrong horse')).rejects.toMatchObject({ code: 'INVALID_CREDENTIALS' });
+    await expect(logIn('nobody', 'correct horse')).rejects.toMatchObject({ code: 'INVALID_CREDENTIALS' });
+  });
+
+  it('upgrades a guest without changing its id', async () => {
+    const guest = await createGuestAccount('Bob');
+    await expect(logIn('bob', 'swordfish1')).rejects.toMatchObject({ code: 'INVALID_CREDENTIALS' });
+
+    const upgraded = await upgradeGuestAccount(guest.id, 'bob', 'swordfish1');
+    expect(upgraded).toMatchObject({ id: guest.id, username: 'bob', displayName: 'Bob', isGuest: false });
+    expect((await logIn('bob', 'swordfish1')).id).toBe(guest.id);
+    await expect(upgradeGuestAccount(guest.id, 'bobby', 'swordfish1')).rejects.toMatchObject({ code: 'NOT_A_GUEST' });
+  });
+
+  it('accepts account tokens until they expire', async () => {
+    const account = await createGuestAccount('Carol');
+    const now = Date.now();
+    const token = issueAccountToken(account, now);
+
+    expect(verifyAccountToken(token, now)).toBe(account.id);
+    expect((await authenticate(token)).id).toBe(account.id);
+    expect(verifyAccountToken(token, now + 31 * 24 * 60 * 60 * 1000)).toBeNull();
+    expect(verifyAccountToken(token.slice(0, -2) + 'xx', now)).toBeNull();
+    await expect(authenticate(undefined)).rejects.toMatchObject({ code: 'AUTH_REQUIRED' });
+  });
+});
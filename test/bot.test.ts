@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { createGameState, addBot, startGame } from '../src/game/gameLogic.js';
+import { applyGameCommand } from '../src/game/gameEvents.js';
+import { chooseBotCommand, getNextBotToAct } from '../src/game/bot.js';
+import { getLegalMoves } from '../src/game/legalMoves.js';
+import { PropertyColor } from '../src/types/game.js';
+import { setup } from './helpers.js';
+
+describe('bots', () => {
+  it('play a full game through the normal game functions', () => {
+    const state = createGameState('ROOM01', 'bots');
+    addBot(state, 'Random', 'random');
+    addBot(state, 'Greedy', 'greedy');
+    startGame(state);
+
+    for (let step = 0; step < 2000 && state.phase === 'playing'; step++) {
+      const bot = getNextBotToAct(state)!;
+      const command = chooseBotCommand(state, bot.id)!;
+      expect(() => applyGameCommand(state, bot.id, command)).not.toThrow();
+    }
+    expect(state.phase).toBe('finished');
+  });
+
+  it('decide quickly on a crowded two-deck table', () => {
+    const colors: PropertyColor[] = ['railroad', 'utility', 'green', 'darkBlue', 'red', 'yellow', 'orange', 'pink', 'lightBlue', 'brown'];
+    const opponents = Array.from({ length: 9 }, (_, i) => ({
+      name: `P${i}`,
+      id: `p${i}`,
+      properties: [0, 3, 6].map(offset => colors[(i + offset) % colors.length]).map(color => ({ color, cards: [`property:${color}`] }))
+    }));
+    const state = setup({
+      decks: 2,
+      players: [
+        {
+          name: 'Bot',
+          id: 'bot',
+          isBot: true,
+          botDifficulty: 'lookahead',
+          hand: ['action:forcedDeal', 'action:forcedDeal', 'action:slyDeal', 'action:debtCollector', 'action:dealBreaker', 'rent:wild', 'action:doubleRent'],
+          properties: (['railroad', 'green', 'red', 'yellow'] as PropertyColor[]).map(color => ({ color, cards: [`property:${color}`, `property:${color}`] }))
+        },
+        ...opponents
+      ]
+    });
+    // Each Forced Deal can swap any of 8 cards for any of 27 opponent properties
+    expect(getLegalMoves(state, 'bot').commands.length).toBeGreaterThan(500);
+
+    const started = Date.now();
+    expect(chooseBotCommand(state, 'bot')).not.toBeNull();
+    expect(Date.now() - started).toBeLessThan(2000);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { v4 as uuidv4 } from 'uuid';
+import { createDeck, shuffleDeck } from '../src/game/cards.js';
+import { createGameState, createShuffledDeck } from '../src/game/gameLogic.js';
+import { createSeededRandom, createSeededIds, hashSeed } from '../src/game/random.js';
+
+describe('createDeck', () => {
+  it('builds a deck with unique card ids', () => {
+    const deck = createDeck();
+    const count = (type: string) => deck.filter(c => c.type === type).length;
+
+    expect(count('money')).toBe(20);
+    expect(count('rent')).toBe(13);
+    expect(new Set(deck.map(c => c.id)).size).toBe(deck.length);
+  });
+});
+
+describe('seeded games', () => {
+  it('produce the same card ids and order from the same seed', () => {
+    const a = createGameState('ROOM01', 'seed-1');
+    const b = createGameState('ROOM01', 'seed-1');
+    const c = createGameState('ROOM01', 'seed-2');
+
+    expect(a.deck).toEqual(b.deck);
+    expect(a.deck.map(card => card.id)).not.toEqual(c.deck.map(card => card.id));
+  });
+
+  it('hand out card ids that give nothing away about the shuffle', () => {
+    const state = createGameState('ROOM01', 'seed-1');
+    const ids = new Set(state.deck.map(card => card.id));
+
+    // Ids drawn from the shuffle generator would let anyone holding one search for its state
+    const stream = createSeededRandom({ rngState: hashSeed('seed-1') });
+    const streamIds = Array.from({ length: 200 }, () => uuidv4({ random: Array.from({ length: 16 }, () => Math.floor(stream() * 256)) }));
+    expect(streamIds.filter(id => ids.has(id))).toEqual([]);
+
+    // They depend only on the seed and how many ids came before, not on the generator
+    expect(new Set(createDeck(createSeededIds('seed-1', { cardIdCount: 0 })).map(card => card.id))).toEqual(ids);
+    expect(hashSeed('seed-1')).toHaveLength(4);
+  });
+
+  it('give a rebuilt deck new card ids', () => {
+    const state = createGameState('ROOM01', 'seed-1');
+    const rebuilt = createShuffledDeck(state);
+    expect(rebuilt.filter(card => state.deck.some(other => other.id === card.id))).toEqual([]);
+  });
+
+  it('continue the sequence from a persisted generator state', () => {
+    const holder = { rngState: hashSeed('seed') };
+    const random = createSeededRandom(holder);
+    random();
+
+    const restored = createSeededRandom({ rngState: holder.rngState });
+    expect(restored()).toBe(random());
+  });
+
+  it('shuffle without losing cards', () => {
+    const deck = createDeck();
+    const shuffled = shuffleDeck(deck, createSeededRandom({ rngState: hashSeed('shuffle') }));
+    expect([...shuffled].sort((x, y) => x.id.localeCompare(y.id))).toEqual([...deck].sort((x, y) => x.id.localeCompare(y.id)));
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { playCard, respondToAction, drawCards } from '../src/game/gameLogic.js';
+import { createGameSettings } from '../src/game/settings.js';
+import { GameError, TurnError, RuleError, PaymentError, toErrorInfo } from '../src/game/errors.js';
+import { PayloadError } from '../src/socket/validation.js';
+import { setup, handCard, bankCard } from './helpers.js';
+
+function caught(action: () => unknown): unknown {
+  try {
+    action();
+  } catch (error) {
+    return error;
+  }
+  throw new Error('Expected an error');
+}
+
+describe('game errors', () => {
+  it('carry a stable code and the values behind the message', () => {
+    const state = setup({
+      players: [
+        { name: 'Alice', id: 'alice', hand: ['action:debtCollector'] },
+        { name: 'Bob', id: 'bob', bank: ['money:1', 'money:5'] }
+      ]
+    });
+    playCard(state, 'alice', handCard(state, 'alice', 'action:debtCollector'), { playerId: 'bob' });
+
+    const error = caught(() => respondToAction(state, 'bob', { accept: true, paymentCardIds: [bankCard(state, 'bob', 'money:1')] }));
+    expect(error).toBeInstanceOf(PaymentError);
+    expect(error).toBeInstanceOf(RuleError);
+    expect(toErrorInfo(error)).toEqual({
+      code: 'MUST_PAY_AT_LEAST',
+      message: 'You must pay at least $5M (you selected $1M)',
+      params: { minimum: 5, selected: 1 }
+    });
+  });
+
+  it('group turn order mistakes apart from rule breaks', () => {
+    const state = setup({ turnPhase: 'draw' });
+    const outOfTurn = caught(() => drawCards(state, 'bob'));
+    expect(outOfTurn).toBeInstanceOf(TurnError);
+    expect((outOfTurn as GameError).code).toBe('NOT_YOUR_TURN');
+
+    const wrongPhase = caught(() => playCard(state, 'alice', 'any-card'));
+    expect(toErrorInfo(wrongPhase)).toMatchObject({ code: 'WRONG_PHASE', params: { phase: 'draw' } });
+
+    expect(toErrorInfo(caught(() => createGameSettings({ handLimit: 99 })))).toMatchObject({
+      code: 'SETTING_OUT_OF_RANGE',
+      params: { key: 'handLimit', min: 3, max: 15 }
+    });
+  });
+
+  it('include payload errors and hide anything unexpected', () => {
+    expect(toErrorInfo(new PayloadError('INVALID_COLOR', 'Unknown property colour'))).toEqual({
+      code: 'INVALID_COLOR',
+      message: 'Unknown property colour',
+      params: {}
+    });
+    expect(toErrorInfo(new TypeError('Cannot read properties of undefined'))).toEqual({
+      code: 'SERVER_ERROR',
+      message: 'Something went wrong',
+      params: {}
+    });
+  });
+});
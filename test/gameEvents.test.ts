@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { GameEventRecord, GameEvent, GameState } from '../src/types/game.js';
+import { createGameState, addBot, startGame, createShuffledDeck, resetForRematch } from '../src/game/gameLogic.js';
+import { applyGameCommand, takeReshuffles, replayGameEvents } from '../src/game/gameEvents.js';
+import { chooseBotCommand, getNextBotToAct } from '../src/game/bot.js';
+
+// Record events the way the server does, for a game between bots
+function recorder(state: GameState, records: GameEventRecord[] = []) {
+  return (event: GameEvent) => records.push({
+    gameId: state.id,
+    roomCode: state.roomCode,
+    sequence: records.length,
+    timestamp: new Date(),
+    event,
+    reshuffles: takeReshuffles(state)
+  });
+}
+
+function playBots(state: GameState, record: (event: GameEvent) => void, maxSteps = 300): void {
+  for (let step = 0; step < maxSteps && state.phase === 'playing'; step++) {
+    const bot = getNextBotToAct(state)!;
+    const command = chooseBotCommand(state, bot.id)!;
+    applyGameCommand(state, bot.id, command);
+    record({ ...command, playerId: bot.id });
+  }
+}
+
+const comparable = (s: object) => ({
+  ...s, createdAt: undefined, updatedAt: undefined, startedAt: undefined, seed: undefined, rngState: undefined,
+  cardIdCount: undefined
+});
+
+describe('replayGameEvents', () => {
+  it('rebuilds the exact state of a recorded game', () => {
+    const state = createGameState('ROOM01', 'replay');
+    const records: GameEventRecord[] = [];
+    const record = recorder(state, records);
+
+    for (const name of ['A', 'B', 'C']) {
+      const bot = addBot(state, name, 'random');
+      record({ type: 'playerJoined', playerId: bot.id, name, isBot: true, botDifficulty: 'random' });
+    }
+    const deck = createShuffledDeck(state);
+    startGame(state, deck);
+    record({ type: 'gameStarted', deck });
+    playBots(state, record);
+
+    const replayed = replayGameEvents(records);
+    expect(comparable(replayed)).toEqual(comparable(state));
+  });
+
+  it('rebuilds a rematch from its own log', () => {
+    const state = createGameState('ROOM01', 'rematch');
+    const record = recorder(state);
+    for (const name of ['A', 'B']) addBot(state, name, 'greedy');
+    startGame(state, createShuffledDeck(state));
+    playBots(state, record, 2000);
+    expect(state.phase).toBe('finished');
+
+    resetForRematch(state, state.players);
+    const records: GameEventRecord[] = [];
+    const recordRematch = recorder(state, records);
+    for (const bot of state.players) {
+      recordRematch({ type: 'playerJoined', playerId: bot.id, name: bot.name, isBot: true, botDifficulty: 'greedy' });
+    }
+    const deck = createShuffledDeck(state);
+    startGame(state, deck);
+    recordRematch({ type: 'gameStarted', deck });
+    playBots(state, recordRematch);
+
+    const replayed = replayGameEvents(records);
+    expect(comparable(replayed)).toEqual(comparable(state));
+  });
+
+  it('starts replayed games with the recorded starting player', () => {
+    const records: GameEventRecord[] = ['A', 'B'].map((name, sequence) => ({
+      gameId: 'game-1', roomCode: 'ROOM01', sequence, timestamp: new Date(),
+      event: { type: 'playerJoined', playerId: name, name, isBot: true, botDifficulty: 'random' }
+    }));
+    const deck = createShuffledDeck(createGameState('ROOM01'));
+    records.push({ gameId: 'game-1', roomCode: 'ROOM01', sequence: 2, timestamp: new Date(), event: { type: 'gameStarted', deck, startingPlayerId: 'B' } });
+
+    const replayed = replayGameEvents(records);
+    expect(replayed.players[replayed.currentPlayerIndex].id).toBe('B');
+    expect(replayed.startingPlayerId).toBe('B');
+  });
+
+  it('stops at a given sequence number', () => {
+    const state = createGameState('ROOM01');
+    const records: GameEventRecord[] = ['A', 'B'].map((name, sequence) => ({
+      gameId: state.id,
+      roomCode: 'ROOM01',
+      sequence,
+      timestamp: new Date(),
+      event: { type: 'playerJoined', playerId: name, name },
+      stateVersion: sequence + 1
+    }));
+
+    const replayed = replayGameEvents(records, 0);
+    expect(replayed.players.map(p => p.id)).toEqual(['A']);
+    expect(replayed.hostId).toBe('A');
+    expect(replayed.version).toBe(1);
+    expect(() => replayGameEvents([])).toThrow('No events to replay');
+  });
+});
@@ -0,0 +1,1009 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createGameState, addPlayer, addBot, removePlayer, startGame, drawCards,
+  playCard, respondToAction, discardCards, endTurnEarly, rearrangeProperty,
+  getPublicGameState, getPendingResponders, getJustSayNoChain,
+  getHost, transferHost, replaceWithBot, voteRematch, isRematchAgreed, getRematchPlayers,
+  chooseRematchStarter, resetForRematch
+} from '../src/game/gameLogic.js';
+import { createDeck } from '../src/game/cards.js';
+import { setup, player, handCard, bankCard, propertyCard, bankTotal } from './helpers.js';
+
+describe('room setup', () => {
+  it('adds players and bots while waiting', () => {
+    const state = createGameState('ROOM01');
+    addPlayer(state, 'Alice', 'socket-1');
+    const bot = addBot(state, 'Bot', 'greedy');
+
+    expect(state.players).toHaveLength(2);
+    expect(bot.isBot).toBe(true);
+    expect(bot.botDifficulty).toBe('greedy');
+  });
+
+  it('rejects bots once the room is full or the game has started', () => {
+    const state = createGameState('ROOM01');
+    for (let i = 0; i < 10; i++) addPlayer(state, `P${i}`, `s${i}`);
+    expect(() => addBot(state, 'Bot', 'random')).toThrow('Room is full');
+
+    const started = setup();
+    expect(() => addBot(started, 'Bot', 'random')).toThrow('Bots can only be added before the game starts');
+  });
+
+  it('removes players and keeps the current index in range', () => {
+    const state = setup({ currentPlayerIndex: 1 });
+    removePlayer(state, 'bob');
+    expect(state.players).toHaveLength(1);
+    expect(state.currentPlayerIndex).toBe(0);
+  });
+
+  it('makes the first player host and hands the role on when the host leaves', () => {
+    const state = createGameState('ROOM01');
+    const alice = addPlayer(state, 'Alice', 's1');
+    addBot(state, 'Bot', 'random');
+    const bob = addPlayer(state, 'Bob', 's2');
+    const carol = addPlayer(state, 'Carol', 's3');
+    expect(getHost(state)?.id).toBe(alice.id);
+
+    bob.isConnected = false;
+    removePlayer(state, alice.id);
+    expect(getHost(state)?.id).toBe(carol.id);
+
+    transferHost(state, bob.id);
+    expect(getPublicGameState(state).hostId).toBe(bob.id);
+    expect(() => transferHost(state, state.players[0].id)).toThrow('Only a human player can be the host');
+  });
+
+  it('gives a removed player\'s seat to a bot during a game', () => {
+    const state = setup({ players: [{ name: 'Alice', id: 'alice', hand: ['money:1'] }, { name: 'Bob', id: 'bob' }] });
+    expect(state.hostId).toBe('alice');
+    replaceWithBot(state, 'alice', 'greedy');
+
+    expect(player(state, 'alice')).toMatchObject({ isBot: true, botDifficulty: 'greedy', name: '🤖 Alice' });
+    expect(player(state, 'alice').hand).toHaveLength(1);
+    expect(getHost(state)?.id).toBe('bob');
+  });
+
+  it('requires 2 to 10 players to start', () => {
+    const state = createGameState('ROOM01');
+    addPlayer(state, 'Alice', 's1');
+    expect(() => startGame(state)).toThrow('Need at least 2 players to start');
+
+    for (let i = 0; i < 10; i++) addPlayer(state, `P${i}`, `s${i}`);
+    expect(() => startGame(state)).toThrow('Maximum 10 players allowed');
+  });
+
+  it('only starts rated games between accounts', () => {
+    const state = createGameState('ROOM01');
+    state.rated = true;
+    addPlayer(state, 'Alice', 's1', 'account-alice');
+    addPlayer(state, 'Bob', 's2');
+    expect(() => startGame(state)).toThrow('Rated games need every player logged in and no bots');
+
+    removePlayer(state, state.players[1].id);
+    addBot(state, 'Bot', 'greedy');
+    expect(() => startGame(state)).toThrow('Rated games need every player logged in and no bots');
+
+    removePlayer(state, state.players[1].id);
+    addPlayer(state, 'Bob', 's2', 'account-bob');
+    state.seeded = true;
+    expect(() => startGame(state)).toThrow('Rooms with a chosen seed cannot be rated');
+
+    state.seeded = false;
+    startGame(state);
+    expect(state.phase).toBe('playing');
+  });
+
+  it('shuffles two decks together for more than five players', () => {
+    const state = createGameState('ROOM01');
+    for (let i = 0; i < 6; i++) addPlayer(state, `P${i}`, `s${i}`);
+    startGame(state);
+
+    expect(state.decksUsed).toBe(2);
+    expect(state.deck).toHaveLength(createDeck().length * 2 - 30);
+    const allCards = [...state.deck, ...state.players.flatMap(p => p.hand)];
+    expect(new Set(allCards.map(c => c.id)).size).toBe(allCards.length);
+  });
+
+  it('deals 5 cards to everyone and starts in the draw phase', () => {
+    const state = createGameState('ROOM01');
+    addPlayer(state, 'Alice', 's1');
+    addPlayer(state, 'Bob', 's2');
+    startGame(state);
+
+    expect(state.phase).toBe('playing');
+    expect(state.turnPhase).toBe('draw');
+    expect(state.actionsRemaining).toBe(3);
+    expect(state.players.every(p => p.hand.length === 5)).toBe(true);
+    expect(state.deck).toHaveLength(createDeck().length - 10);
+  });
+});
+
+describe('rematch', () => {
+  function finishedGame() {
+    const state = setup({
+      players: [
+        { name: 'Alice', id: 'alice', properties: [{ color: 'brown', cards: ['property:brown', 'property:brown'] }] },
+        { name: 'Bob', id: 'bob', bank: ['money:5'] },
+        { name: 'Carol', id: 'carol', bank: ['money:1'] }
+      ]
+    });
+    state.phase = 'finished';
+    state.winner = 'alice';
+    state.startingPlayerId = 'alice';
+    return state;
+  }
+
+  it('waits until every connected player has opted in', () => {
+    const state = finishedGame();
+    player(state, 'carol').isConnected = false;
+    expect(() => voteRematch(setup(), 'alice', true)).toThrow('The game is not over yet');
+
+    voteRematch(state, 'alice', true);
+    voteRematch(state, 'bob', true);
+    voteRematch(state, 'bob', false);
+    expect(isRematchAgreed(state)).toBe(false);
+
+    voteRematch(state, 'bob', true);
+    expect(state.rematchVotes).toEqual(['alice', 'bob']);
+    expect(isRematchAgreed(state)).toBe(true);
+    expect(getRematchPlayers(state).map(p => p.id)).toEqual(['alice', 'bob']);
+  });
+
+  it('lets the first seat, the next seat or the previous loser start', () => {
+    const state = finishedGame();
+    const everyone = getRematchPlayers(state);
+    expect(chooseRematchStarter(state, everyone)).toBe('alice');
+
+    state.rematchStarter = 'rotate';
+    expect(chooseRematchStarter(state, everyone)).toBe('bob');
+    expect(chooseRematchStarter(state, [player(state, 'alice'), player(state, 'carol')])).toBe('carol');
+
+    state.rematchStarter = 'loser';
+    expect(chooseRematchStarter(state, everyone)).toBe('carol');
+  });
+
+  it('clears the table for a new game in the same room', () => {
+    const state = finishedGame();
+    const previousId = state.id;
+    state.visibility = 'public';
+    state.rematchVotes = ['alice', 'bob'];
+    resetForRematch(state, [player(state, 'alice'), player(state, 'bob')]);
+
+    expect(state).toMatchObject({ phase: 'waiting', winner: null, visibility: 'public', roomCode: 'SCENARIO' });
+    expect(state.id).not.toBe(previousId);
+    expect(state.rematchVotes).toBeUndefined();
+    expect(state.players.map(p => [p.id, p.bank.length, p.properties.length])).toEqual([['alice', 0, 0], ['bob', 0, 0]]);
+
+    startGame(state, undefined, 'bob');
+    expect(state.players[state.currentPlayerIndex].id).toBe('bob');
+    expect(state.players.every(p => p.hand.length === 5)).toBe(true);
+  });
+});
+
+describe('drawCards', () => {
+  it('draws 2 cards and moves to the action phase', () => {
+    const state = setup({
+      turnPhase: 'draw',
+      players: [{ name: 'Alice', id: 'alice', hand: ['money:1'] }, { name: 'Bob', id: 'bob' }]
+    });
+    const drawn = drawCards(state, 'alice');
+
+    expect(drawn).toHaveLength(2);
+    expect(player(state, 'alice').hand).toHaveLength(3);
+    expect(state.turnPhase).toBe('action');
+  });
+
+  it('draws 5 cards with an empty hand', () => {
+    const state = setup({ turnPhase: 'draw' });
+    expect(drawCards(state, 'alice')).toHaveLength(5);
+  });
+
+  it('reshuffles the discard pile when the deck runs out', () => {
+    const state = setup({
+      turnPhase: 'draw',
+      discardPile: ['money:1', 'money:2', 'money:3'],
+      players: [{ name: 'Alice', id: 'alice', hand: ['money:10'] }, { name: 'Bob', id: 'bob' }]
+    });
+    state.deck = state.deck.slice(-1);
+
+    drawCards(state, 'alice');
+    expect(player(state, 'alice').hand).toHaveLength(3);
+    expect(state.deck).toHaveLength(2);
+    expect(state.discardPile).toHaveLength(0);
+  });
+
+  it('rejects draws out of turn or phase', () => {
+    const state = setup({ turnPhase: 'draw' });
+    expect(() => drawCards(state, 'nobody')).toThrow('Player not found');
+    expect(() => drawCards(state, 'bob')).toThrow('Not your turn');
+
+    state.turnPhase = 'action';
+    expect(() => drawCards(state, 'alice')).toThrow('Cannot draw cards now');
+  });
+});
+
+describe('playCard', () => {
+  it('validates player, turn, phase, actions and hand', () => {
+    const state = setup({
+      players: [{ name: 'Alice', id: 'alice', hand: ['money:1'] }, { name: 'Bob', id: 'bob', hand: ['money:2'] }]
+    });
+    const cardId = handCard(state, 'alice', 'money:1');
+
+    expect(() => playCard(state, 'nobody', cardId)).toThrow('Player not found');
+    expect(() => playCard(state, 'bob', handCard(state, 'bob', 'money:2'))).toThrow('Not your turn');
+    expect(() => playCard(state, 'alice', 'missing')).toThrow('Card not in hand');
+
+    state.turnPhase = 'draw';
+    expect(() => playCard(state, 'alice', cardId)).toThrow('Cannot play cards now');
+
+    state.turnPhase = 'action';
+    state.actionsRemaining = 0;
+    expect(() => playCard(state, 'alice', cardId)).toThrow('No actions remaining');
+  });
+
+  it('banks money and uses an action', () => {
+    const state = setup({ players: [{ name: 'Alice', id: 'alice', hand: ['money:5'] }, { name: 'Bob', id: 'bob' }] });
+    playCard(state, 'alice', handCard(state, 'alice', 'money:5'));
+
+    expect(bankTotal(state, 'alice')).toBe(5);
+    expect(state.actionsRemaining).toBe(2);
+  });
+
+  it('banks action cards when asked', () => {
+    const state = setup({ players: [{ name: 'Alice', id: 'alice', hand: ['action:dealBreaker'] }, { name: 'Bob', id: 'bob' }] });
+    playCard(state, 'alice', handCard(state, 'alice', 'action:dealBreaker'), { asBank: true });
+    expect(bankTotal(state, 'alice')).toBe(5);
+  });
+
+  it('places properties and completes sets', () => {
+    const state = setup({
+      players: [{ name: 'Alice', id: 'alice', hand: ['property:Park Place', 'property:Boardwalk'] }, { name: 'Bob', id: 'bob' }]
+    });
+    playCard(state, 'alice', handCard(state, 'alice', 'property:Park Place'));
+    expect(player(state, 'alice').properties[0].isComplete).toBe(false);
+
+    playCard(state, 'alice', handCard(state, 'alice', 'property:Boardwalk'));
+    expect(player(state, 'alice').properties[0]).toMatchObject({ color: 'darkBlue', isComplete: true });
+  });
+
+  it('places wildcards only on their colours and keeps rejected cards in hand', () => {
+    const state = setup({ players: [{ name: 'Alice', id: 'alice', hand: ['wild:green/darkBlue'] }, { name: 'Bob', id: 'bob' }] });
+    const cardId = handCard(state, 'alice', 'wild:green/darkBlue');
+
+    expect(() => playCard(state, 'alice', cardId, { propertySetColor: 'red' })).toThrow('Invalid color for wildcard');
+    expect(player(state, 'alice').hand.map(c => c.id)).toContain(cardId);
+    expect(state.actionsRemaining).toBe(3);
+
+    playCard(state, 'alice', cardId, { propertySetColor: 'darkBlue' });
+    expect(player(state, 'alice').properties[0].color).toBe('darkBlue');
+  });
+
+  it('moves to finishing after the third action', () => {
+    const state = setup({
+      actionsRemaining: 1,
+      players: [{ name: 'Alice', id: 'alice', hand: ['money:1'] }, { name: 'Bob', id: 'bob' }]
+    });
+    playCard(state, 'alice', handCard(state, 'alice', 'money:1'));
+    expect(state.turnPhase).toBe('finishing');
+  });
+
+  it('moves to discard after the third action with more than 7 cards', () => {
+    const state = setup({
+      actionsRemaining: 1,
+      players: [{
+        name: 'Alice',
+        id: 'alice',
+        hand: ['money:1', 'money:1', 'money:1', 'money:1', 'money:1', 'money:1', 'money:2', 'money:2', 'money:2']
+      }, { name: 'Bob', id: 'bob' }]
+    });
+    playCard(state, 'alice', handCard(state, 'alice', 'money:2'));
+    expect(state.turnPhase).toBe('discard');
+  });
+
+  it('declares a winner with three complete sets', () => {
+    const state = setup({
+      players: [{
+        name: 'Alice',
+        id: 'alice',
+        hand: ['property:Boardwalk'],
+        properties: [
+          { color: 'brown', cards: ['property:brown', 'property:brown'] },
+          { color: 'utility', cards: ['property:utility', 'property:utility'] },
+          { color: 'darkBlue', cards: ['property:Park Place'] }
+        ]
+      }, { name: 'Bob', id: 'bob' }]
+    });
+    playCard(state, 'alice', handCard(state, 'alice', 'property:Boardwalk'));
+
+    expect(state.winner).toBe('alice');
+    expect(state.phase).toBe('finished');
+  });
+});
+
+describe('action cards', () => {
+  it('passGo draws 2 cards', () => {
+    const state = setup({ players: [{ name: 'Alice', id: 'alice', hand: ['action:passGo'] }, { name: 'Bob', id: 'bob' }] });
+    playCard(state, 'alice', handCard(state, 'alice', 'action:passGo'));
+
+    expect(player(state, 'alice').hand).toHaveLength(2);
+    expect(state.discardPile.map(c => c.name)).toContain('Pass Go');
+  });
+
+  it('birthday asks every other player for $2M', () => {
+    const state = setup({ players: [{ name: 'Alice', id: 'alice', hand: ['action:birthday'] }, { name: 'Bob', id: 'bob' }] });
+    playCard(state, 'alice', handCard(state, 'alice', 'action:birthday'));
+
+    expect(state.turnPhase).toBe('responding');
+    expect(state.pendingAction).toMatchObject({ type: 'birthday', amount: 2, respondedPlayers: [] });
+    expect(state.discardPile.map(c => c.name)).toContain("It's My Birthday");
+  });
+
+  it('debtCollector needs a target', () => {
+    const state = setup({ players: [{ name: 'Alice', id: 'alice', hand: ['action:debtCollector'] }, { name: 'Bob', id: 'bob' }] });
+    const cardId = handCard(state, 'alice', 'action:debtCollector');
+
+    expect(() => playCard(state, 'alice', cardId)).toThrow('Must select a player');
+    expect(player(state, 'alice').hand).toHaveLength(1);
+
+    playCard(state, 'alice', cardId, { playerId: 'bob' });
+    expect(state.pendingAction).toMatchObject({ type: 'debtCollector', toPlayerId: 'bob', amount: 5 });
+  });
+
+  it('slyDeal needs a player and set', () => {
+    const state = setup({ players: [{ name: 'Alice', id: 'alice', hand: ['action:slyDeal'] }, { name: 'Bob', id: 'bob' }] });
+    const cardId = handCard(state, 'alice', 'action:slyDeal');
+
+    expect(() => playCard(state, 'alice', cardId, { playerId: 'bob' })).toThrow('Must select a player and property set');
+    playCard(state, 'alice', cardId, { playerId: 'bob', propertySetColor: 'red' });
+    expect(state.pendingAction).toMatchObject({ type: 'slyDeal', targetSet: 'red' });
+  });
+
+  it('forcedDeal needs both sides of the exchange', () => {
+    const state = setup({ players: [{ name: 'Alice', id: 'alice', hand: ['action:forcedDeal'] }, { name: 'Bob', id: 'bob' }] });
+    expect(() => playCard(state, 'alice', handCard(state, 'alice', 'action:forcedDeal'), { playerId: 'bob', propertySetColor: 'red' }))
+      .toThrow('Must select a player, their property set, and your property to exchange');
+  });
+
+  it('dealBreaker only targets complete sets', () => {
+    const state = setup({
+      players: [
+        { name: 'Alice', id: 'alice', hand: ['action:dealBreaker'] },
+        {
+          name: 'Bob',
+          id: 'bob',
+          properties: [
+            { color: 'brown', cards: ['property:brown', 'property:brown'] },
+            { color: 'red', cards: ['property:red'] }
+          ]
+        }
+      ]
+    });
+    const cardId = handCard(state, 'alice', 'action:dealBreaker');
+
+    expect(() => playCard(state, 'alice', cardId, { playerId: 'bob' })).toThrow('Must select a player and complete set');
+    expect(() => playCard(state, 'alice', cardId, { playerId: 'bob', propertySetColor: 'red' })).toThrow('Can only steal complete sets');
+
+    playCard(state, 'alice', cardId, { playerId: 'bob', propertySetColor: 'brown' });
+    expect(state.pendingAction).toMatchObject({ type: 'dealBreaker', targetSet: 'brown' });
+  });
+
+  it('house and hotel need a complete set, in order', () => {
+    const state = setup({
+      players: [{
+        name: 'Alice',
+        id: 'alice',
+        hand: ['action:house', 'action:house', 'action:hotel', 'action:hotel'],
+        properties: [
+          { color: 'brown', cards: ['property:brown', 'property:brown'] },
+          { color: 'red', cards: ['property:red'] }
+        ]
+      }, { name: 'Bob', id: 'bob' }],
+      actionsRemaining: 3
+    });
+    const house = handCard(state, 'alice', 'action:house');
+    const hotel = handCard(state, 'alice', 'action:hotel');
+
+    expect(() => playCard(state, 'alice', house)).toThrow('Must select a property set');
+    expect(() => playCard(state, 'alice', house, { propertySetColor: 'red' })).toThrow('Set must be complete');
+    expect(() => playCard(state, 'alice', hotel, { propertySetColor: 'brown' })).toThrow('Must have a house first');
+
+    playCard(state, 'alice', house, { propertySetColor: 'brown' });
+    expect(() => playCard(state, 'alice', handCard(state, 'alice', 'action:house'), { propertySetColor: 'brown' }))
+      .toThrow('Set already has a house');
+
+    playCard(state, 'alice', hotel, { propertySetColor: 'brown' });
+    expect(() => playCard(state, 'alice', handCard(state, 'alice', 'action:hotel'), { propertySetColor: 'brown' }))
+      .toThrow('Set already has a hotel');
+    expect(player(state, 'alice').properties.find(s => s.color === 'brown')).toMatchObject({ hasHouse: true, hasHotel: true });
+  });
+
+  it('doubleRent and justSayNo cannot be played on their own', () => {
+    const state = setup({ players: [{ name: 'Alice', id: 'alice', hand: ['action:doubleRent', 'action:justSayNo'] }, { name: 'Bob', id: 'bob' }] });
+
+    expect(() => playCard(state, 'alice', handCard(state, 'alice', 'action:doubleRent'))).toThrow('Double Rent must be played with a Rent card');
+    expect(() => playCard(state, 'alice', handCard(state, 'alice', 'action:justSayNo'))).toThrow('Just Say No can only be played in response');
+    expect(player(state, 'alice').hand).toHaveLength(2);
+    expect(state.actionsRemaining).toBe(3);
+  });
+});
+
+describe('rent cards', () => {
+  it('needs a matching property', () => {
+    const state = setup({ players: [{ name: 'Alice', id: 'alice', hand: ['rent:brown/lightBlue'] }, { name: 'Bob', id: 'bob' }] });
+    expect(() => playCard(state, 'alice', handCard(state, 'alice', 'rent:brown/lightBlue')))
+      .toThrow('You need a matching property to charge rent');
+    expect(player(state, 'alice').hand).toHaveLength(1);
+  });
+
+  it('charges every other player for a two-colour rent', () => {
+    const state = setup({
+      players: [
+        { name: 'Alice', id: 'alice', hand: ['rent:red/yellow'], properties: [{ color: 'red', cards: ['property:red', 'property:red'] }] },
+        { name: 'Bob', id: 'bob' },
+        { name: 'Carol', id: 'carol' }
+      ]
+    });
+    playCard(state, 'alice', handCard(state, 'alice', 'rent:red/yellow'), { propertySetColor: 'red' });
+
+    expect(state.pendingAction).toMatchObject({ type: 'rent', amount: 3, respondedPlayers: [] });
+    expect(state.turnPhase).toBe('responding');
+  });
+
+  it('adds house and hotel value to rent', () => {
+    const state = setup({
+      players: [
+        {
+          name: 'Alice',
+          id: 'alice',
+          hand: ['rent:brown/lightBlue'],
+          properties: [{ color: 'brown', cards: ['property:brown', 'property:brown'], hasHouse: true, hasHotel: true }]
+        },
+        { name: 'Bob', id: 'bob' }
+      ]
+    });
+    playCard(state, 'alice', handCard(state, 'alice', 'rent:brown/lightBlue'));
+    expect(state.pendingAction?.amount).toBe(2 + 3 + 4);
+  });
+
+  it('wild rent targets one player', () => {
+    const state = setup({
+      players: [
+        { name: 'Alice', id: 'alice', hand: ['rent:wild'], properties: [{ color: 'green', cards: ['property:green'] }] },
+        { name: 'Bob', id: 'bob' }
+      ]
+    });
+    const cardId = handCard(state, 'alice', 'rent:wild');
+
+    expect(() => playCard(state, 'alice', cardId)).toThrow('Must select a player for wild rent');
+    playCard(state, 'alice', cardId, { playerId: 'bob' });
+    expect(state.pendingAction).toMatchObject({ toPlayerId: 'bob', amount: 2 });
+    expect(state.pendingAction?.respondedPlayers).toBeUndefined();
+  });
+
+  it('double rent doubles the amount and costs an extra action', () => {
+    const state = setup({
+      players: [
+        {
+          name: 'Alice',
+          id: 'alice',
+          hand: ['rent:wild', 'action:doubleRent'],
+          properties: [{ color: 'green', cards: ['property:green'] }]
+        },
+        { name: 'Bob', id: 'bob' }
+      ]
+    });
+    playCard(state, 'alice', handCard(state, 'alice', 'rent:wild'), { playerId: 'bob', useDoubleRent: true });
+
+    expect(state.pendingAction).toMatchObject({ amount: 4, isDoubleRent: true });
+    expect(state.actionsRemaining).toBe(1);
+    expect(player(state, 'alice').hand).toHaveLength(0);
+  });
+});
+
+describe('respondToAction', () => {
+  function debtScenario(bob: { bank?: string[]; hand?: string[]; properties?: any[] }) {
+    const state = setup({
+      players: [
+        { name: 'Alice', id: 'alice', hand: ['action:debtCollector', 'action:justSayNo'] },
+        { name: 'Bob', id: 'bob', ...bob }
+      ]
+    });
+    playCard(state, 'alice', handCard(state, 'alice', 'action:debtCollector'), { playerId: 'bob' });
+    return state;
+  }
+
+  it('rejects responses without a pending action or from unknown players', () => {
+    const state = setup();
+    expect(() => respondToAction(state, 'bob', { accept: true })).toThrow('No pending action');
+
+    const pending = debtScenario({});
+    expect(() => respondToAction(pending, 'nobody', { accept: true })).toThrow('Player not found');
+  });
+
+  it('rejects responses when the initiator is gone', () => {
+    const state = debtScenario({});
+    state.players = state.players.filter(p => p.id !== 'alice');
+    expect(() => respondToAction(state, 'bob', { accept: true })).toThrow('Action initiator not found');
+  });
+
+  it('requires at least the amount owed', () => {
+    const state = debtScenario({ bank: ['money:1', 'money:5'] });
+    expect(() => respondToAction(state, 'bob', { accept: true, paymentCardIds: [bankCard(state, 'bob', 'money:1')] }))
+      .toThrow('You must pay at least $5M (you selected $1M)');
+
+    respondToAction(state, 'bob', { accept: true, paymentCardIds: [bankCard(state, 'bob', 'money:5')] });
+    expect(bankTotal(state, 'alice')).toBe(5);
+    expect(state.pendingAction).toBeNull();
+    expect(state.turnPhase).toBe('action');
+  });
+
+  it('takes everything from a player who cannot cover the debt, including properties', () => {
+    const state = debtScenario({ bank: ['money:1'], properties: [{ color: 'red', cards: ['property:red'] }] });
+    respondToAction(state, 'bob', {
+      accept: true,
+      paymentCardIds: [bankCard(state, 'bob', 'money:1'), propertyCard(state, 'bob', 'property:red')]
+    });
+
+    expect(bankTotal(state, 'alice')).toBe(1);
+    expect(player(state, 'alice').properties[0].color).toBe('red');
+    expect(player(state, 'bob').properties).toHaveLength(0);
+  });
+
+  it('lets a player with nothing accept for free', () => {
+    const state = debtScenario({});
+    respondToAction(state, 'bob', { accept: true, paymentCardIds: [] });
+    expect(state.pendingAction).toBeNull();
+  });
+
+  it('requires a Just Say No card to say no', () => {
+    const state = debtScenario({});
+    expect(() => respondToAction(state, 'bob', { accept: false, useJustSayNo: true })).toThrow('No Just Say No card');
+  });
+
+  it('lets the initiator decline to counter a Just Say No', () => {
+    const state = debtScenario({ hand: ['action:justSayNo'], bank: ['money:5'] });
+    respondToAction(state, 'bob', { accept: false, useJustSayNo: true });
+
+    // Alice holds a Just Say No, so she is asked whether to counter
+    expect(getPendingResponders(state)).toEqual(['alice']);
+    expect(() => respondToAction(state, 'bob', { accept: true })).toThrow('Not waiting for your response');
+
+    respondToAction(state, 'alice', { accept: false });
+    expect(state.pendingAction).toBeNull();
+    expect(bankTotal(state, 'bob')).toBe(5);
+  });
+
+  it('cancels immediately when the initiator has no Just Say No', () => {
+    const state = setup({
+      players: [
+        { name: 'Alice', id: 'alice', hand: ['action:debtCollector'] },
+        { name: 'Bob', id: 'bob', hand: ['action:justSayNo'] }
+      ]
+    });
+    playCard(state, 'alice', handCard(state, 'alice', 'action:debtCollector'), { playerId: 'bob' });
+    respondToAction(state, 'bob', { accept: false, useJustSayNo: true });
+
+    expect(state.pendingAction).toBeNull();
+    expect(state.turnPhase).toBe('action');
+    expect(state.discardPile.map(c => c.name)).toContain('Just Say No');
+  });
+
+  it('resolves a chain of Just Say No cards by whoever played last', () => {
+    const state = setup({
+      decks: 2,
+      players: [
+        { name: 'Alice', id: 'alice', hand: ['action:debtCollector', 'action:justSayNo', 'action:justSayNo'] },
+        { name: 'Bob', id: 'bob', hand: ['action:justSayNo', 'action:justSayNo'], bank: ['money:5'] }
+      ]
+    });
+    playCard(state, 'alice', handCard(state, 'alice', 'action:debtCollector'), { playerId: 'bob' });
+
+    respondToAction(state, 'bob', { accept: false, useJustSayNo: true });
+    respondToAction(state, 'alice', { accept: false, useJustSayNo: true });
+    expect(getPendingResponders(state)).toEqual(['bob']);
+
+    respondToAction(state, 'bob', { accept: false, useJustSayNo: true });
+    respondToAction(state, 'alice', { accept: false, useJustSayNo: true });
+    expect(getJustSayNoChain(state.pendingAction!, 'bob').map(play => play.playerId)).toEqual(['bob', 'alice', 'bob', 'alice']);
+
+    // Bob is out of Just Say No cards, so the debt collector stands and he pays
+    expect(() => respondToAction(state, 'bob', { accept: false, useJustSayNo: true })).toThrow('No Just Say No card');
+    respondToAction(state, 'bob', { accept: true, paymentCardIds: [bankCard(state, 'bob', 'money:5')] });
+    expect(state.pendingAction).toBeNull();
+    expect(bankTotal(state, 'alice')).toBe(5);
+  });
+
+  it('cancels the action when the target has the last word', () => {
+    const state = setup({
+      players: [
+        { name: 'Alice', id: 'alice', hand: ['action:debtCollector', 'action:justSayNo'] },
+        { name: 'Bob', id: 'bob', hand: ['action:justSayNo', 'action:justSayNo'], bank: ['money:5'] }
+      ]
+    });
+    playCard(state, 'alice', handCard(state, 'alice', 'action:debtCollector'), { playerId: 'bob' });
+
+    respondToAction(state, 'bob', { accept: false, useJustSayNo: true });
+    respondToAction(state, 'alice', { accept: false, useJustSayNo: true });
+    respondToAction(state, 'bob', { accept: false, useJustSayNo: true });
+
+    // Alice has nothing left to counter with
+    expect(state.pendingAction).toBeNull();
+    expect(bankTotal(state, 'bob')).toBe(5);
+  });
+
+  it('keeps a separate chain for each target of a multi-player action', () => {
+    const state = setup({
+      players: [
+        { name: 'Alice', id: 'alice', hand: ['action:birthday', 'action:justSayNo'] },
+        { name: 'Bob', id: 'bob', hand: ['action:justSayNo'], bank: ['money:2'] },
+        { name: 'Carol', id: 'carol', hand: ['action:justSayNo'], bank: ['money:2'] }
+      ]
+    });
+    playCard(state, 'alice', handCard(state, 'alice', 'action:birthday'));
+
+    respondToAction(state, 'bob', { accept: false, useJustSayNo: true });
+    respondToAction(state, 'carol', { accept: false, useJustSayNo: true });
+    expect(getPendingResponders(state)).toEqual(['alice']);
+
+    // Alice counters Carol's No, then lets Bob's stand
+    expect(() => respondToAction(state, 'alice', { accept: false, targetPlayerId: 'nobody' })).toThrow('No Just Say No to answer');
+    respondToAction(state, 'alice', { accept: false, useJustSayNo: true, targetPlayerId: 'carol' });
+    expect(getPendingResponders(state)).toEqual(['carol', 'alice']);
+    respondToAction(state, 'alice', { accept: false, targetPlayerId: 'bob' });
+
+    respondToAction(state, 'carol', { accept: true, paymentCardIds: [bankCard(state, 'carol', 'money:2')] });
+    expect(state.pendingAction).toBeNull();
+    expect(bankTotal(state, 'alice')).toBe(2);
+    expect(bankTotal(state, 'bob')).toBe(2);
+  });
+
+  it('collects from every player for multi-player actions', () => {
+    const state = setup({
+      players: [
+        { name: 'Alice', id: 'alice', hand: ['action:birthday'] },
+        { name: 'Bob', id: 'bob', bank: ['money:2'] },
+        { name: 'Carol', id: 'carol', hand: ['action:justSayNo'], bank: ['money:2'] }
+      ]
+    });
+    playCard(state, 'alice', handCard(state, 'alice', 'action:birthday'));
+
+    respondToAction(state, 'bob', { accept: true, paymentCardIds: [bankCard(state, 'bob', 'money:2')] });
+    expect(state.turnPhase).toBe('responding');
+    expect(() => respondToAction(state, 'bob', { accept: true })).toThrow('You have already responded to this action');
+
+    respondToAction(state, 'carol', { accept: false, useJustSayNo: true });
+    expect(state.pendingAction).toBeNull();
+    expect(state.turnPhase).toBe('action');
+    expect(bankTotal(state, 'alice')).toBe(2);
+    expect(bankTotal(state, 'carol')).toBe(2);
+  });
+
+  it('goes to finishing once the last action resolves', () => {
+    const state = debtScenario({});
+    state.actionsRemaining = 0;
+    respondToAction(state, 'bob', { accept: true });
+    expect(state.turnPhase).toBe('finishing');
+  });
+
+  it('sly deal takes the card the target chooses', () => {
+    const state = setup({
+      players: [
+        { name: 'Alice', id: 'alice', hand: ['action:slyDeal'] },
+        { name: 'Bob', id: 'bob', properties: [{ color: 'red', cards: ['property:Kentucky Avenue', 'property:Indiana Avenue'] }] }
+      ]
+    });
+    playCard(state, 'alice', handCard(state, 'alice', 'action:slyDeal'), { playerId: 'bob', propertySetColor: 'red' });
+    respondToAction(state, 'bob', { accept: true, selectedCardId: propertyCard(state, 'bob', 'property:Indiana Avenue') });
+
+    expect(player(state, 'alice').properties[0].cards.map(c => c.name)).toEqual(['Indiana Avenue']);
+    expect(player(state, 'bob').properties[0].cards.map(c => c.name)).toEqual(['Kentucky Avenue']);
+  });
+
+  it('forced deal swaps properties', () => {
+    const state = setup({
+      players: [
+        { name: 'Alice', id: 'alice', hand: ['action:forcedDeal'], properties: [{ color: 'brown', cards: ['property:brown'] }] },
+        { name: 'Bob', id: 'bob', properties: [{ color: 'red', cards: ['property:red'] }] }
+      ]
+    });
+    playCard(state, 'alice', handCard(state, 'alice', 'action:forcedDeal'), {
+      playerId: 'bob',
+      propertySetColor: 'red',
+      giveCardId: propertyCard(state, 'alice', 'property:brown'),
+      giveFromSet: 'brown'
+    });
+    respondToAction(state, 'bob', { accept: true });
+
+    expect(player(state, 'alice').properties.map(s => s.color)).toEqual(['red']);
+    expect(player(state, 'bob').properties.map(s => s.color)).toEqual(['brown']);
+  });
+
+  it('deal breaker takes the whole set', () => {
+    const state = setup({
+      players: [
+        { name: 'Alice', id: 'alice', hand: ['action:dealBreaker'] },
+        { name: 'Bob', id: 'bob', properties: [{ color: 'brown', cards: ['property:brown', 'property:brown'], hasHouse: true }] }
+      ]
+    });
+    playCard(state, 'alice', handCard(state, 'alice', 'action:dealBreaker'), { playerId: 'bob', propertySetColor: 'brown' });
+    respondToAction(state, 'bob', { accept: true });
+
+    expect(player(state, 'alice').properties[0]).toMatchObject({ color: 'brown', isComplete: true, hasHouse: true });
+    expect(player(state, 'bob').properties).toHaveLength(0);
+  });
+});
+
+describe('ending a turn', () => {
+  it('passes the turn to the next player', () => {
+    const state = setup();
+    endTurnEarly(state, 'alice');
+
+    expect(state.currentPlayerIndex).toBe(1);
+    expect(state.turnPhase).toBe('draw');
+    expect(state.actionsRemaining).toBe(3);
+  });
+
+  it('rejects ending the turn at the wrong time', () => {
+    const state = setup({ turnPhase: 'draw' });
+    expect(() => endTurnEarly(state, 'nobody')).toThrow('Player not found');
+    expect(() => endTurnEarly(state, 'bob')).toThrow('Not your turn');
+    expect(() => endTurnEarly(state, 'alice')).toThrow('Cannot end turn now');
+
+    state.turnPhase = 'action';
+    state.pendingAction = { type: 'birthday', fromPlayerId: 'alice', canSayNo: true };
+    expect(() => endTurnEarly(state, 'alice')).toThrow('Must resolve pending action first');
+  });
+
+  it('asks for a discard with more than 7 cards, then ends the turn', () => {
+    const hand = ['money:1', 'money:1', 'money:1', 'money:1', 'money:1', 'money:1', 'money:2', 'money:2', 'money:2'];
+    const state = setup({ players: [{ name: 'Alice', id: 'alice', hand }, { name: 'Bob', id: 'bob' }] });
+    endTurnEarly(state, 'alice');
+    expect(state.turnPhase).toBe('discard');
+
+    const twos = player(state, 'alice').hand.filter(c => c.value === 2).map(c => c.id);
+    expect(() => discardCards(state, 'alice', twos)).toThrow('Must discard exactly 2 cards');
+    expect(() => discardCards(state, 'alice', ['missing', 'other'])).toThrow('Card not in hand');
+
+    discardCards(state, 'alice', twos.slice(0, 2));
+    expect(player(state, 'alice').hand).toHaveLength(7);
+    expect(state.currentPlayerIndex).toBe(1);
+    expect(state.turnPhase).toBe('draw');
+  });
+
+  it('rejects discards outside the discard phase', () => {
+    const state = setup();
+    expect(() => discardCards(state, 'nobody', [])).toThrow('Player not found');
+    expect(() => discardCards(state, 'bob', [])).toThrow('Not your turn');
+    expect(() => discardCards(state, 'alice', [])).toThrow('Not in discard phase');
+  });
+});
+
+describe('rearrangeProperty', () => {
+  function wildScenario() {
+    return setup({
+      players: [{
+        name: 'Alice',
+        id: 'alice',
+        properties: [
+          { color: 'green', cards: ['wild:green/darkBlue', 'property:Pacific Avenue'] },
+          { color: 'darkBlue', cards: ['property:Boardwalk'] }
+        ]
+      }, { name: 'Bob', id: 'bob' }]
+    });
+  }
+
+  it('moves a wildcard between sets', () => {
+    const state = wildScenario();
+    rearrangeProperty(state, 'alice', propertyCard(state, 'alice', 'wild:green/darkBlue'), 'green', 'darkBlue');
+
+    const darkBlue = player(state, 'alice').properties.find(s => s.color === 'darkBlue');
+    expect(darkBlue?.isComplete).toBe(true);
+    expect(state.actionsRemaining).toBe(3);
+  });
+
+  it('validates the move', () => {
+    const state = wildScenario();
+    const wild = propertyCard(state, 'alice', 'wild:green/darkBlue');
+
+    expect(() => rearrangeProperty(state, 'nobody', wild, 'green', 'darkBlue')).toThrow('Player not found');
+    expect(() => rearrangeProperty(state, 'bob', wild, 'green', 'darkBlue')).toThrow('Not your turn');
+    expect(() => rearrangeProperty(state, 'alice', wild, 'red', 'darkBlue')).toThrow('Source property set not found');
+    expect(() => rearrangeProperty(state, 'alice', wild, 'darkBlue', 'green')).toThrow('Card not found in source set');
+    expect(() => rearrangeProperty(state, 'alice', propertyCard(state, 'alice', 'property:Pacific Avenue'), 'green', 'darkBlue'))
+      .toThrow('Only wildcard properties can be rearranged');
+    expect(() => rearrangeProperty(state, 'alice', wild, 'green', 'red')).toThrow('This wildcard cannot be placed on that color');
+
+    state.turnPhase = 'draw';
+    expect(() => rearrangeProperty(state, 'alice', wild, 'green', 'darkBlue')).toThrow('Cannot rearrange now');
+  });
+});
+
+describe('getPublicGameState', () => {
+  it('only reveals the viewer\'s own hand and hides the deck', () => {
+    const state = setup({
+      players: [{ name: 'Alice', id: 'alice', hand: ['money:1'] }, { name: 'Bob', id: 'bob', hand: ['money:2', 'money:3'] }],
+      discardPile: ['money:4']
+    });
+    const view = getPublicGameState(state, 'alice');
+
+    expect(view.players[0].hand).toHaveLength(1);
+    expect(view.players[1].hand).toBeUndefined();
+    expect(view.players[1].handCount).toBe(2);
+    expect(view.deckCount).toBe(state.deck.length);
+    expect(view.topDiscard?.value).toBe(4);
+    expect(view).not.toHaveProperty('deck');
+    expect(view).not.toHaveProperty('seed');
+  });
+
+  it('hides every hand from a spectator, who has no seat', () => {
+    const state = setup({
+      players: [{ name: 'Alice', id: 'alice', hand: ['money:1'] }, { name: 'Bob', id: 'bob', hand: ['money:2', 'money:3'] }]
+    });
+    const view = getPublicGameState(state);
+
+    expect(view.players.map(p => p.hand)).toEqual([undefined, undefined]);
+    expect(view.players.map(p => p.handCount)).toEqual([1, 2]);
+    expect(view.suggestedPayment).toBeUndefined();
+  });
+});
+
+describe('multi-deck games', () => {
+  function twoDeckScenario() {
+    return setup({
+      decks: 2,
+      players: [{
+        name: 'Alice',
+        id: 'alice',
+        hand: ['property:Boardwalk', 'action:house', 'rent:green/darkBlue'],
+        properties: [
+          { color: 'darkBlue', cards: ['property:Park Place', 'property:Boardwalk'] },
+          { color: 'darkBlue', cards: ['property:Park Place'] }
+        ]
+      }, { name: 'Bob', id: 'bob', bank: ['money:10'] }]
+    });
+  }
+
+  it('starts a new set once every set of the colour is complete', () => {
+    const state = setup({
+      decks: 2,
+      players: [{
+        name: 'Alice',
+        id: 'alice',
+        hand: ['property:Boardwalk'],
+        properties: [{ color: 'darkBlue', cards: ['property:Park Place', 'property:Boardwalk'] }]
+      }, { name: 'Bob', id: 'bob' }]
+    });
+    playCard(state, 'alice', handCard(state, 'alice', 'property:Boardwalk'));
+
+    const sets = player(state, 'alice').properties;
+    expect(sets).toHaveLength(2);
+    expect(sets[0].id).not.toBe(sets[1].id);
+    expect(sets.map(s => s.cards.length)).toEqual([2, 1]);
+  });
+
+  it('adds properties to the incomplete set of a colour, or the set chosen by id', () => {
+    const state = twoDeckScenario();
+    const [complete, incomplete] = player(state, 'alice').properties;
+
+    expect(() => playCard(state, 'alice', handCard(state, 'alice', 'property:Boardwalk'), { propertySetId: complete.id }))
+      .toThrow('That property set is already complete');
+    expect(() => playCard(state, 'alice', handCard(state, 'alice', 'property:Boardwalk'), { propertySetId: 'missing' }))
+      .toThrow('Property set not found');
+
+    playCard(state, 'alice', handCard(state, 'alice', 'property:Boardwalk'));
+    expect(incomplete.isComplete).toBe(true);
+    expect(complete.cards).toHaveLength(2);
+  });
+
+  it('counts two complete sets of one colour once towards winning', () => {
+    const state = twoDeckScenario();
+    player(state, 'alice').properties.push(...setup({
+      decks: 2,
+      players: [{ name: 'Carol', properties: [{ color: 'brown', cards: ['property:brown', 'property:brown'] }] }]
+    }).players[0].properties);
+
+    playCard(state, 'alice', handCard(state, 'alice', 'property:Boardwalk'));
+    expect(player(state, 'alice').properties.filter(s => s.isComplete)).toHaveLength(3);
+    expect(state.winner).toBeNull();
+  });
+
+  it('builds on and charges rent for the set picked by id', () => {
+    const state = twoDeckScenario();
+    playCard(state, 'alice', handCard(state, 'alice', 'property:Boardwalk'));
+    const [, second] = player(state, 'alice').properties;
+
+    playCard(state, 'alice', handCard(state, 'alice', 'action:house'), { propertySetColor: 'darkBlue', propertySetId: second.id });
+    expect(player(state, 'alice').properties.map(s => s.hasHouse)).toEqual([false, true]);
+
+    playCard(state, 'alice', handCard(state, 'alice', 'rent:green/darkBlue'));
+    expect(state.pendingAction?.amount).toBe(11);
+  });
+
+  it('deal breaker takes only the chosen set', () => {
+    const state = setup({
+      decks: 2,
+      players: [
+        { name: 'Alice', id: 'alice', hand: ['action:dealBreaker'] },
+        {
+          name: 'Bob',
+          id: 'bob',
+          properties: [
+            { color: 'brown', cards: ['property:brown', 'property:brown'] },
+            { color: 'brown', cards: ['property:brown', 'property:brown'], hasHouse: true }
+          ]
+        }
+      ]
+    });
+    const [, withHouse] = player(state, 'bob').properties;
+    playCard(state, 'alice', handCard(state, 'alice', 'action:dealBreaker'), {
+      playerId: 'bob', propertySetColor: 'brown', propertySetId: withHouse.id
+    });
+    respondToAction(state, 'bob', { accept: true });
+
+    expect(player(state, 'alice').properties).toEqual([withHouse]);
+    expect(player(state, 'bob').properties).toHaveLength(1);
+  });
+});
+
+describe('house rules', () => {
+  it('draws, acts and discards by the room settings', () => {
+    const state = setup({
+      turnPhase: 'draw',
+      settings: { cardsPerDraw: 3, actionsPerTurn: 2, handLimit: 4 },
+      players: [{ name: 'Alice', id: 'alice', hand: ['money:1', 'money:2'] }, { name: 'Bob', id: 'bob' }]
+    });
+    expect(state.actionsRemaining).toBe(2);
+
+    drawCards(state, 'alice');
+    expect(player(state, 'alice').hand).toHaveLength(5);
+
+    playCard(state, 'alice', handCard(state, 'alice', 'money:1'));
+    playCard(state, 'alice', handCard(state, 'alice', 'money:2'));
+    expect(state.turnPhase).toBe('finishing');
+
+    endTurnEarly(state, 'alice');
+    expect(state.currentPlayerIndex).toBe(1);
+    expect(state.actionsRemaining).toBe(2);
+  });
+
+  it('asks for a discard down to the hand limit', () => {
+    const state = setup({
+      settings: { handLimit: 3 },
+      players: [{ name: 'Alice', id: 'alice', hand: ['money:1', 'money:1', 'money:2', 'money:3', 'money:4'] }, { name: 'Bob', id: 'bob' }]
+    });
+    endTurnEarly(state, 'alice');
+    expect(state.turnPhase).toBe('discard');
+    expect(() => discardCards(state, 'alice', [handCard(state, 'alice', 'money:4')])).toThrow('Must discard exactly 2 cards');
+  });
+
+  it('charges the configured birthday and debt collector amounts', () => {
+    const state = setup({
+      settings: { birthdayAmount: 3, debtCollectorAmount: 8 },
+      players: [{ name: 'Alice', id: 'alice', hand: ['action:birthday', 'action:debtCollector'] }, { name: 'Bob', id: 'bob' }]
+    });
+    playCard(state, 'alice', handCard(state, 'alice', 'action:birthday'));
+    expect(state.pendingAction?.amount).toBe(3);
+
+    respondToAction(state, 'bob', { accept: true });
+    playCard(state, 'alice', handCard(state, 'alice', 'action:debtCollector'), { playerId: 'bob' });
+    expect(state.pendingAction?.amount).toBe(8);
+  });
+
+  it('needs the configured number of sets to win', () => {
+    const state = setup({
+      settings: { setsToWin: 4 },
+      players: [{
+        name: 'Alice',
+        id: 'alice',
+        hand: ['property:Boardwalk'],
+        properties: [
+          { color: 'brown', cards: ['property:brown', 'property:brown'] },
+          { color: 'utility', cards: ['property:utility', 'property:utility'] },
+          { color: 'darkBlue', cards: ['property:Park Place'] }
+        ]
+      }, { name: 'Bob', id: 'bob' }]
+    });
+    playCard(state, 'alice', handCard(state, 'alice', 'property:Boardwalk'));
+    expect(state.winner).toBeNull();
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { setStorage, saveTournament, loadTournament } from '../src/db/storage.js';
+import { createMemoryStorage } from '../src/db/memoryStorage.js';
+import { setupSocketHandlers, startTournament } from '../src/socket/gameSocket.js';
+import { createGuestAccount } from '../src/auth/accounts.js';
+import { createTournament, registerEntrant } from '../src/game/tournament.js';
+
+type Handler = (...args: unknown[]) => unknown;
+
+// Just enough of a socket.io server to drive the handlers: clients connect, send events and
+// collect what is sent straight to them
+function fakeServer() {
+  let onConnection: (socket: unknown) => void = () => {};
+  const sockets = new Map<string, ReturnType<typeof createSocket>>();
+  const channel = (): unknown => ({ emit: () => true, to: channel });
+  const io = {
+    use: () => {},
+    on: (_event: string, listener: (socket: unknown) => void) => { onConnection = listener; },
+    to: channel,
+    in: () => ({ socketsLeave: () => {} }),
+    sockets: { sockets }
+  };
+  setupSocketHandlers(io as any);
+
+  function createSocket(id: string) {
+    const handlers = new Map<string, Handler>();
+    const socket = {
+      id,
+      data: {},
+      handshake: { auth: {} },
+      rooms: new Set<string>(),
+      received: [] as [string, unknown[]][],
+      on: (event: string, handler: Handler) => { handlers.set(event, handler); },
+      emit: (event: string, ...args: unknown[]) => { socket.received.push([event, args]); return true; },
+      join: (room: string) => { socket.rooms.add(room); },
+      leave: (room: string) => { socket.rooms.delete(room); },
+      // Send an event and wait for the reply passed to its callback
+      request: (event: string, ...args: unknown[]): Promise<any> =>
+        new Promise(resolve => { handlers.get(event)!(...args, resolve); }),
+      // Send an event that takes no callback
+      send: (event: string, ...args: unknown[]) => handlers.get(event)!(...args)
+    };
+    return socket;
+  }
+
+  return {
+    io: io as any,
+    connect(id: string) {
+      const socket = createSocket(id);
+      sockets.set(id, socket);
+      onConnection(socket);
+      return socket;
+    }
+  };
+}
+
+describe('socket handlers', () => {
+  let server: ReturnType<typeof fakeServer>;
+
+  beforeEach(() => {
+    setStorage(createMemoryStorage());
+    server = fakeServer();
+  });
+
+  afterEach(() => {
+    setStorage(null);
+  });
+
+  it('creates a room for clients that send no room options', async () => {
+    const socket = server.connect('socket-1');
+    const response = await socket.request('createRoom', 'Alice');
+    expect(response.error).toBeUndefined();
+    expect(response.roomCode).toMatch(/^[A-Z0-9]{6}$/);
+    expect(socket.rooms.has(response.roomCode)).toBe(true);
+  });
+
+  it('keeps the seat of a player whose session the host revoked before the game', async () => {
+    const host = server.connect('host');
+    const { roomCode } = await host.request('createRoom', 'Alice', {});
+    const bob = server.connect('bob');
+    const joined = await bob.request('joinRoom', roomCode, 'Bob', undefined);
+
+    const revoked = await host.request('revokeSession', joined.playerId);
+    expect(revoked.success).toBe(true);
+    expect(bob.received.map(([event, args]) => [event, (args[0] as any)?.code])).toContainEqual(['error', 'SESSION_REVOKED']);
+    expect(bob.rooms.has(roomCode)).toBe(false);
+    expect(await bob.request('rejoinRoom', joined.sessionToken)).toMatchObject({ success: false, error: { code: 'SESSION_REVOKED' } });
+
+    const owner = server.connect('owner');
+    expect(await owner.request('rejoinRoom', revoked.sessionToken)).toEqual({ success: true, roomCode, playerId: joined.playerId });
+  });
+
+  it('keeps a forfeited tournament player out of the seat the bot took over', async () => {
+    const [organizer, alice, bob] = await Promise.all(['Org', 'Alice', 'Bob'].map(name => createGuestAccount(name)));
+    const tournament = createTournament(organizer, { name: 'Cup', format: 'swiss', tableSize: 2 });
+    registerEntrant(tournament, alice);
+    registerEntrant(tournament, bob);
+    await saveTournament(tournament);
+    const { rounds } = await startTournament(server.io, tournament.id, organizer.id);
+    const { roomCode } = rounds[0].tables[0];
+
+    const sockets = [alice, bob].map(account => {
+      const socket = server.connect(account.id);
+      Object.assign(socket.data, { accountId: account.id });
+      return socket;
+    });
+    const [seat] = await Promise.all(sockets.map(socket => socket.request('resumeSeat', roomCode)));
+    expect(seat.success).toBe(true);
+
+    await sockets[0].send('leaveRoom');
+    await vi.waitFor(async () => {
+      const entrant = (await loadTournament(tournament.id))!.entrants.find(e => e.accountId === alice.id);
+      expect(entrant!.status).toBe('dropped');
+    });
+
+    const returning = server.connect('alice-again');
+    expect(await returning.request('rejoinRoom', seat.sessionToken)).toMatchObject({ success: false, error: { code: 'SESSION_REVOKED' } });
+    expect(returning.rooms.has(roomCode)).toBe(false);
+  });
+});
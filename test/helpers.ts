@@ -0,0 +1,39 @@
+import { GameState, Player, Card } from '../src/types/game.js';
+import { loadScenario, matchesCardSpec, Scenario, CardSpec } from '../src/game/scenario.js';
+
+// Two-player scenario with fixed ids so tests can refer to players directly
+export function setup(overrides: Partial<Scenario> & { players?: Scenario['players'] } = {}): GameState {
+  return loadScenario({
+    seed: 'test',
+    players: [{ name: 'Alice', id: 'alice' }, { name: 'Bob', id: 'bob' }],
+    ...overrides
+  });
+}
+
+export function player(state: GameState, id: string): Player {
+  const found = state.players.find(p => p.id === id);
+  if (!found) throw new Error(`No player ${id}`);
+  return found;
+}
+
+function findCard(cards: Card[], spec: CardSpec): Card {
+  const card = cards.find(c => matchesCardSpec(c, spec));
+  if (!card) throw new Error(`No card matching ${spec}`);
+  return card;
+}
+
+export function handCard(state: GameState, playerId: string, spec: CardSpec): string {
+  return findCard(player(state, playerId).hand, spec).id;
+}
+
+export function bankCard(state: GameState, playerId: string, spec: CardSpec): string {
+  return findCard(player(state, playerId).bank, spec).id;
+}
+
+export function propertyCard(state: GameState, playerId: string, spec: CardSpec): string {
+  return findCard(player(state, playerId).properties.flatMap(s => s.cards), spec).id;
+}
+
+export function bankTotal(state: GameState, playerId: string): number {
+  return player(state, playerId).bank.reduce((sum, c) => sum + c.value, 0);
+}
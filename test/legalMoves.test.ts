@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import { playCard, respondToAction } from '../src/game/gameLogic.js';
+import { applyGameCommand } from '../src/game/gameEvents.js';
+import { getLegalMoves } from '../src/game/legalMoves.js';
+import { setup, player, handCard, propertyCard } from './helpers.js';
+
+describe('getLegalMoves', () => {
+  it('only offers drawing at the start of a turn, and nothing to the other players', () => {
+    const state = setup({ turnPhase: 'draw' });
+    expect(getLegalMoves(state, 'alice').commands).toEqual([{ type: 'draw' }]);
+    expect(getLegalMoves(state, 'bob').commands).toEqual([]);
+  });
+
+  it('lists card plays with their targets and leaves out plays the rules reject', () => {
+    const state = setup({
+      players: [{
+        name: 'Alice',
+        id: 'alice',
+        hand: ['action:slyDeal', 'action:house', 'wild:any'],
+        properties: [{ color: 'railroad', cards: ['property:railroad', 'property:railroad'] }]
+      }, {
+        name: 'Bob',
+        id: 'bob',
+        properties: [{ color: 'green', cards: ['property:green'] }, { color: 'red', cards: ['property:red'] }]
+      }]
+    });
+    const commands = getLegalMoves(state, 'alice').commands;
+    const targetsOf = (spec: string) => commands
+      .filter(c => c.type === 'play' && c.cardId === handCard(state, 'alice', spec))
+      .map(c => c.type === 'play' ? c.target : undefined);
+
+    expect(targetsOf('action:slyDeal')).toEqual([
+      { asBank: true },
+      { playerId: 'bob', propertySetColor: 'green', propertySetId: player(state, 'bob').properties[0].id },
+      { playerId: 'bob', propertySetColor: 'red', propertySetId: player(state, 'bob').properties[1].id }
+    ]);
+    // Buildings need a complete set and a multicolour wild needs a real property to join
+    expect(targetsOf('action:house')).toEqual([{ asBank: true }]);
+    expect(targetsOf('wild:any')).toEqual([{ propertySetColor: 'railroad', propertySetId: player(state, 'alice').properties[0].id }]);
+    expect(commands.at(-1)).toEqual({ type: 'endTurn' });
+  });
+
+  it('offers every Double The Rent stack the remaining actions can pay for', () => {
+    const state = setup({
+      actionsRemaining: 2,
+      players: [{
+        name: 'Alice',
+        id: 'alice',
+        hand: ['rent:green/darkBlue', 'action:doubleRent', 'action:doubleRent'],
+        properties: [{ color: 'darkBlue', cards: ['property:Boardwalk'] }]
+      }, { name: 'Bob', id: 'bob' }]
+    });
+    const rentId = handCard(state, 'alice', 'rent:green/darkBlue');
+    const rentPlays = getLegalMoves(state, 'alice').commands.filter(c => c.type === 'play' && c.cardId === rentId && !c.target?.asBank);
+    expect(rentPlays.map(c => c.type === 'play' && c.target?.doubleRentCount)).toEqual([undefined, 1]);
+  });
+
+  it('lists the cards a sly deal target can hand over', () => {
+    const state = setup({
+      players: [
+        { name: 'Alice', id: 'alice', hand: ['action:slyDeal'] },
+        { name: 'Bob', id: 'bob', hand: ['action:justSayNo'], properties: [{ color: 'green', cards: ['property:green', 'wild:green/darkBlue'] }] }
+      ]
+    });
+    playCard(state, 'alice', handCard(state, 'alice', 'action:slyDeal'), { playerId: 'bob', propertySetColor: 'green' });
+
+    expect(getLegalMoves(state, 'alice').commands).toEqual([]);
+    expect(getLegalMoves(state, 'bob').commands).toEqual([
+      { type: 'respond', response: { accept: false, useJustSayNo: true } },
+      { type: 'respond', response: { accept: true, selectedCardId: propertyCard(state, 'bob', 'property:green') } },
+      { type: 'respond', response: { accept: true, selectedCardId: propertyCard(state, 'bob', 'wild:green/darkBlue') } }
+    ]);
+  });
+
+  it('describes payments and discards by the cards to choose from', () => {
+    const state = setup({
+      players: [
+        { name: 'Alice', id: 'alice', hand: ['action:debtCollector'] },
+        { name: 'Bob', id: 'bob', bank: ['money:1', 'money:5'], properties: [{ color: 'green', cards: ['property:green', 'wild:any'] }] }
+      ]
+    });
+    playCard(state, 'alice', handCard(state, 'alice', 'action:debtCollector'), { playerId: 'bob' });
+
+    const { commands, payment } = getLegalMoves(state, 'bob');
+    expect(payment?.amount).toBe(5);
+    expect(payment?.cardIds).not.toContain(propertyCard(state, 'bob', 'wild:any'));
+    expect(payment?.cardIds).toHaveLength(3);
+    expect(commands).toEqual([{ type: 'respond', response: { accept: true, paymentCardIds: payment?.suggestedCardIds } }]);
+    respondToAction(state, 'bob', { accept: true, paymentCardIds: payment?.suggestedCardIds });
+
+    const discarding = setup({
+      turnPhase: 'discard',
+      settings: { handLimit: 3 },
+      players: [{ name: 'Alice', id: 'alice', hand: ['money:1', 'money:2', 'money:3', 'money:4', 'money:5'] }, { name: 'Bob', id: 'bob' }]
+    });
+    expect(getLegalMoves(discarding, 'alice').discard).toEqual({ count: 2, cardIds: player(discarding, 'alice').hand.map(c => c.id) });
+  });
+
+  it('lets the initiator counter or accept a Just Say No', () => {
+    const state = setup({
+      players: [
+        { name: 'Alice', id: 'alice', hand: ['action:dealBreaker', 'action:justSayNo'] },
+        { name: 'Bob', id: 'bob', hand: ['action:justSayNo'], properties: [{ color: 'darkBlue', cards: ['property:Boardwalk', 'property:Park Place'] }] }
+      ]
+    });
+    playCard(state, 'alice', handCard(state, 'alice', 'action:dealBreaker'), { playerId: 'bob', propertySetColor: 'darkBlue' });
+    respondToAction(state, 'bob', { accept: false, useJustSayNo: true });
+
+    const commands = getLegalMoves(state, 'alice').commands;
+    expect(commands).toEqual([
+      { type: 'respond', response: { accept: false, targetPlayerId: 'bob' } },
+      { type: 'respond', response: { accept: false, useJustSayNo: true, targetPlayerId: 'bob' } }
+    ]);
+    for (const command of commands) expect(() => applyGameCommand(structuredClone(state), 'alice', command)).not.toThrow();
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { Room, GameState } from '../src/types/game.js';
+import { listRooms, toRoomSummary, updateLobby, removeFromLobby } from '../src/socket/lobby.js';
+import { setup } from './helpers.js';
+
+function makeRoom(code: string, state: GameState, visibility: 'public' | 'private' = 'public'): Room {
+  state.visibility = visibility;
+  return { code, gameState: state, chatMessages: [], eventSequence: 0, spectators: [] };
+}
+
+// Records what would be broadcast to the lobby channel
+function fakeIo() {
+  const sent: [string, unknown][] = [];
+  const io = { to: () => ({ emit: (event: string, payload: unknown) => sent.push([event, payload]) }) };
+  return { io: io as any, sent };
+}
+
+describe('lobby', () => {
+  it('lists public rooms that are not over, with who is in them', () => {
+    const waiting = makeRoom('WAIT01', setup({ phase: 'waiting', players: [{ name: 'Alice', id: 'alice' }] }));
+    const playing = makeRoom('PLAY01', setup({ players: [{ name: 'Bob', id: 'bob' }, { name: 'Bot', id: 'bot', isBot: true }] }));
+    const hidden = makeRoom('PRIV01', setup({ phase: 'waiting' }), 'private');
+    const finished = makeRoom('DONE01', setup({ phase: 'finished' }));
+    playing.spectators.push({ id: 's1', name: 'Carol', socketId: 'socket-1' });
+
+    expect(listRooms([waiting, playing, hidden, finished]).map(r => r.code).sort()).toEqual(['PLAY01', 'WAIT01']);
+    expect(listRooms([waiting, playing], 'waiting').map(r => r.code)).toEqual(['WAIT01']);
+    expect(toRoomSummary(playing)).toMatchObject({
+      hostName: 'Bob',
+      playerCount: 2,
+      botCount: 1,
+      spectatorCount: 1,
+      phase: 'playing'
+    });
+  });
+
+  it('only broadcasts rooms whose listing changed, and removes rooms that stop being listed', () => {
+    const { io, sent } = fakeIo();
+    const room = makeRoom('LIVE01', setup({ phase: 'waiting' }));
+
+    updateLobby(io, room);
+    updateLobby(io, room);
+    expect(sent.map(([event]) => event)).toEqual(['lobbyRoomUpdated']);
+
+    room.gameState.visibility = 'private';
+    updateLobby(io, room);
+    removeFromLobby(io, room.code);
+    expect(sent.map(([event]) => event)).toEqual(['lobbyRoomUpdated', 'lobbyRoomRemoved']);
+    expect(sent[1][1]).toBe('LIVE01');
+  });
+});
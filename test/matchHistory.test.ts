@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { playCard, respondToAction } from '../src/game/gameLogic.js';
+import { buildMatchRecord, summarizeAccountStats } from '../src/game/matchHistory.js';
+import { setup, player, handCard, bankCard } from './helpers.js';
+
+function playedGame() {
+  const state = setup({
+    players: [
+      {
+        name: 'Alice', id: 'alice',
+        hand: ['action:passGo', 'rent:brown/lightBlue', 'action:debtCollector'],
+        properties: [{ color: 'brown', cards: ['property:brown', 'property:brown'] }]
+      },
+      { name: 'Bob', id: 'bob', hand: ['action:justSayNo'], bank: ['money:2', 'money:5'] }
+    ]
+  });
+
+  playCard(state, 'alice', handCard(state, 'alice', 'action:passGo'), { asBank: true });
+  playCard(state, 'alice', handCard(state, 'alice', 'rent:brown/lightBlue'), { propertySetColor: 'brown' });
+  respondToAction(state, 'bob', { accept: true, paymentCardIds: [bankCard(state, 'bob', 'money:2')] });
+  playCard(state, 'alice', handCard(state, 'alice', 'action:debtCollector'), { playerId: 'bob' });
+  respondToAction(state, 'bob', { accept: false, useJustSayNo: true });
+  return state;
+}
+
+describe('player stats', () => {
+  it('counts cards played, rent and Just Say No as the game goes', () => {
+    const state = playedGame();
+
+    expect(state.stats!.alice.cardsPlayed).toEqual({ property: 0, money: 0, action: 1, rent: 1, banked: 1 });
+    expect(state.stats!.alice.rentCollected).toBe(2);
+    expect(state.stats!.bob.rentPaid).toBe(2);
+    expect(state.stats!.bob.justSayNoPlayed).toBe(1);
+    expect(state.stats!.bob.debtsPaid).toBe(0);
+  });
+
+  it('counts birthdays and debt collectors as debts', () => {
+    const state = setup({
+      players: [
+        { name: 'Alice', id: 'alice', hand: ['action:debtCollector'] },
+        { name: 'Bob', id: 'bob', bank: ['money:5'] }
+      ]
+    });
+    playCard(state, 'alice', handCard(state, 'alice', 'action:debtCollector'), { playerId: 'bob' });
+    respondToAction(state, 'bob', { accept: true, paymentCardIds: [bankCard(state, 'bob', 'money:5')] });
+
+    expect(state.stats!.alice.debtsCollected).toBe(5);
+    expect(state.stats!.bob.debtsPaid).toBe(5);
+    expect(state.stats!.alice.rentCollected).toBe(0);
+  });
+});
+
+describe('buildMatchRecord', () => {
+  it('records the winner, completed sets and each player\'s stats', () => {
+    const state = playedGame();
+    state.startedAt = new Date('2026-01-01T10:00:00Z');
+    state.winner = 'alice';
+    state.phase = 'finished';
+    player(state, 'alice').accountId = 'account-alice';
+
+    const record = buildMatchRecord(state, new Date('2026-01-01T10:12:30Z'));
+    expect(record).toMatchObject({
+      gameId: state.id,
+      durationSeconds: 750,
+      winnerId: 'alice',
+      winnerAccountId: 'account-alice',
+      completedSetsByColor: { brown: 1 }
+    });
+    expect(record.participants.map(p => [p.accountId, p.isWinner, p.completedSets])).toEqual([
+      ['account-alice', true, ['brown']],
+      [null, false, []]
+    ]);
+    expect(record.participants[1].stats.rentPaid).toBe(2);
+  });
+
+  it('refuses games without a winner', () => {
+    expect(() => buildMatchRecord(setup())).toThrow('Only finished games can be recorded');
+  });
+});
+
+describe('summarizeAccountStats', () => {
+  it('adds up the games an account played', () => {
+    const state = playedGame();
+    state.winner = 'alice';
+    player(state, 'alice').accountId = 'account-alice';
+    const won = buildMatchRecord(state);
+
+    state.winner = 'bob';
+    const lost = buildMatchRecord(state);
+
+    const stats = summarizeAccountStats('account-alice', [won, lost]);
+    expect(stats).toMatchObject({ gamesPlayed: 2, wins: 1, winRate: 0.5, setsCompletedByColor: { brown: 2 } });
+    expect(stats.totals.rentCollected).toBe(4);
+    expect(summarizeAccountStats('account-nobody', [won, lost]).gamesPlayed).toBe(0);
+  });
+});
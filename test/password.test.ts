@@ -0,0 +1,13 @@
+import { describe, it, expect } from 'vitest';
+import { hashPassword, verifyPassword } from '../src/auth/password.js';
+
+describe('room passwords', () => {
+  it('only accepts the password that was hashed', async () => {
+    const stored = await hashPassword('open sesame');
+    expect(stored).not.toContain('open sesame');
+    expect(await verifyPassword('open sesame', stored)).toBe(true);
+    expect(await verifyPassword('open sesame!', stored)).toBe(false);
+    expect(await verifyPassword('open sesame', 'garbage')).toBe(false);
+    expect(await hashPassword('open sesame')).not.toBe(stored);
+  });
+});
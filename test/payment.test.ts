@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest';
+import { playCard, respondToAction, getPublicGameState } from '../src/game/gameLogic.js';
+import { suggestPayment, transferPayment, validatePayment } from '../src/game/payment.js';
+import { setup, player, handCard, bankCard, propertyCard, bankTotal } from './helpers.js';
+import { ScenarioPlayer } from '../src/game/scenario.js';
+
+function payScenario(bob: Omit<ScenarioPlayer, 'name'>, alice: Omit<ScenarioPlayer, 'name'> = {}) {
+  return setup({ players: [{ name: 'Alice', id: 'alice', ...alice }, { name: 'Bob', id: 'bob', ...bob }] });
+}
+
+describe('suggestPayment', () => {
+  it('finds the smallest overpayment from the bank', () => {
+    const state = payScenario({ bank: ['money:1', 'money:2', 'money:4', 'money:5'] });
+    const bob = player(state, 'bob');
+    const paid = suggestPayment(bob, 3).map(id => bob.bank.find(c => c.id === id)!.value);
+    expect(paid.reduce((sum, v) => sum + v, 0)).toBe(3);
+  });
+
+  it('uses a property when that overpays less, and bank cards otherwise', () => {
+    const state = payScenario({ bank: ['money:1', 'money:3'], properties: [{ color: 'green', cards: ['property:green'] }] });
+    expect(suggestPayment(player(state, 'bob'), 4)).toEqual([bankCard(state, 'bob', 'money:1'), bankCard(state, 'bob', 'money:3')]);
+    expect(suggestPayment(player(state, 'bob'), 2)).toEqual([bankCard(state, 'bob', 'money:3')]);
+  });
+
+  it('breaks up complete sets last and hands over everything when short', () => {
+    const state = payScenario({
+      properties: [
+        { color: 'brown', cards: ['property:Mediterranean Avenue', 'property:Baltic Avenue'] },
+        { color: 'lightBlue', cards: ['property:Oriental Avenue'] }
+      ]
+    });
+    expect(suggestPayment(player(state, 'bob'), 1)).toEqual([propertyCard(state, 'bob', 'property:Oriental Avenue')]);
+    expect(suggestPayment(player(state, 'bob'), 10)).toHaveLength(3);
+  });
+
+  it('pays a house with its hotel when the rest does not cover the debt', () => {
+    const state = payScenario({
+      properties: [{ color: 'brown', cards: ['property:brown', 'property:brown'], hasHouse: true, hasHotel: true }]
+    });
+    const bob = player(state, 'bob');
+    for (const amount of [8, 10]) {
+      const suggestion = suggestPayment(bob, amount);
+      expect(suggestion).toContain(propertyCard(state, 'bob', 'action:house'));
+      expect(() => validatePayment(bob, suggestion, amount)).not.toThrow();
+    }
+    expect(suggestPayment(bob, 4)).toEqual([propertyCard(state, 'bob', 'action:hotel')]);
+  });
+
+  it('is offered to the player who owes money', () => {
+    const state = payScenario({ bank: ['money:5'] }, { hand: ['action:debtCollector'] });
+    playCard(state, 'alice', handCard(state, 'alice', 'action:debtCollector'), { playerId: 'bob' });
+    expect(getPublicGameState(state, 'bob').suggestedPayment).toEqual([bankCard(state, 'bob', 'money:5')]);
+    expect(getPublicGameState(state, 'alice').suggestedPayment).toBeUndefined();
+  });
+});
+
+describe('validatePayment', () => {
+  it('only accepts the payer\'s own bank and property cards, once each', () => {
+    const state = payScenario({ hand: ['money:5'], bank: ['money:2'] }, { bank: ['money:3'] });
+    const bob = player(state, 'bob');
+
+    expect(() => validatePayment(bob, [handCard(state, 'bob', 'money:5')], 2))
+      .toThrow('You can only pay with cards from your bank or properties');
+    expect(() => validatePayment(bob, [bankCard(state, 'alice', 'money:3')], 2))
+      .toThrow('You can only pay with cards from your bank or properties');
+    expect(() => validatePayment(bob, [bankCard(state, 'bob', 'money:2'), bankCard(state, 'bob', 'money:2')], 2))
+      .toThrow('The same card was offered twice');
+    expect(() => validatePayment(bob, [], 2)).toThrow('You must pay at least $2M (you selected $0M)');
+  });
+
+  it('keeps a house under its hotel', () => {
+    const state = payScenario({
+      properties: [{ color: 'brown', cards: ['property:brown', 'property:brown'], hasHouse: true, hasHotel: true }]
+    });
+    expect(() => validatePayment(player(state, 'bob'), [propertyCard(state, 'bob', 'action:house')], 3))
+      .toThrow('A house cannot be paid while its hotel stays');
+  });
+});
+
+describe('transferPayment', () => {
+  it('banks paid buildings for the receiver and clears them from the set', () => {
+    const state = payScenario({
+      properties: [{ color: 'brown', cards: ['property:brown', 'property:brown'], hasHouse: true, hasHotel: true }]
+    });
+    transferPayment(state, player(state, 'bob'), player(state, 'alice'), [propertyCard(state, 'bob', 'action:hotel')], 4);
+
+    expect(player(state, 'bob').properties[0]).toMatchObject({ hasHouse: true, hasHotel: false, isComplete: true });
+    expect(bankTotal(state, 'alice')).toBe(4);
+  });
+
+  it('moves properties into the receiver\'s sets without giving change', () => {
+    const state = payScenario(
+      { properties: [{ color: 'darkBlue', cards: ['property:Boardwalk', 'wild:green/darkBlue'] }] },
+      { properties: [{ color: 'darkBlue', cards: ['property:Park Place'] }] }
+    );
+    transferPayment(state, player(state, 'bob'), player(state, 'alice'), [propertyCard(state, 'bob', 'wild:green/darkBlue')], 1);
+
+    expect(player(state, 'alice').properties[0]).toMatchObject({ color: 'darkBlue', isComplete: true });
+    expect(player(state, 'bob').properties[0]).toMatchObject({ color: 'darkBlue', isComplete: false });
+    expect(bankTotal(state, 'bob')).toBe(0);
+  });
+
+  it('returns buildings to the payer\'s bank once their set has no properties left', () => {
+    const state = payScenario({
+      properties: [{ color: 'brown', cards: ['property:Mediterranean Avenue', 'property:Baltic Avenue'], hasHouse: true }]
+    });
+    transferPayment(state, player(state, 'bob'), player(state, 'alice'), [
+      propertyCard(state, 'bob', 'property:Mediterranean Avenue'),
+      propertyCard(state, 'bob', 'property:Baltic Avenue')
+    ], 2);
+
+    expect(player(state, 'bob').properties).toHaveLength(0);
+    expect(player(state, 'bob').bank.map(c => c.name)).toEqual(['House']);
+  });
+
+  it('returns a house to the payer\'s bank once a payment breaks up its set', () => {
+    const state = payScenario({
+      properties: [{ color: 'brown', cards: ['property:Mediterranean Avenue', 'property:Baltic Avenue'], hasHouse: true }]
+    });
+    transferPayment(state, player(state, 'bob'), player(state, 'alice'), [propertyCard(state, 'bob', 'property:Baltic Avenue')], 1);
+
+    expect(player(state, 'bob').properties[0]).toMatchObject({ isComplete: false, hasHouse: false, hasHotel: false });
+    expect(player(state, 'bob').properties[0].cards.map(c => c.name)).toEqual(['Mediterranean Avenue']);
+    expect(player(state, 'bob').bank.map(c => c.name)).toEqual(['House']);
+  });
+
+  it('returns a house and hotel to the payer\'s bank once a payment breaks up their set', () => {
+    const state = payScenario({
+      properties: [{ color: 'darkBlue', cards: ['property:Boardwalk', 'property:Park Place'], hasHouse: true, hasHotel: true }]
+    });
+    transferPayment(state, player(state, 'bob'), player(state, 'alice'), [propertyCard(state, 'bob', 'property:Boardwalk')], 4);
+
+    expect(player(state, 'bob').properties[0]).toMatchObject({ isComplete: false, hasHouse: false, hasHotel: false });
+    expect(player(state, 'bob').bank.map(c => c.name).sort()).toEqual(['Hotel', 'House']);
+    expect(player(state, 'alice').properties[0].cards.map(c => c.name)).toEqual(['Boardwalk']);
+  });
+
+  it('declares the receiver the winner when a payment completes their last set', () => {
+    const state = payScenario({ properties: [{ color: 'darkBlue', cards: ['property:Boardwalk'] }] }, {
+      hand: ['action:debtCollector'],
+      properties: [
+        { color: 'brown', cards: ['property:brown', 'property:brown'] },
+        { color: 'utility', cards: ['property:utility', 'property:utility'] },
+        { color: 'darkBlue', cards: ['property:Park Place'] }
+      ]
+    });
+    playCard(state, 'alice', handCard(state, 'alice', 'action:debtCollector'), { playerId: 'bob' });
+    respondToAction(state, 'bob', { accept: true, paymentCardIds: [propertyCard(state, 'bob', 'property:Boardwalk')] });
+
+    expect(state.winner).toBe('alice');
+    expect(state.phase).toBe('finished');
+  });
+});
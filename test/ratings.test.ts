@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { setStorage, loadRatings, saveMatch } from '../src/db/storage.js';
+import { createMemoryStorage } from '../src/db/memoryStorage.js';
+import { buildMatchRecord } from '../src/game/matchHistory.js';
+import { calculateRatings, rateMatch, DEFAULT_RATING } from '../src/game/ratings.js';
+import { summarizeRatingChanges, startOfWeek, getRatingLeaderboard, getWeeklyLeaderboard } from '../src/game/leaderboards.js';
+import { registerAccount } from '../src/auth/accounts.js';
+import { MatchRecord } from '../src/types/game.js';
+import { setup } from './helpers.js';
+
+// A finished rated game between accounts a, b, c... won by the given one
+function ratedMatch(accounts: string[], winner: string, finishedAt = new Date()): MatchRecord {
+  const state = setup({ players: accounts.map(id => ({ name: id, id })) });
+  state.players.forEach(p => { p.accountId = p.id; });
+  state.rated = true;
+  state.winner = winner;
+  return buildMatchRecord(state, finishedAt);
+}
+
+describe('calculateRatings', () => {
+  it('moves a duel by half of K between equal players', () => {
+    const ratings = calculateRatings(ratedMatch(['a', 'b'], 'a'), new Map());
+    expect(ratings.get('a')).toBe(DEFAULT_RATING + 16);
+    expect(ratings.get('b')).toBe(DEFAULT_RATING - 16);
+  });
+
+  it('lets the losers of a free-for-all draw with each other', () => {
+    const ratings = calculateRatings(ratedMatch(['a', 'b', 'c'], 'a'), new Map([['b', 1600]]));
+    expect(ratings.get('a')! - DEFAULT_RATING).toBeGreaterThan(16);
+    // b was expected to do better than c, so b loses more
+    expect(ratings.get('b')! - 1600).toBeLessThan(ratings.get('c')! - DEFAULT_RATING);
+    expect(ratings.get('c')).toBeLessThan(DEFAULT_RATING);
+  });
+
+  it('rewards an upset more than an expected win', () => {
+    const upset = calculateRatings(ratedMatch(['a', 'b'], 'a'), new Map([['a', 1300], ['b', 1700]]));
+    const expected = calculateRatings(ratedMatch(['a', 'b'], 'b'), new Map([['a', 1300], ['b', 1700]]));
+    expect(upset.get('a')! - 1300).toBeGreaterThan(16);
+    expect(expected.get('b')! - 1700).toBeLessThan(16);
+  });
+});
+
+describe('rated matches', () => {
+  it('only counts games the room rated between accounts without bots', () => {
+    expect(ratedMatch(['a', 'b'], 'a').rated).toBe(true);
+
+    const state = setup();
+    state.winner = 'alice';
+    state.rated = true;
+    expect(buildMatchRecord(state).rated).toBe(false);
+
+    state.players.forEach(p => { p.accountId = p.id; });
+    state.seeded = true;
+    expect(buildMatchRecord(state).rated).toBe(false);
+
+    state.seeded = false;
+    state.players[1].isBot = true;
+    expect(buildMatchRecord(state).rated).toBe(false);
+  });
+});
+
+describe('ratings and leaderboards', () => {
+  beforeEach(() => {
+    setStorage(createMemoryStorage());
+  });
+
+  afterEach(() => {
+    setStorage(null);
+  });
+
+  it('stores ratings and notes each change on the match', async () => {
+    const first = ratedMatch(['a', 'b'], 'a');
+    await rateMatch(first);
+    expect(first.participants.map(p => p.rating)).toEqual([
+      { before: DEFAULT_RATING, after: DEFAULT_RATING + 16 },
+      { before: DEFAULT_RATING, after: DEFAULT_RATING - 16 }
+    ]);
+
+    const second = ratedMatch(['a', 'b'], 'a');
+    await rateMatch(second);
+    expect(second.participants[0].rating!.before).toBe(DEFAULT_RATING + 16);
+    expect(await loadRatings(['a'])).toEqual([expect.objectContaining({ gamesPlayed: 2, wins: 2 })]);
+
+    const unrated = { ...ratedMatch(['a', 'b'], 'b'), rated: false };
+    await rateMatch(unrated);
+    expect(unrated.participants[0].rating).toBeUndefined();
+  });
+
+  it('ranks everyone or a group by rating', async () => {
+    const alice = await registerAccount('alice', 'correct horse');
+    const bob = await registerAccount('bob', 'correct horse');
+    await rateMatch(ratedMatch([alice.id, bob.id], bob.id));
+    await rateMatch(ratedMatch([alice.id, 'carol'], alice.id));
+
+    const board = await getRatingLeaderboard({ limit: 10, offset: 0 });
+    expect(board.total).toBe(3);
+    expect(board.entries.map(e => [e.rank, e.displayName])).toEqual([[1, 'bob'], [2, 'alice'], [3, '']]);
+
+    const group = await getRatingLeaderboard({ limit: 10, offset: 1 }, [alice.id, 'carol']);
+    expect(group.entries.map(e => [e.rank, e.accountId])).toEqual([[2, 'carol']]);
+  });
+
+  it('ranks a week by rating gained in it', async () => {
+    const monday = new Date('2026-10-12T00:00:00Z');
+    await rateMatch(ratedMatch(['a', 'b'], 'a', new Date('2026-10-05T12:00:00Z')));
+    for (const winner of ['b', 'b', 'a']) {
+      const match = ratedMatch(['a', 'b'], winner, new Date('2026-10-13T12:00:00Z'));
+      await rateMatch(match);
+      await saveMatch(match);
+    }
+
+    const { entries, total } = await getWeeklyLeaderboard(monday, { limit: 10, offset: 0 });
+    expect(total).toBe(2);
+    expect(entries[0]).toMatchObject({ rank: 1, accountId: 'b', gamesPlayed: 3, wins: 2 });
+    expect(entries[0].ratingChange).toBeGreaterThan(0);
+    expect(entries[1].ratingChange).toBe(-entries[0].ratingChange!);
+  });
+});
+
+describe('summarizeRatingChanges', () => {
+  it('keeps the latest rating and skips unrated players', () => {
+    const early = ratedMatch(['a', 'b'], 'a', new Date('2026-10-13T10:00:00Z'));
+    const late = ratedMatch(['a', 'b'], 'b', new Date('2026-10-14T10:00:00Z'));
+    early.participants[0].rating = { before: 1500, after: 1516 };
+    late.participants[0].rating = { before: 1516, after: 1499 };
+
+    expect(summarizeRatingChanges([late, early])).toEqual([
+      { accountId: 'a', rating: 1499, ratingChange: -1, gamesPlayed: 2, wins: 1 }
+    ]);
+  });
+});
+
+describe('startOfWeek', () => {
+  it('goes back to Monday midnight UTC', () => {
+    expect(startOfWeek(new Date('2026-10-18T23:59:00Z'))).toEqual(new Date('2026-10-12T00:00:00Z'));
+    expect(startOfWeek(new Date('2026-10-12T00:00:00Z'))).toEqual(new Date('2026-10-12T00:00:00Z'));
+    expect(startOfWeek(new Date('2026-10-14T08:00:00Z'))).toEqual(new Date('2026-10-12T00:00:00Z'));
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { runInRoomQueue } from '../src/socket/roomQueue.js';
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('runInRoomQueue', () => {
+  it('runs one room\'s tasks strictly in the order they were queued', async () => {
+    const log: string[] = [];
+    const slow = runInRoomQueue('ROOM01', async () => {
+      log.push('slow start');
+      await wait(20);
+      log.push('slow end');
+    });
+    const fast = runInRoomQueue('ROOM01', async () => {
+      log.push('fast');
+    });
+
+    await Promise.all([slow, fast]);
+    expect(log).toEqual(['slow start', 'slow end', 'fast']);
+  });
+
+  it('keeps going after a task fails and passes results and errors back to the caller', async () => {
+    const failed = runInRoomQueue('ROOM01', async () => {
+      throw new Error('Not your turn');
+    });
+    const next = runInRoomQueue('ROOM01', async () => 42);
+
+    await expect(failed).rejects.toThrow('Not your turn');
+    await expect(next).resolves.toBe(42);
+  });
+
+  it('does not hold up other rooms', async () => {
+    const log: string[] = [];
+    const slow = runInRoomQueue('ROOM01', async () => {
+      await wait(20);
+      log.push('ROOM01');
+    });
+    const other = runInRoomQueue('ROOM02', async () => {
+      log.push('ROOM02');
+    });
+
+    await Promise.all([slow, other]);
+    expect(log).toEqual(['ROOM02', 'ROOM01']);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { playCard, respondToAction, rearrangeProperty } from '../src/game/gameLogic.js';
+import { setup, player, handCard, propertyCard, bankCard } from './helpers.js';
+
+describe('official card rules', () => {
+  it('does not allow buildings on railroads or utilities', () => {
+    const state = setup({
+      players: [{
+        name: 'Alice',
+        id: 'alice',
+        hand: ['action:house'],
+        properties: [{ color: 'utility', cards: ['property:utility', 'property:utility'] }]
+      }, { name: 'Bob', id: 'bob' }]
+    });
+    expect(() => playCard(state, 'alice', handCard(state, 'alice', 'action:house'), { propertySetColor: 'utility' }))
+      .toThrow('Houses and hotels cannot be built on railroads or utilities');
+    expect(player(state, 'alice').hand).toHaveLength(1);
+  });
+
+  it('does not let a multicolour wild start a set on its own', () => {
+    const state = setup({
+      players: [{
+        name: 'Alice',
+        id: 'alice',
+        hand: ['wild:any'],
+        properties: [{ color: 'green', cards: ['property:green'] }]
+      }, { name: 'Bob', id: 'bob' }]
+    });
+    const wild = handCard(state, 'alice', 'wild:any');
+
+    expect(() => playCard(state, 'alice', wild, { propertySetColor: 'red' })).toThrow('A multicolour wild cannot start a set on its own');
+    playCard(state, 'alice', wild, { propertySetColor: 'green' });
+    expect(player(state, 'alice').properties[0].cards).toHaveLength(2);
+
+    expect(() => rearrangeProperty(state, 'alice', wild, 'green', 'red')).toThrow('A multicolour wild cannot start a set on its own');
+  });
+
+  it('does not accept multicolour wilds as payment', () => {
+    const state = setup({
+      players: [
+        { name: 'Alice', id: 'alice', hand: ['action:debtCollector'] },
+        { name: 'Bob', id: 'bob', bank: ['money:5'], properties: [{ color: 'green', cards: ['property:green', 'wild:any'] }] }
+      ]
+    });
+    playCard(state, 'alice', handCard(state, 'alice', 'action:debtCollector'), { playerId: 'bob' });
+
+    expect(() => respondToAction(state, 'bob', {
+      accept: true,
+      paymentCardIds: [bankCard(state, 'bob', 'money:5'), propertyCard(state, 'bob', 'wild:any')]
+    })).toThrow('Multicolour wild properties have no cash value and cannot be used to pay');
+  });
+
+  it('keeps houses and hotels on a complete set when a wildcard moves', () => {
+    const state = setup({
+      players: [{
+        name: 'Alice',
+        id: 'alice',
+        properties: [{ color: 'darkBlue', cards: ['property:Boardwalk', 'wild:green/darkBlue'], hasHouse: true }]
+      }, { name: 'Bob', id: 'bob' }]
+    });
+    expect(() => rearrangeProperty(state, 'alice', propertyCard(state, 'alice', 'wild:green/darkBlue'), 'darkBlue', 'green'))
+      .toThrow('Moving this wildcard would leave a house or hotel on an incomplete set');
+  });
+
+  it('needs an action and a card for every Double The Rent', () => {
+    const state = setup({
+      actionsRemaining: 2,
+      players: [{
+        name: 'Alice',
+        id: 'alice',
+        hand: ['rent:green/darkBlue', 'action:doubleRent', 'action:doubleRent'],
+        properties: [{ color: 'darkBlue', cards: ['property:Boardwalk'] }]
+      }, { name: 'Bob', id: 'bob' }]
+    });
+    const rent = handCard(state, 'alice', 'rent:green/darkBlue');
+
+    expect(() => playCard(state, 'alice', rent, { useDoubleRent: true, doubleRentCount: 3 })).toThrow('No Double The Rent card in hand');
+    expect(() => playCard(state, 'alice', rent, { useDoubleRent: true, doubleRentCount: 2 }))
+      .toThrow('Charging rent with 2 Double The Rent card(s) needs 3 actions');
+
+    state.actionsRemaining = 3;
+    playCard(state, 'alice', rent, { useDoubleRent: true, doubleRentCount: 2 });
+    expect(state.pendingAction?.amount).toBe(12);
+    expect(state.actionsRemaining).toBe(0);
+  });
+});
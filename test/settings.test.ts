@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { createGameSettings, getGameSettings, DEFAULT_SETTINGS } from '../src/game/settings.js';
+import { GameState } from '../src/types/game.js';
+
+describe('createGameSettings', () => {
+  it('fills in defaults for missing settings', () => {
+    expect(createGameSettings()).toEqual(DEFAULT_SETTINGS);
+    expect(createGameSettings({ setsToWin: 4 })).toEqual({ ...DEFAULT_SETTINGS, setsToWin: 4 });
+  });
+
+  it('rejects unknown and out-of-range settings', () => {
+    expect(() => createGameSettings({ colour: 1 } as any)).toThrow('Unknown setting: colour');
+    expect(() => createGameSettings({ actionsPerTurn: 0 })).toThrow('actionsPerTurn must be a whole number from 1 to 5');
+    expect(() => createGameSettings({ cardsPerDraw: 2.5 })).toThrow('cardsPerDraw must be a whole number from 1 to 5');
+    expect(() => createGameSettings({ handLimit: '7' } as any)).toThrow('handLimit must be a whole number');
+    expect(() => createGameSettings(null as any)).toThrow('Settings must be an object');
+  });
+});
+
+describe('getGameSettings', () => {
+  it('uses the default for settings added after a game was saved', () => {
+    const { maxSpectators, spectatorDelaySeconds, ...older } = createGameSettings({ setsToWin: 4 });
+    const settings = getGameSettings({ settings: older } as GameState);
+    expect(settings.setsToWin).toBe(4);
+    expect(settings.maxSpectators).toBe(DEFAULT_SETTINGS.maxSpectators);
+    expect(settings.spectatorDelaySeconds).toBe(0);
+  });
+});
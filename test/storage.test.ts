@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { GameStorage } from '../src/db/storage.js';
+import { createMemoryStorage } from '../src/db/memoryStorage.js';
+import { createFileStorage } from '../src/db/fileStorage.js';
+import { GameEventRecord } from '../src/types/game.js';
+import { buildMatchRecord } from '../src/game/matchHistory.js';
+import { createGameSettings } from '../src/game/settings.js';
+import { setup } from './helpers.js';
+
+const backends: [string, (dir: string) => GameStorage][] = [
+  ['memory', () => createMemoryStorage()],
+  ['file', dir => createFileStorage(dir)]
+];
+
+describe.each(backends)('%s storage', (_name, create) => {
+  let dir: string;
+  let storage: GameStorage;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'storage-test-'));
+    storage = create(dir);
+    await storage.connect();
+  });
+
+  afterEach(async () => {
+    await storage.close();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('saves, loads and deletes game states', async () => {
+    const state = setup();
+    await storage.saveGameState(state);
+
+    const loaded = await storage.loadGameState(state.roomCode);
+    expect(loaded).toEqual(state);
+    expect(loaded!.updatedAt).toBeInstanceOf(Date);
+    expect(await storage.loadActiveGameStates()).toHaveLength(1);
+
+    await storage.deleteGameState(state.roomCode);
+    expect(await storage.loadGameState(state.roomCode)).toBeNull();
+  });
+
+  it('only lists games in progress as active', async () => {
+    await storage.saveGameState(setup({ roomCode: 'WAIT01', phase: 'waiting' }));
+    await storage.saveGameState(setup({ roomCode: 'PLAY01' }));
+
+    const active = await storage.loadActiveGameStates();
+    expect(active.map(state => state.roomCode)).toEqual(['PLAY01']);
+  });
+
+  it('keeps the latest chat messages in order', async () => {
+    for (let i = 0; i < 5; i++) {
+      await storage.saveChatMessage('ROOM01', {
+        id: `m${i}`, playerId: 'alice', playerName: 'Alice', message: `hello ${i}`, timestamp: new Date(1000 + i), type: 'chat'
+      });
+    }
+
+    const messages = await storage.getChatMessages('ROOM01', 3);
+    expect(messages.map(m => m.id)).toEqual(['m2', 'm3', 'm4']);
+    expect(messages[0].timestamp).toBeInstanceOf(Date);
+  });
+
+  it('appends and counts game events in sequence order', async () => {
+    const record = (sequence: number): GameEventRecord => ({
+      gameId: 'game-1', roomCode: 'ROOM01', sequence, timestamp: new Date(),
+      event: { type: 'endTurn', playerId: 'alice' }
+    });
+    await storage.appendGameEvent(record(2));
+    await storage.appendGameEvent(record(1));
+
+    const events = await storage.getGameEvents('game-1');
+    expect(events.map(e => e.sequence)).toEqual([1, 2]);
+    expect(await storage.countGameEvents('game-1')).toBe(2);
+    expect(await storage.countGameEvents('game-2')).toBe(0);
+  });
+
+  it('saves accounts and finds them by username', async () => {
+    const now = new Date();
+    const account = {
+      id: 'account-1', username: 'Alice', usernameKey: 'alice', displayName: 'Alice',
+      passwordHash: 'hash', isGuest: false, createdAt: now, updatedAt: now
+    };
+    await storage.saveAccount(account);
+    await storage.saveAccount({ ...account, id: 'guest-1', username: null, usernameKey: null, isGuest: true });
+
+    expect(await storage.loadAccount('account-1')).toEqual(account);
+    expect((await storage.findAccountByUsername('alice'))?.id).toBe('account-1');
+    expect(await storage.findAccountByUsername('bob')).toBeNull();
+  });
+
+  it('finds matches by account and result, newest first', async () => {
+    const state = setup();
+    state.players[0].accountId = 'account-alice';
+    for (let day = 1; day <= 3; day++) {
+      state.id = `game-${day}`;
+      state.winner = day === 2 ? 'bob' : 'alice';
+      await storage.saveMatch(buildMatchRecord(state, new Date(`2026-01-0${day}T12:00:00Z`)));
+    }
+
+    expect(await storage.loadMatch('game-2')).toMatchObject({ gameId: 'game-2', winnerId: 'bob' });
+    expect(await storage.loadMatch('game-9')).toBeNull();
+
+    const all = await storage.findMatches({ accountId: 'account-alice' }, { limit: 2, offset: 0 });
+    expect(all.total).toBe(3);
+    expect(all.matches.map(m => m.gameId)).toEqual(['game-3', 'game-2']);
+
+    const won = await storage.findMatches({ accountId: 'account-alice', result: 'won', since: new Date('2026-01-02T00:00:00Z') });
+    expect(won.matches.map(m => m.gameId)).toEqual(['game-3']);
+    expect((await storage.findMatches({ accountId: 'account-bob' })).total).toBe(0);
+  });
+
+  it('ranks ratings and finds friend groups by member', async () => {
+    const rating = (accountId: string, value: number, gamesPlayed = 1) => ({ accountId, rating: value, gamesPlayed, wins: 0, updatedAt: new Date() });
+    await storage.saveRating(rating('a', 1510));
+    await storage.saveRating(rating('b', 1530));
+    await storage.saveRating(rating('c', 1510, 4));
+
+    expect((await storage.loadRatings(['a', 'z'])).map(r => r.rating)).toEqual([1510]);
+    const top = await storage.findRatings({ limit: 2, offset: 0 });
+    expect([top.total, top.ratings.map(r => r.accountId)]).toEqual([3, ['b', 'c']]);
+    expect((await storage.findRatings({ limit: 10, offset: 0 }, ['a', 'b'])).ratings.map(r => r.accountId)).toEqual(['b', 'a']);
+
+    const now = new Date();
+    await storage.saveFriendGroup({ id: 'group-1', name: 'League', createdBy: 'a', memberIds: ['a', 'b'], createdAt: now, updatedAt: now });
+    expect(await storage.loadFriendGroup('group-1')).toMatchObject({ name: 'League', memberIds: ['a', 'b'] });
+    expect((await storage.findFriendGroups('b')).map(g => g.id)).toEqual(['group-1']);
+    expect(await storage.findFriendGroups('c')).toEqual([]);
+  });
+
+  it('lists tournaments newest first, optionally by status', async () => {
+    const tournament = (id: string, status: 'registering' | 'running', createdAt: Date) => ({
+      id, name: id, format: 'swiss' as const, status, organizerId: 'a', tableSize: 4, roundCount: null,
+      settings: createGameSettings(), entrants: [], rounds: [], championId: null, createdAt, updatedAt: createdAt
+    });
+    await storage.saveTournament(tournament('cup-1', 'running', new Date('2026-01-01T00:00:00Z')));
+    await storage.saveTournament(tournament('cup-2', 'registering', new Date('2026-01-02T00:00:00Z')));
+    await storage.saveTournament({ ...tournament('cup-1', 'running', new Date('2026-01-01T00:00:00Z')), name: 'Renamed' });
+
+    expect(await storage.loadTournament('cup-1')).toMatchObject({ name: 'Renamed', status: 'running' });
+    expect(await storage.loadTournament('cup-9')).toBeNull();
+    expect((await storage.findTournaments()).map(t => t.id)).toEqual(['cup-2', 'cup-1']);
+    expect((await storage.findTournaments('running')).map(t => t.id)).toEqual(['cup-1']);
+  });
+});
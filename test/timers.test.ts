@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { playCard } from '../src/game/gameLogic.js';
+import { applyGameCommand } from '../src/game/gameEvents.js';
+import { updateDeadlines, getNextDeadline, chooseTimeoutCommand } from '../src/game/timers.js';
+import { setup, player, handCard, bankTotal } from './helpers.js';
+
+const start = new Date('2026-01-01T00:00:00Z');
+const after = (seconds: number) => new Date(start.getTime() + seconds * 1000);
+
+// Apply timeout commands until the server has nothing left to do for idle players
+function runTimeouts(state: ReturnType<typeof setup>, now: Date): void {
+  let timeout = chooseTimeoutCommand(state, now);
+  while (timeout) {
+    applyGameCommand(state, timeout.playerId, timeout.command);
+    updateDeadlines(state, now);
+    timeout = chooseTimeoutCommand(state, now);
+  }
+}
+
+describe('turn timers', () => {
+  it('sets a turn deadline and does nothing before it passes', () => {
+    const state = setup({ turnPhase: 'draw' });
+    updateDeadlines(state, start);
+
+    expect(getNextDeadline(state)).toEqual(after(120));
+    expect(chooseTimeoutCommand(state, after(119))).toBeNull();
+  });
+
+  it('draws, ends the turn and discards for an idle player', () => {
+    const hand = ['money:1', 'money:1', 'money:1', 'money:1', 'money:1', 'money:1', 'money:2'];
+    const state = setup({ turnPhase: 'draw', players: [{ name: 'Alice', id: 'alice', hand }, { name: 'Bob', id: 'bob' }] });
+    updateDeadlines(state, start);
+
+    runTimeouts(state, after(121));
+
+    expect(player(state, 'alice').hand).toHaveLength(7);
+    expect(state.currentPlayerIndex).toBe(1);
+    expect(getNextDeadline(state)).toEqual(after(121 + 120));
+  });
+
+  it('can be disabled', () => {
+    const state = setup({ turnPhase: 'draw', settings: { turnSeconds: 0, responseSeconds: 0 } });
+    updateDeadlines(state, start);
+    expect(getNextDeadline(state)).toBeNull();
+  });
+});
+
+describe('response timers', () => {
+  it('accepts and pays the minimum for an idle target, then resumes the paused turn clock', () => {
+    const state = setup({
+      players: [
+        { name: 'Alice', id: 'alice', hand: ['action:debtCollector'] },
+        { name: 'Bob', id: 'bob', bank: ['money:1', 'money:5', 'money:10'] }
+      ]
+    });
+    updateDeadlines(state, start);
+
+    playCard(state, 'alice', handCard(state, 'alice', 'action:debtCollector'), { playerId: 'bob' });
+    updateDeadlines(state, after(10));
+    expect(getNextDeadline(state)).toEqual(after(70));
+
+    runTimeouts(state, after(70));
+
+    expect(bankTotal(state, 'alice')).toBe(5);
+    expect(state.pendingAction).toBeNull();
+    // 60 seconds were spent waiting on Bob, so Alice gets them back
+    expect(getNextDeadline(state)).toEqual(after(180));
+  });
+
+  it('keeps one deadline for everyone asked to pay, however many have answered', () => {
+    const state = setup({
+      players: [
+        { name: 'Alice', id: 'alice', hand: ['action:birthday'] },
+        { name: 'Bob', id: 'bob', bank: ['money:2'] },
+        { name: 'Carol', id: 'carol', bank: ['money:2'] },
+        { name: 'Dave', id: 'dave', bank: ['money:2'] }
+      ]
+    });
+    updateDeadlines(state, start);
+
+    playCard(state, 'alice', handCard(state, 'alice', 'action:birthday'));
+    updateDeadlines(state, start);
+    applyGameCommand(state, 'bob', { type: 'respond', response: { accept: true, paymentCardIds: [player(state, 'bob').bank[0].id] } });
+    updateDeadlines(state, after(30));
+    expect(getNextDeadline(state)).toEqual(after(60));
+
+    runTimeouts(state, after(60));
+    expect(state.pendingAction).toBeNull();
+    expect(bankTotal(state, 'alice')).toBe(6);
+  });
+});
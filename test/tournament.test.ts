@@ -0,0 +1,160 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createTournament, registerEntrant, withdrawEntrant, assertOrganizer, beginTournament, seatTables,
+  getStandings, isRoundComplete, getNextSeatings, addRound, dropEntrants, recordTableResult, recordGameResult
+} from '../src/game/tournament.js';
+import { GameError } from '../src/game/errors.js';
+import { Account, Tournament, TournamentFormat, CreateTournamentOptions } from '../src/types/game.js';
+import { setup } from './helpers.js';
+
+function account(id: string): Account {
+  const now = new Date();
+  return { id, username: id, usernameKey: id, displayName: id, passwordHash: null, isGuest: false, createdAt: now, updatedAt: now };
+}
+
+// A started tournament with entrants p0, p1, p2...
+function startedTournament(format: TournamentFormat, entrants: number, options: Partial<CreateTournamentOptions> = {}): Tournament {
+  const tournament = createTournament(account('organizer'), { name: 'Cup', format, ...options });
+  for (let i = 0; i < entrants; i++) registerEntrant(tournament, account(`p${i}`));
+  beginTournament(tournament);
+  return tournament;
+}
+
+// Seat the next round and finish every table, won by its first player unless chosen otherwise
+function playRound(tournament: Tournament, chooseWinner = (accountIds: string[]) => accountIds[0]): string[][] | null {
+  const seatings = getNextSeatings(tournament, () => 0);
+  if (!seatings) return null;
+  const round = tournament.rounds.length + 1;
+  const tables = seatings.map((accountIds, index) => ({ roomCode: `R${round}T${index}`, accountIds }));
+  addRound(tournament, tables, new Date());
+  for (const { roomCode, accountIds } of tables) {
+    recordTableResult(tournament, roomCode, chooseWinner(accountIds), { [accountIds[0]]: 2 });
+  }
+  return seatings;
+}
+
+function codeOf(action: () => unknown): string | undefined {
+  try {
+    action();
+  } catch (error) {
+    if (error instanceof GameError) return error.code;
+    throw error;
+  }
+  return undefined;
+}
+
+describe('seatTables', () => {
+  it('uses as few tables as it can and keeps them even', () => {
+    expect(seatTables(Array.from({ length: 16 }, (_, i) => `p${i}`), 4).map(t => t.length)).toEqual([4, 4, 4, 4]);
+    expect(seatTables(Array.from({ length: 10 }, (_, i) => `p${i}`), 4).map(t => t.length)).toEqual([4, 3, 3]);
+    expect(seatTables(['a', 'b', 'c'], 2)).toEqual([['a', 'c'], ['b']]);
+  });
+});
+
+describe('registration', () => {
+  it('enters each account once until the tournament starts', () => {
+    const tournament = createTournament(account('organizer'), { name: 'Cup', format: 'swiss' });
+    registerEntrant(tournament, account('a'));
+    registerEntrant(tournament, account('a'));
+    expect(tournament.entrants).toHaveLength(1);
+    expect(codeOf(() => beginTournament(tournament))).toBe('NOT_ENOUGH_ENTRANTS');
+
+    withdrawEntrant(tournament, 'a');
+    expect(codeOf(() => withdrawEntrant(tournament, 'a'))).toBe('PLAYER_NOT_FOUND');
+    registerEntrant(tournament, account('a'));
+    registerEntrant(tournament, account('b'));
+    expect(codeOf(() => assertOrganizer(tournament, 'a'))).toBe('NOT_ORGANIZER');
+    beginTournament(tournament);
+    expect(codeOf(() => registerEntrant(tournament, account('c')))).toBe('TOURNAMENT_STARTED');
+  });
+
+  it('checks the table size and round count', () => {
+    expect(codeOf(() => createTournament(account('o'), { name: 'Cup', format: 'swiss', tableSize: 1 }))).toBe('INVALID_SETTINGS');
+    expect(codeOf(() => createTournament(account('o'), { name: 'Cup', format: 'swiss', roundCount: 0 }))).toBe('INVALID_SETTINGS');
+    // Elimination brackets run until one player is left
+    expect(createTournament(account('o'), { name: 'Cup', format: 'singleElimination', roundCount: 3 }).roundCount).toBeNull();
+  });
+});
+
+describe('single elimination', () => {
+  it('advances table winners until one champion is left', () => {
+    const tournament = startedTournament('singleElimination', 16);
+    expect(playRound(tournament)!.map(t => t.length)).toEqual([4, 4, 4, 4]);
+    expect(tournament.entrants.filter(e => e.status === 'active')).toHaveLength(4);
+    expect(isRoundComplete(tournament)).toBe(true);
+
+    const final = playRound(tournament)!;
+    expect(final).toHaveLength(1);
+    expect(playRound(tournament)).toBeNull();
+    expect(tournament.status).toBe('finished');
+    expect(tournament.championId).toBe(final[0][0]);
+    expect(getStandings(tournament)[0]).toMatchObject({ rank: 1, accountId: final[0][0], wins: 2 });
+  });
+});
+
+describe('swiss', () => {
+  it('plays a fixed number of rounds, seating players with similar records together', () => {
+    const tournament = startedTournament('swiss', 8);
+    expect(tournament.roundCount).toBe(2);
+
+    const first = playRound(tournament)!;
+    const winners = first.map(t => t[0]);
+    const second = playRound(tournament, accountIds => accountIds[1])!;
+    expect(second[0].slice(0, 2).sort()).toEqual([...winners].sort());
+    // Everyone keeps playing in a Swiss tournament
+    expect(second.flat()).toHaveLength(8);
+
+    expect(playRound(tournament)).toBeNull();
+    expect(tournament.championId).toBe(getStandings(tournament)[0].accountId);
+    expect(getStandings(tournament)[0].wins).toBe(2);
+  });
+
+  it('plays ceil(log n / log table size) rounds by default', () => {
+    expect(startedTournament('swiss', 32).roundCount).toBe(3);
+    expect(startedTournament('swiss', 32, { roundCount: 5 }).roundCount).toBe(5);
+  });
+});
+
+describe('no-shows and forfeits', () => {
+  it('drops players who missed their table and seats them no more', () => {
+    const tournament = startedTournament('swiss', 4, { tableSize: 2 });
+    const seatings = getNextSeatings(tournament, () => 0)!;
+    addRound(tournament, seatings.map((accountIds, index) => ({ roomCode: `T${index}`, accountIds })), new Date());
+
+    const [present, absent] = seatings[0];
+    dropEntrants(tournament, 'T0', [absent], true);
+    recordTableResult(tournament, 'T0', present);
+    expect(tournament.rounds[0].tables[0]).toMatchObject({ status: 'finished', winnerAccountId: present, noShows: [absent] });
+    expect(tournament.entrants.find(e => e.accountId === absent)).toMatchObject({ status: 'dropped', gamesPlayed: 0 });
+    expect(isRoundComplete(tournament)).toBe(false);
+
+    recordTableResult(tournament, 'T1', seatings[1][0]);
+    expect(getNextSeatings(tournament)!.flat()).not.toContain(absent);
+  });
+
+  it('advances the best placed remaining player when the winner had forfeited', () => {
+    const tournament = startedTournament('singleElimination', 3, { tableSize: 3 });
+    const [table] = getNextSeatings(tournament, () => 0)!;
+    addRound(tournament, [{ roomCode: 'TABLE1', accountIds: table }], new Date());
+
+    const state = setup({
+      roomCode: 'TABLE1',
+      players: [
+        { name: 'A', id: 'a' },
+        { name: 'B', id: 'b', properties: [{ color: 'brown', cards: ['property:brown', 'property:brown'] }] },
+        { name: 'C', id: 'c' }
+      ]
+    });
+    state.players.forEach((player, index) => { player.accountId = table[index]; });
+    state.winner = 'a';
+    dropEntrants(tournament, 'TABLE1', [table[0]], false);
+
+    recordGameResult(tournament, state);
+    expect(tournament.rounds[0].tables[0].winnerAccountId).toBe(table[1]);
+    expect(tournament.entrants.find(e => e.accountId === table[1])).toMatchObject({ status: 'active', wins: 1, setsCompleted: 1 });
+    expect(tournament.entrants.find(e => e.accountId === table[2])!.status).toBe('eliminated');
+
+    expect(getNextSeatings(tournament)).toBeNull();
+    expect(tournament.championId).toBe(table[1]);
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import {
+  PayloadError, parsePlayerName, parseRoomCode, parseUsername, parseAccountPassword, parseCreateRoomOptions, parseCardIds,
+  parsePlayCardTarget, parseActionResponse, parseChatMessage, parseBotDifficulty,
+  parseMatchQuery, parseLeaderboardQuery, parseGroupName, parseCreateTournamentOptions, parseTournamentStatus,
+  parseReplayQuery
+} from '../src/socket/validation.js';
+
+function codeOf(parse: () => unknown): string | undefined {
+  try {
+    parse();
+  } catch (error) {
+    if (error instanceof PayloadError) return error.code;
+    throw error;
+  }
+  return undefined;
+}
+
+describe('socket payload validation', () => {
+  it('trims player names and bounds their length', () => {
+    expect(parsePlayerName('  Alice ')).toBe('Alice');
+    expect(codeOf(() => parsePlayerName(''))).toBe('INVALID_PLAYER_NAME');
+    expect(codeOf(() => parsePlayerName('x'.repeat(25)))).toBe('INVALID_PLAYER_NAME');
+    expect(codeOf(() => parsePlayerName('Bob\n'.repeat(2)))).toBe('INVALID_PLAYER_NAME');
+    expect(codeOf(() => parsePlayerName({ name: 'Alice' }))).toBe('INVALID_PLAYER_NAME');
+  });
+
+  it('checks usernames and account passwords', () => {
+    expect(parseUsername('alice_99')).toBe('alice_99');
+    expect(codeOf(() => parseUsername('al'))).toBe('INVALID_USERNAME');
+    expect(codeOf(() => parseUsername('alice smith'))).toBe('INVALID_USERNAME');
+    expect(codeOf(() => parseAccountPassword('short'))).toBe('INVALID_PASSWORD');
+  });
+
+  it('checks room codes and room options', () => {
+    expect(parseRoomCode('abc234')).toBe('ABC234');
+    expect(codeOf(() => parseRoomCode('ABC'))).toBe('INVALID_ROOM_CODE');
+    expect(parseCreateRoomOptions(undefined)).toEqual({});
+    expect(parseCreateRoomOptions({ seed: '', settings: { handLimit: 9 } })).toEqual({ settings: { handLimit: 9 } });
+    expect(codeOf(() => parseCreateRoomOptions({ settings: { handLimit: '9' } }))).toBe('INVALID_OPTIONS');
+    expect(codeOf(() => parseCreateRoomOptions({ turnTimeLimit: 30 }))).toBe('INVALID_OPTIONS');
+    expect(codeOf(() => parseBotDifficulty('impossible'))).toBe('INVALID_BOT_DIFFICULTY');
+    expect(parseCreateRoomOptions({ visibility: 'public' })).toEqual({ visibility: 'public' });
+    expect(codeOf(() => parseCreateRoomOptions({ visibility: 'hidden' }))).toBe('INVALID_VISIBILITY');
+    expect(codeOf(() => parseCreateRoomOptions({ password: '' }))).toBe('INVALID_PASSWORD');
+    expect(parseCreateRoomOptions({ seed: 'abc', rated: false })).toEqual({ seed: 'abc', rated: false });
+    expect(codeOf(() => parseCreateRoomOptions({ seed: 'abc', rated: true }))).toBe('INVALID_OPTIONS');
+  });
+
+  it('bounds card lists', () => {
+    expect(parseCardIds(['a1', 'b2'])).toEqual(['a1', 'b2']);
+    expect(codeOf(() => parseCardIds('a1'))).toBe('INVALID_CARD_LIST');
+    expect(codeOf(() => parseCardIds(['a1', 'a1']))).toBe('INVALID_CARD_LIST');
+    expect(codeOf(() => parseCardIds([{ id: 'a1' }]))).toBe('INVALID_CARD_LIST');
+    expect(codeOf(() => parseCardIds(Array.from({ length: 121 }, (_, i) => `card-${i}`)))).toBe('INVALID_CARD_LIST');
+  });
+
+  it('keeps only known play targets with valid colours', () => {
+    expect(parsePlayCardTarget(null)).toBeUndefined();
+    expect(parsePlayCardTarget({ playerId: 'bob', propertySetColor: 'green', asBank: null })).toEqual({ playerId: 'bob', propertySetColor: 'green' });
+    expect(codeOf(() => parsePlayCardTarget({ propertySetColor: 'purple' }))).toBe('INVALID_COLOR');
+    expect(codeOf(() => parsePlayCardTarget({ giveFromSet: 7 }))).toBe('INVALID_COLOR');
+    expect(codeOf(() => parsePlayCardTarget({ steal: true }))).toBe('INVALID_TARGET');
+    expect(codeOf(() => parsePlayCardTarget({ asBank: 'yes' }))).toBe('INVALID_TARGET');
+    expect(codeOf(() => parsePlayCardTarget({ doubleRentCount: 9 }))).toBe('INVALID_TARGET');
+    expect(codeOf(() => parsePlayCardTarget({ playerId: '../bob' }))).toBe('INVALID_TARGET');
+  });
+
+  it('checks action responses and chat messages', () => {
+    expect(parseActionResponse({ accept: true, paymentCardIds: ['a1'] })).toEqual({ accept: true, paymentCardIds: ['a1'] });
+    expect(codeOf(() => parseActionResponse({ useJustSayNo: true }))).toBe('INVALID_RESPONSE');
+    expect(codeOf(() => parseActionResponse({ accept: true, paymentCardIds: 'a1' }))).toBe('INVALID_CARD_LIST');
+    expect(parseChatMessage('x'.repeat(600))).toHaveLength(500);
+    expect(codeOf(() => parseChatMessage('   '))).toBe('INVALID_MESSAGE');
+    expect(codeOf(() => parseChatMessage(42))).toBe('INVALID_MESSAGE');
+  });
+
+  it('reads match history queries with paging defaults', () => {
+    expect(parseMatchQuery({})).toEqual({ filter: {}, page: { limit: 20, offset: 0 } });
+    expect(parseMatchQuery({ accountId: 'acc-1', result: 'won', since: '2026-01-01', limit: '5', offset: '10' })).toEqual({
+      filter: { accountId: 'acc-1', result: 'won', since: new Date('2026-01-01') },
+      page: { limit: 5, offset: 10 }
+    });
+    expect(codeOf(() => parseMatchQuery({ result: 'won' }))).toBe('INVALID_QUERY');
+    expect(codeOf(() => parseMatchQuery({ limit: '500' }))).toBe('INVALID_QUERY');
+    expect(codeOf(() => parseMatchQuery({ since: 'yesterday' }))).toBe('INVALID_QUERY');
+  });
+
+  it('reads replay queries', () => {
+    expect(parseReplayQuery({})).toEqual({});
+    expect(parseReplayQuery({ sequence: '12' })).toEqual({ sequence: 12 });
+    expect(codeOf(() => parseReplayQuery({ sequence: 'last' }))).toBe('INVALID_QUERY');
+    expect(codeOf(() => parseReplayQuery({ sequence: '-1' }))).toBe('INVALID_QUERY');
+  });
+
+  it('reads leaderboard queries and group names', () => {
+    expect(parseLeaderboardQuery({})).toEqual({ period: 'all', week: undefined, page: { limit: 20, offset: 0 } });
+    expect(parseLeaderboardQuery({ period: 'week', week: '2026-10-14' }).week).toEqual(new Date('2026-10-14'));
+    expect(codeOf(() => parseLeaderboardQuery({ period: 'month' }))).toBe('INVALID_QUERY');
+    expect(parseGroupName('  Tuesday league ')).toBe('Tuesday league');
+    expect(codeOf(() => parseGroupName(''))).toBe('INVALID_GROUP_NAME');
+    expect(codeOf(() => parseGroupName('x'.repeat(41)))).toBe('INVALID_GROUP_NAME');
+  });
+
+  it('parses tournament options and statuses', () => {
+    expect(parseCreateTournamentOptions({ name: ' Cup ', format: 'swiss', tableSize: 3, roundCount: null })).toEqual({
+      name: 'Cup', format: 'swiss', tableSize: 3
+    });
+    expect(codeOf(() => parseCreateTournamentOptions({ name: 'Cup', format: 'league' }))).toBe('INVALID_TOURNAMENT');
+    expect(codeOf(() => parseCreateTournamentOptions({ name: '', format: 'swiss' }))).toBe('INVALID_TOURNAMENT');
+    expect(codeOf(() => parseCreateTournamentOptions({ name: 'Cup', format: 'swiss', tableSize: '4' }))).toBe('INVALID_TOURNAMENT');
+    expect(codeOf(() => parseCreateTournamentOptions({ name: 'Cup', format: 'swiss', prize: 1 }))).toBe('INVALID_TOURNAMENT');
+    expect(parseTournamentStatus('running')).toBe('running');
+    expect(codeOf(() => parseTournamentStatus('paused'))).toBe('INVALID_QUERY');
+  });
+});